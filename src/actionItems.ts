@@ -0,0 +1,95 @@
+import moment from 'moment';
+import { ActionItem, VerboseTranscriptionResult } from './types';
+
+export const ACTION_ITEM_SYSTEM_PROMPT = '당신은 회의록에서 액션 아이템을 추출하는 시스템입니다. 설명이나 코드 블록 없이 JSON만 출력합니다.';
+
+// Part of the user message: summary providers wrap the text in their own summary request,
+// which the format has to override
+const ACTION_ITEM_INSTRUCTIONS = `아래 회의에서 누군가 하기로 한 일만 골라 JSON 배열로만 답하세요. 회의록을 정리하지 마세요.
+
+형식: [{"task": "할 일", "owner": "담당자 또는 null", "due": "YYYY-MM-DD 또는 null"}]
+
+- task: 한 문장으로 된 구체적인 할 일
+- owner: 맡은 사람. 화자 라벨(예: "Speaker 1")이나 대화에 나온 이름을 그대로 쓰고, 알 수 없으면 null
+- due: 기한. "다음 주 금요일"처럼 상대적인 표현은 회의 날짜를 기준으로 계산하고, 언급이 없으면 null
+- 액션 아이템이 없으면 []`;
+
+// Tasks plugin date format
+const DUE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * User message for the extraction pass: the output format, the meeting date and the meeting
+ * itself. Speaker labels are kept so the model can name owners.
+ */
+export function buildActionItemInput(source: VerboseTranscriptionResult | string, meetingDate = moment()): string {
+  const text = typeof source === 'string'
+    ? source
+    : source.segments.some(segment => segment.speaker)
+      ? source.segments.map(segment => `${segment.speaker?.label ?? '?'}: ${segment.text.trim()}`).join('\n')
+      : source.text;
+
+  return `${ACTION_ITEM_INSTRUCTIONS}\n회의 날짜: ${meetingDate.format('YYYY-MM-DD (ddd)')}\n\n${text}`;
+}
+
+function isValidDate(value: string): boolean {
+  return DUE_DATE_PATTERN.test(value) && moment(value, 'YYYY-MM-DD', true).isValid();
+}
+
+/**
+ * Read the model's JSON answer. Entries without a task are dropped, and an owner or due date
+ * that doesn't hold up is left out rather than failing the whole list.
+ */
+export function parseActionItems(response: string): ActionItem[] {
+  // Models like to wrap JSON in a code block or a sentence despite the instructions
+  const json = response.replace(/```(?:json)?/gi, '').trim();
+  const start = json.search(/[[{]/);
+  const end = Math.max(json.lastIndexOf(']'), json.lastIndexOf('}'));
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json.substring(start, end + 1));
+  } catch {
+    throw new Error('액션 아이템 응답이 올바른 JSON이 아닙니다.');
+  }
+
+  // Some models answer with an object around the list
+  const wrapper = parsed as { actionItems?: unknown; action_items?: unknown } | null;
+  const list = Array.isArray(parsed) ? parsed : wrapper?.actionItems ?? wrapper?.action_items;
+  if (!Array.isArray(list)) {
+    throw new Error('액션 아이템 응답에 목록이 없습니다.');
+  }
+
+  const items: ActionItem[] = [];
+  for (const entry of list) {
+    if (!entry || typeof entry !== 'object') {
+      continue;
+    }
+    const { task, owner, due } = entry as Record<string, unknown>;
+    const cleanTask = typeof task === 'string'
+      ? task.replace(/^\s*(?:[-*]\s*)?(?:\[[ xX]?\]\s*)?/, '').replace(/\s+/g, ' ').trim()
+      : '';
+    if (!cleanTask) {
+      continue;
+    }
+
+    const item: ActionItem = { task: cleanTask };
+    if (typeof owner === 'string' && owner.replace(/^@/, '').trim()) {
+      item.owner = owner.replace(/^@/, '').trim();
+    }
+    if (typeof due === 'string' && isValidDate(due.trim())) {
+      item.due = due.trim();
+    }
+    items.push(item);
+  }
+  return items;
+}
+
+/**
+ * A Tasks plugin line, e.g. "- [ ] 견적서 보내기 @Speaker-1 📅 2024-05-10". Tasks only reads
+ * the due date at the end of the line, so the owner goes before it.
+ */
+export function formatTaskLine(item: ActionItem): string {
+  const owner = item.owner ? ` @${item.owner.replace(/\s+/g, '-')}` : '';
+  const due = item.due ? ` 📅 ${item.due}` : '';
+  return `- [ ] ${item.task}${owner}${due}`;
+}
@@ -1,19 +1,32 @@
+import moment from 'moment';
 import { ConfigLoader } from './configLoader';
 import { createSttProvider, createSummarizationProvider } from './providers/providerFactory';
+import { getAudioFormat, getFileExtension, getSupportedAudioExtensions } from './audioFormats';
+import { isAbortError, sleepWithSignal, throwIfAborted } from './cancellation';
+import { CheckpointStore, ProcessingCheckpoint } from './checkpointStore';
+import { TranscriptionCache, TranscriptionCacheKey } from './transcriptionCache';
+import { getGeminiContextTokens } from './providers/GeminiSummarizationProvider';
+import { getClaudeContextTokens } from './providers/AnthropicSummarizationProvider';
+import { ACTION_ITEM_SYSTEM_PROMPT, buildActionItemInput, parseActionItems } from './actionItems';
 import { 
+  ActionItem,
   ATTNSettings, 
+  ChunkProgress, 
   VerboseTranscriptionResult, 
   PerformanceMetrics, 
   ProcessingProgress, 
   ProgressCallback,
   StreamingCallback,
-  StreamingResult
+  StreamingResult,
+  SummaryProvider,
+  SummarySettings
 } from './types';
 
 export interface ProcessAudioResult {
   transcript: string;
   summary: string;
   transcriptionResult: VerboseTranscriptionResult; // Detailed transcription data
+  actionItems?: ActionItem[]; // Structured action items, when extraction is enabled and succeeded
   performanceMetrics?: PerformanceMetrics;
   processingTimeMs: number;
 }
@@ -32,6 +45,12 @@ export class ApiService {
   private progressCallback?: ProgressCallback;
   private streamingCallback?: StreamingCallback;
   private processingStartTime: number = 0;
+  private signal?: AbortSignal; // Cancels the current processAudioFile run
+  private checkpoint?: ProcessingCheckpoint; // Saved chunks and partial summaries of a long recording
+  private transcriptionCache?: TranscriptionCache;
+  private liveTranscript?: VerboseTranscriptionResult;
+  private cachedTranscriptionRequired = false;
+  private recordedAt?: number;
 
   constructor(settings: ATTNSettings) {
     this.config = ConfigLoader.getInstance();
@@ -51,6 +70,33 @@ export class ApiService {
     this.streamingCallback = callback;
   }
 
+  setTranscriptionCache(cache: TranscriptionCache): void {
+    this.transcriptionCache = cache;
+  }
+
+  /**
+   * Transcript made while the audio was being recorded; processing goes straight to
+   * the summary.
+   */
+  setLiveTranscript(transcript: VerboseTranscriptionResult): void {
+    this.liveTranscript = transcript;
+  }
+
+  /**
+   * When the meeting was recorded; relative due dates of action items are counted from it.
+   */
+  setRecordedAt(timestamp: number): void {
+    this.recordedAt = timestamp;
+  }
+
+  /**
+   * Summary-only runs: fail when there is no stored transcript for the audio instead of
+   * sending it to STT again.
+   */
+  requireCachedTranscription(): void {
+    this.cachedTranscriptionRequired = true;
+  }
+
   private initializePerformanceMetrics(): void {
     this.performanceMetrics = {
       totalProcessingTime: 0,
@@ -69,9 +115,11 @@ export class ApiService {
     return { ...this.performanceMetrics };
   }
 
-  async processAudioFile(audioFile: File, systemPrompt?: string): Promise<ProcessAudioResult> {
+  async processAudioFile(audioFile: File, systemPrompt?: string, signal?: AbortSignal): Promise<ProcessAudioResult> {
     this.processingStartTime = Date.now();
     this.initializePerformanceMetrics();
+    this.signal = signal;
+    this.checkpoint = undefined;
     
     try {
       // Validate audio file before processing
@@ -97,8 +145,38 @@ export class ApiService {
       console.log(`🔍 Processing strategy: ${fileSizeAnalysis.shouldUseChunking ? 'CHUNKING' : 'DIRECT'} (${fileSizeAnalysis.reason})`);
       
       let verboseResult: VerboseTranscriptionResult;
+      const audioHash = this.transcriptionCache || fileSizeAnalysis.shouldUseChunking
+        ? await this.hashAudio(audioFile)
+        : undefined;
+      const cachedResult = !this.liveTranscript && audioHash && this.transcriptionCache
+        ? await this.transcriptionCache.getTranscription(audioHash, this.getTranscriptionCacheKey())
+        : null;
+      if (this.cachedTranscriptionRequired && !this.liveTranscript && !cachedResult) {
+        throw new Error('저장된 전사 결과가 없어 다시 요약할 수 없습니다. 녹음을 새로 처리해 주세요.');
+      }
       
-      if (fileSizeAnalysis.shouldUseChunking) {
+      if (this.liveTranscript) {
+        console.log('🎙️ Using transcript made during recording, skipping STT');
+        this.emitProgress({
+          stage: 'transcription',
+          progress: 60,
+          currentStep: 'Using transcript made during recording',
+          completedSteps: 1,
+          totalSteps: 2
+        });
+        verboseResult = this.liveTranscript;
+      } else if (cachedResult) {
+        // Same audio with the same STT settings: only the summary and note are regenerated
+        console.log('♻️ Using cached transcription, skipping STT');
+        this.emitProgress({
+          stage: 'transcription',
+          progress: 60,
+          currentStep: 'Using cached transcription',
+          completedSteps: 1,
+          totalSteps: 2
+        });
+        verboseResult = cachedResult;
+      } else if (fileSizeAnalysis.shouldUseChunking) {
         if (!this.settings.processing?.enableChunking) {
           console.warn('⚠️ File exceeds size limit but chunking is disabled! This will likely fail.');
           console.warn('⚠️ Attempting direct transcription anyway...');
@@ -112,6 +190,7 @@ export class ApiService {
           completedSteps: 0,
           totalSteps: Math.ceil(estimatedDuration / 150) + 2 // Estimated chunks + summarization
         });
+        this.checkpoint = audioHash ? this.openCheckpoint(audioHash) : undefined;
         verboseResult = await this.processWithChunking(audioFile);
       } else {
         // Direct transcription for smaller files
@@ -169,6 +248,10 @@ export class ApiService {
         }
       }
 
+      if (!cachedResult && audioHash && this.transcriptionCache) {
+        await this.transcriptionCache.setTranscription(audioHash, this.getTranscriptionCacheKey(), verboseResult);
+      }
+
       // Update transcription completion
       this.performanceMetrics.transcriptionTime = Date.now() - this.processingStartTime - this.performanceMetrics.segmentationTime;
       
@@ -184,6 +267,7 @@ export class ApiService {
       // Step 2: Summarize the complete transcription result (allow fallback to raw text)
       const summaryStartTime = Date.now();
       let summary: string;
+      let summaryFailed = false;
       
       try {
         summary = await this.summarizeWithSegments(verboseResult, systemPrompt);
@@ -193,7 +277,11 @@ export class ApiService {
           throw new Error('요약 결과가 비어있습니다.');
         }
       } catch (summaryError) {
+        if (isAbortError(summaryError)) {
+          throw summaryError;
+        }
         console.warn('⚠️ 요약 생성에 실패했지만 STT 원문을 제공합니다:', summaryError.message);
+        summaryFailed = true;
         
         // Provide structured transcription as fallback summary
         const structuredTranscript = this.formatTranscriptWithTimestamps(verboseResult);
@@ -204,6 +292,32 @@ export class ApiService {
         console.log('📝 STT 원문으로 대체된 결과를 제공합니다.');
       }
 
+      // Step 3: Pull action items out as structured data; the note is still useful without them
+      let actionItems: ActionItem[] | undefined;
+      if (!summaryFailed && this.settings.processing?.extractActionItems !== false) {
+        this.emitProgress({
+          stage: 'summarization',
+          progress: 90,
+          currentStep: 'Extracting action items',
+          completedSteps: verboseResult.segments.length,
+          totalSteps: verboseResult.segments.length + 1,
+          performanceMetrics: this.performanceMetrics
+        });
+        try {
+          actionItems = await this.extractActionItems(verboseResult, summary);
+        } catch (actionItemError) {
+          if (isAbortError(actionItemError)) {
+            throw actionItemError;
+          }
+          console.warn('⚠️ 액션 아이템 추출 실패:', actionItemError instanceof Error ? actionItemError.message : actionItemError);
+        }
+      }
+
+      // Nothing left to resume; after a failed summary the saved work lets a retry skip transcription
+      if (!summaryFailed) {
+        this.checkpoint?.clear();
+      }
+
       // Final metrics
       this.performanceMetrics.totalProcessingTime = Date.now() - this.processingStartTime;
       
@@ -241,10 +355,15 @@ export class ApiService {
         transcript: verboseResult.text,
         summary: summary,
         transcriptionResult: verboseResult,
+        actionItems,
         performanceMetrics: this.performanceMetrics,
         processingTimeMs: this.performanceMetrics.totalProcessingTime
       };
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+
       // Emit error progress
       this.emitProgress({
         stage: 'complete',
@@ -281,6 +400,63 @@ export class ApiService {
     }
   }
 
+  /**
+   * Report a transcribed chunk together with the transcript so far. The ETA assumes
+   * the remaining chunks take as long as the ones already done.
+   */
+  private emitChunkProgress(chunk: ChunkProgress, chunkTexts: string[], startTime: number): void {
+    const elapsedSec = (Date.now() - startTime) / 1000;
+    const progress: ProcessingProgress = {
+      stage: 'transcription',
+      progress: Math.round(10 + (chunk.completedChunks / chunk.totalChunks) * 55),
+      currentStep: `Transcribed chunk ${chunk.completedChunks}/${chunk.totalChunks}`,
+      completedSteps: chunk.completedChunks,
+      totalSteps: chunk.totalChunks,
+      estimatedTimeRemaining: Math.round((elapsedSec / chunk.completedChunks) * (chunk.totalChunks - chunk.completedChunks)),
+      performanceMetrics: this.performanceMetrics
+    };
+    this.emitProgress(progress);
+
+    if (this.streamingCallback) {
+      this.streamingCallback({
+        partialTranscript: chunkTexts.join(' ').trim(),
+        progress,
+        intermediateResults: [{
+          segmentIndex: chunk.chunkIndex,
+          transcription: chunk.transcription,
+          timestamp: chunk.timestamp
+        }]
+      });
+    }
+  }
+
+  private emitPartialSummaryProgress(completedGroups: number, totalGroups: number, startTime: number): void {
+    const elapsedSec = (Date.now() - startTime) / 1000;
+    this.emitProgress({
+      stage: 'summarization',
+      progress: Math.round(70 + (completedGroups / totalGroups) * 20),
+      currentStep: `Summarized section ${completedGroups}/${totalGroups}`,
+      completedSteps: completedGroups,
+      totalSteps: totalGroups + 1, // Plus the final consolidation
+      estimatedTimeRemaining: Math.round((elapsedSec / completedGroups) * (totalGroups - completedGroups))
+    });
+  }
+
+  private emitPartialSummary(partialSummary: string): void {
+    if (this.streamingCallback) {
+      this.streamingCallback({
+        partialSummary,
+        progress: {
+          stage: 'summarization',
+          progress: 70,
+          currentStep: 'Generating meeting summary',
+          completedSteps: 0,
+          totalSteps: 1
+        }
+      });
+    }
+  }
+
   private analyzeFileSize(audioFile: File): {
     sizeMB: string;
     sizeBytes: number;
@@ -344,18 +520,24 @@ export class ApiService {
       console.warn(`Large audio file: ${(audioFile.size / 1024 / 1024).toFixed(2)}MB`);
     }
     
-    // Check file extension
-    const validExtensions = ['.m4a', '.mp3', '.wav', '.flac', '.aac', '.ogg', '.webm', '.mp4'];
-    const fileExtension = audioFile.name.toLowerCase().substring(audioFile.name.lastIndexOf('.'));
+    // Check file extension against the format registry
+    const fileExtension = getFileExtension(audioFile.name);
+    const format = getAudioFormat(fileExtension);
     
-    if (!validExtensions.includes(fileExtension)) {
-      console.warn(`Unsupported file extension: ${fileExtension}. Supported: ${validExtensions.join(', ')}`);
-      // Don't fail, just warn - OpenAI might support it
+    if (!format) {
+      return { 
+        isValid: false, 
+        error: `지원하지 않는 오디오 형식입니다: .${fileExtension || '(없음)'} (지원 형식: ${getSupportedAudioExtensions().join(', ')})` 
+      };
+    }
+    
+    if (!format.sttNative) {
+      console.warn(`Audio format .${fileExtension} is not accepted by STT APIs directly; it should be transcoded before upload`);
     }
     
     // Check MIME type if available
-    if (audioFile.type && !audioFile.type.startsWith('audio/') && !audioFile.type.startsWith('video/')) {
-      console.warn(`Unexpected MIME type: ${audioFile.type}`);
+    if (audioFile.type && audioFile.type !== format.mimeType && !audioFile.type.startsWith('audio/')) {
+      console.warn(`Unexpected MIME type: ${audioFile.type} (expected ${format.mimeType})`);
     }
     
     return { isValid: true };
@@ -365,6 +547,46 @@ export class ApiService {
     return this.transcribeAudioVerbose(audioFile);
   }
 
+  private async hashAudio(audioFile: File): Promise<string | undefined> {
+    try {
+      return CheckpointStore.hashContent(await audioFile.arrayBuffer());
+    } catch (error) {
+      console.warn('⚠️ 오디오 해시를 계산할 수 없어 캐시와 체크포인트 없이 처리합니다:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Checkpoints are keyed by the audio content, so a retry of the same recording
+   * picks up where the failed attempt stopped.
+   */
+  private openCheckpoint(audioHash: string): ProcessingCheckpoint | undefined {
+    try {
+      return new CheckpointStore().open(audioHash);
+    } catch (error) {
+      console.warn('⚠️ 체크포인트를 열 수 없어 처음부터 처리합니다:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Everything besides the audio that changes the transcript. Templates and summary
+   * prompts are deliberately left out so regenerating a note reuses the transcript.
+   */
+  private getTranscriptionCacheKey(): TranscriptionCacheKey {
+    const stt = this.settings.stt;
+    const diarization = this.settings.processing?.diarization;
+    return {
+      provider: stt.provider,
+      model: stt.model,
+      language: stt.language || this.config.getOpenAISettings()?.language || 'ko',
+      endpoint: stt.provider === 'local-whisper'
+        ? stt.whisperServerUrl || stt.whisperBinaryPath
+        : stt.provider === 'openai-compatible' ? stt.compatibleBaseUrl : stt.baseUrl,
+      diarization: diarization?.enabled ? diarization.provider || 'pyannote' : undefined
+    };
+  }
+
   private async processWithChunking(audioFile: File): Promise<VerboseTranscriptionResult> {
     console.log('🔍 CHUNKING WORKFLOW: Starting processWithChunking for file:', {
       name: audioFile.name,
@@ -376,6 +598,15 @@ export class ApiService {
     try {
       const { AudioProcessor } = await import('./audioProcessor');
       const audioProcessor = new AudioProcessor();
+      if (this.transcriptionCache) {
+        audioProcessor.setTranscriptionCache(this.transcriptionCache);
+      }
+      const transcriptionStartTime = Date.now();
+      const chunkTexts: string[] = [];
+      audioProcessor.setChunkProgressCallback((chunk) => {
+        chunkTexts.push(chunk.transcription);
+        this.emitChunkProgress(chunk, chunkTexts, transcriptionStartTime);
+      });
       
       console.log('🔍 CHUNKING WORKFLOW: AudioProcessor created, calling transcribeWithChunking...');
       console.log('🔍 CHUNKING WORKFLOW: Settings passed to AudioProcessor:', {
@@ -387,7 +618,7 @@ export class ApiService {
       });
 
       // Step 1: Transcribe all chunks (STT only, no summarization)
-      const chunkTranscriptionResult = await audioProcessor.transcribeWithChunking(audioFile, this.settings);
+      const chunkTranscriptionResult = await audioProcessor.transcribeWithChunking(audioFile, this.settings, this.signal, this.checkpoint);
       
       console.log('🔍 CHUNKING WORKFLOW: transcribeWithChunking completed', {
         hasText: !!chunkTranscriptionResult.text,
@@ -421,9 +652,12 @@ export class ApiService {
   private async transcribeAudioVerbose(audioFile: File): Promise<VerboseTranscriptionResult> {
     try {
       // Get effective STT settings (priority: settings.stt.apiKey > legacy openaiApiKey > config file)
+      // OpenAI-compatible servers only ever get their own key, never the OpenAI account key
       const effectiveSttSettings = {
         ...this.settings.stt,
-        apiKey: this.settings.stt.apiKey || this.settings.openaiApiKey || this.config.getOpenAIApiKey() || '',
+        apiKey: this.settings.stt.provider === 'openai-compatible'
+          ? this.settings.stt.compatibleApiKey || ''
+          : this.settings.stt.apiKey || this.settings.openaiApiKey || this.config.getOpenAIApiKey() || '',
         language: this.settings.stt.language || this.config.getOpenAISettings()?.language || 'ko'
       };
 
@@ -449,7 +683,9 @@ export class ApiService {
       const result = await sttProvider.transcribe(audioBuffer, {
         format: 'verbose_json',
         language: effectiveSttSettings.language,
-        model: effectiveSttSettings.model
+        model: effectiveSttSettings.model,
+        fileName: audioFile.name,
+        signal: this.signal
       });
 
       if (this.config.isDebugMode()) {
@@ -459,7 +695,7 @@ export class ApiService {
 
       return result;
     } catch (error) {
-      if (error instanceof Error) {
+      if (error instanceof Error && !isAbortError(error)) {
         throw new Error(`음성 인식 실패: ${error.message}`);
       }
       throw error;
@@ -471,7 +707,7 @@ export class ApiService {
       const estimatedDuration = verboseResult.duration || this.estimateAudioDuration(verboseResult);
       const isUltraLong = estimatedDuration > 3600; // Over 1 hour
       
-      if (isUltraLong && verboseResult.segments.length > 50) {
+      if (isUltraLong && verboseResult.segments.length > 50 && !this.fitsInSingleSummaryCall(verboseResult)) {
         // Use hierarchical summarization for ultra-long meetings
         if (this.config.isDebugMode()) {
           console.log(`🔧 ATTN Debug: Using hierarchical summarization for ${Math.round(estimatedDuration / 60)}-minute meeting`);
@@ -483,7 +719,7 @@ export class ApiService {
         return await this.standardSummarization(verboseResult, customSystemPrompt);
       }
     } catch (error) {
-      if (error instanceof Error) {
+      if (error instanceof Error && !isAbortError(error)) {
         // Enhanced error reporting for better debugging
       const errorMessage = (error as any).response?.data?.error?.message || (error as Error).message;
       const errorCode = (error as any).response?.status || 'unknown';
@@ -503,17 +739,73 @@ export class ApiService {
     }
   }
 
-  private async standardSummarization(verboseResult: VerboseTranscriptionResult, customSystemPrompt?: string): Promise<string> {
-    // Get effective Summary settings
+  /**
+   * Ask the summary model for action items as JSON. Meetings too long for one request are
+   * read from the summary, which already lists the action items, instead of the transcript.
+   */
+  private async extractActionItems(verboseResult: VerboseTranscriptionResult, summary: string): Promise<ActionItem[]> {
+    const effectiveSummarySettings = this.getEffectiveSummarySettings();
+    const summaryProvider = createSummarizationProvider(effectiveSummarySettings);
+
+    const estimatedDuration = verboseResult.duration || this.estimateAudioDuration(verboseResult);
+    const useTranscript = estimatedDuration <= 3600 || this.fitsInSingleSummaryCall(verboseResult);
+
+    const response = await summaryProvider.summarize({
+      text: buildActionItemInput(useTranscript ? verboseResult : summary, moment(this.recordedAt)),
+      language: verboseResult.language
+    }, {
+      model: effectiveSummarySettings.model,
+      systemPrompt: ACTION_ITEM_SYSTEM_PROMPT,
+      signal: this.signal
+    });
+
+    const actionItems = parseActionItems(response);
+    console.log(`✅ Extracted ${actionItems.length} action items`);
+    return actionItems;
+  }
+
+  private getEffectiveSummarySettings(): SummarySettings {
+    // Priority: settings.summary.apiKey > legacy openaiApiKey > config file.
+    // Non-OpenAI vendors and self-hosted servers only ever get their own key.
+    const summary = this.settings.summary;
+    const usesOwnKeyOnly = summary.provider === 'openai-compatible' || summary.provider === 'anthropic';
+    const ownKey = summary.provider === 'openai-compatible' ? summary.compatibleApiKey : summary.apiKey;
     const effectiveSummarySettings = {
-      ...this.settings.summary,
-      apiKey: this.settings.summary.apiKey || this.settings.openaiApiKey || this.config.getOpenAIApiKey() || ''
+      ...summary,
+      apiKey: usesOwnKeyOnly
+        ? ownKey || ''
+        : summary.apiKey || this.settings.openaiApiKey || this.config.getOpenAIApiKey() || ''
     };
 
     if (!effectiveSummarySettings.apiKey && effectiveSummarySettings.provider === 'openai') {
       throw new Error('Summary API 키가 설정되지 않았습니다. 플러그인 설정에서 API 키를 입력해주세요.');
     }
 
+    return effectiveSummarySettings;
+  }
+
+  /**
+   * Long-context providers can take the whole transcript in one request, so
+   * hierarchical summarization is only needed when it would not fit.
+   */
+  private fitsInSingleSummaryCall(verboseResult: VerboseTranscriptionResult): boolean {
+    // Same per-model limits the providers truncate their input to
+    const contextTokens: Partial<Record<SummaryProvider, (model: string) => number>> = {
+      gemini: getGeminiContextTokens,
+      anthropic: getClaudeContextTokens
+    };
+    const getLimit = contextTokens[this.settings.summary.provider];
+    if (!getLimit) {
+      return false;
+    }
+    const limit = getLimit(this.settings.summary.model || '');
+    // ~2 characters per token for Korean text, with headroom for the prompt and the response
+    return Math.ceil(verboseResult.text.length / 2) < limit * 0.7;
+  }
+
+  private async standardSummarization(verboseResult: VerboseTranscriptionResult, customSystemPrompt?: string): Promise<string> {
+    const effectiveSummarySettings = this.getEffectiveSummarySettings();
+
     const summaryProvider = createSummarizationProvider(effectiveSummarySettings);
     
     // Use custom system prompt if provided, otherwise use settings
@@ -542,7 +834,10 @@ ${speakerInfo}
     };
 
     const result = await summaryProvider.summarize(input, {
-      model: effectiveSummarySettings.model
+      model: effectiveSummarySettings.model,
+      systemPrompt,
+      onToken: (token, textSoFar) => this.emitPartialSummary(textSoFar),
+      signal: this.signal
     });
 
     if (this.config.isDebugMode()) {
@@ -554,14 +849,7 @@ ${speakerInfo}
   }
 
   private async hierarchicalSummarization(verboseResult: VerboseTranscriptionResult, customSystemPrompt?: string): Promise<string> {
-    const effectiveSummarySettings = {
-      ...this.settings.summary,
-      apiKey: this.settings.summary.apiKey || this.settings.openaiApiKey || this.config.getOpenAIApiKey() || ''
-    };
-
-    if (!effectiveSummarySettings.apiKey && effectiveSummarySettings.provider === 'openai') {
-      throw new Error('Summary API 키가 설정되지 않았습니다. 플러그인 설정에서 API 키를 입력해주세요.');
-    }
+    const effectiveSummarySettings = this.getEffectiveSummarySettings();
 
     const summaryProvider = createSummarizationProvider(effectiveSummarySettings);
     const estimatedDuration = verboseResult.duration || this.estimateAudioDuration(verboseResult);
@@ -619,11 +907,18 @@ ${speakerInfo}
 
     try {
       const finalSummary = await summaryProvider.summarize(consolidatedInput, {
-        model: effectiveSummarySettings.model
+        model: effectiveSummarySettings.model,
+        systemPrompt: customSystemPrompt || this.settings.systemPrompt,
+        onToken: (token, textSoFar) => this.emitPartialSummary(textSoFar),
+        signal: this.signal
       });
       
       return finalSummary;
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+
       // Fallback: if final consolidation fails, return concatenated partial summaries
       if (this.config.isDebugMode()) {
         console.log(`🔧 ATTN Debug: Final consolidation failed, returning concatenated summaries: ${(error as Error).message}`);
@@ -642,8 +937,29 @@ ${speakerInfo}
     const segmentGroups = this.chunkArray(verboseResult.segments, groupSize);
     const partialSummaries: string[] = [];
 
+    if (this.checkpoint) {
+      const restored = this.checkpoint.usePartialSummaries(JSON.stringify({
+        provider: effectiveSummarySettings.provider,
+        model: effectiveSummarySettings.model,
+        groupSize,
+        transcriptHash: CheckpointStore.hashContent(Buffer.from(verboseResult.text))
+      }));
+      if (restored > 0) {
+        console.log(`♻️ Resuming from checkpoint: ${restored}/${segmentGroups.length} partial summaries already created`);
+      }
+    }
+
     // Process groups sequentially to avoid rate limits (changed from parallel)
+    const summariesStartTime = Date.now();
     for (let i = 0; i < segmentGroups.length; i++) {
+      throwIfAborted(this.signal);
+
+      const saved = this.checkpoint?.getPartialSummary(i);
+      if (saved !== undefined) {
+        partialSummaries.push(saved);
+        continue;
+      }
+
       const group = segmentGroups[i];
       const globalGroupIndex = i;
       const groupStartTime = group[0]?.start || 0;
@@ -674,20 +990,29 @@ ${speakerInfo}
 
       try {
         const partialSummary = await summaryProvider.summarize(input, {
-          model: effectiveSummarySettings.model
+          model: effectiveSummarySettings.model,
+          signal: this.signal
         });
         partialSummaries.push(partialSummary);
+        // Fallback summaries below are not saved, so a retry asks the provider again
+        this.checkpoint?.savePartialSummary(i, partialSummary);
         
         if (this.config.isDebugMode()) {
           console.log(`🔧 ATTN Debug: Successfully processed group ${globalGroupIndex + 1}`);
         }
       } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
         console.warn(`Failed to create partial summary for group ${globalGroupIndex + 1}:`, error);
         // Add a fallback summary using the original text
         const fallbackSummary = `구간 ${globalGroupIndex + 1} (${this.formatTime(groupStartTime)}-${this.formatTime(groupEndTime)}): ${truncatedGroupText.substring(0, 200)}...`;
         partialSummaries.push(fallbackSummary);
       }
 
+      this.emitPartialSummaryProgress(i + 1, segmentGroups.length, summariesStartTime);
+      this.emitPartialSummary(partialSummaries.join('\n\n'));
+
       // Rate limiting delay between groups
       if (i < segmentGroups.length - 1) {
         await this.sleep(1500); // 1.5 second delay between groups
@@ -712,7 +1037,7 @@ ${speakerInfo}
   }
 
   private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    return sleepWithSignal(ms, this.signal);
   }
 
   private estimateAudioDuration(verboseResult: VerboseTranscriptionResult): number {
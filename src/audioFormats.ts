@@ -0,0 +1,72 @@
+export interface AudioFormatInfo {
+  extension: string;
+  mimeType: string;
+  sttNative: boolean; // Accepted as-is by the STT upload APIs; otherwise transcoded with FFmpeg first
+}
+
+// Registry of audio formats ATTN accepts from the vault
+export const AUDIO_FORMATS: Record<string, AudioFormatInfo> = {
+  m4a: { extension: 'm4a', mimeType: 'audio/m4a', sttNative: true },
+  mp3: { extension: 'mp3', mimeType: 'audio/mpeg', sttNative: true },
+  wav: { extension: 'wav', mimeType: 'audio/wav', sttNative: true },
+  webm: { extension: 'webm', mimeType: 'audio/webm', sttNative: true },
+  ogg: { extension: 'ogg', mimeType: 'audio/ogg', sttNative: true },
+  oga: { extension: 'oga', mimeType: 'audio/ogg', sttNative: true },
+  flac: { extension: 'flac', mimeType: 'audio/flac', sttNative: true },
+  opus: { extension: 'opus', mimeType: 'audio/opus', sttNative: false },
+  aac: { extension: 'aac', mimeType: 'audio/aac', sttNative: false },
+};
+
+export interface VideoFormatInfo {
+  extension: string;
+  mimeType: string;
+}
+
+// Video containers whose audio track is extracted with FFmpeg before transcription
+export const VIDEO_FORMATS: Record<string, VideoFormatInfo> = {
+  mp4: { extension: 'mp4', mimeType: 'video/mp4' },
+  m4v: { extension: 'm4v', mimeType: 'video/mp4' },
+  mov: { extension: 'mov', mimeType: 'video/quicktime' },
+  mkv: { extension: 'mkv', mimeType: 'video/x-matroska' },
+};
+
+// Format used when an unsupported input has to be transcoded before upload
+export const TRANSCODE_TARGET_FORMAT = AUDIO_FORMATS.m4a;
+
+export function getFileExtension(fileName: string): string {
+  const dotIndex = fileName.lastIndexOf('.');
+  if (dotIndex === -1 || dotIndex === fileName.length - 1) {
+    return '';
+  }
+  return fileName.substring(dotIndex + 1).toLowerCase();
+}
+
+export function getAudioFormat(extension: string): AudioFormatInfo | undefined {
+  return AUDIO_FORMATS[extension.toLowerCase()];
+}
+
+export function isSupportedAudioExtension(extension: string): boolean {
+  return getAudioFormat(extension) !== undefined;
+}
+
+export function isSupportedVideoExtension(extension: string): boolean {
+  return VIDEO_FORMATS[extension.toLowerCase()] !== undefined;
+}
+
+export function isSupportedMediaExtension(extension: string): boolean {
+  return isSupportedAudioExtension(extension) || isSupportedVideoExtension(extension);
+}
+
+export function getAudioMimeType(fileName: string): string {
+  const format = getAudioFormat(getFileExtension(fileName));
+  return format ? format.mimeType : 'application/octet-stream';
+}
+
+export function needsTranscoding(fileName: string): boolean {
+  const format = getAudioFormat(getFileExtension(fileName));
+  return format ? !format.sttNative : false;
+}
+
+export function getSupportedAudioExtensions(): string[] {
+  return Object.keys(AUDIO_FORMATS);
+}
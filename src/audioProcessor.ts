@@ -1,14 +1,18 @@
 import { exec } from 'child_process';
 import { promisify } from 'util';
-import { writeFileSync, unlinkSync } from 'fs';
+import { readFileSync, writeFileSync, unlinkSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { v4 as uuidv4 } from 'uuid';
-import { AudioSpeedOption, ATTNSettings, VerboseTranscriptionResult, SegmentResult, SegmentOptions } from './types';
+import { AudioSpeedOption, ATTNSettings, ChunkProgressCallback, VerboseTranscriptionResult, SegmentResult, SegmentOptions } from './types';
 import { AudioSegmenter } from './audioSegmenter';
 import { Logger, LogContext } from './logger';
 import { ApiService } from './apiService';
 import { SpeakerDiarizationService } from './speakerDiarization';
+import { getFileExtension, needsTranscoding, TRANSCODE_TARGET_FORMAT } from './audioFormats';
+import { isAbortError, sleepWithSignal, throwIfAborted } from './cancellation';
+import { ProcessingCheckpoint } from './checkpointStore';
+import { TranscriptionCache } from './transcriptionCache';
 
 const execAsync = promisify(exec);
 
@@ -17,6 +21,8 @@ export class AudioProcessor {
   private ffmpegPath: string | null = null;
   private userFfmpegPath: string;
   private diarizationService?: SpeakerDiarizationService;
+  private transcriptionCache?: TranscriptionCache;
+  private chunkProgressCallback?: ChunkProgressCallback;
 
   constructor(userFfmpegPath: string = '') {
     // Use OS temp directory instead of process.cwd() to avoid permission issues in Obsidian
@@ -24,6 +30,20 @@ export class AudioProcessor {
     this.userFfmpegPath = userFfmpegPath;
   }
 
+  /**
+   * Segmentation results are kept in this cache so a re-run skips ffmpeg.
+   */
+  setTranscriptionCache(cache: TranscriptionCache): void {
+    this.transcriptionCache = cache;
+  }
+
+  /**
+   * Called for every chunk of transcribeWithChunking once its batch completes.
+   */
+  setChunkProgressCallback(callback: ChunkProgressCallback): void {
+    this.chunkProgressCallback = callback;
+  }
+
   private initializeDiarizationService(settings: ATTNSettings): void {
     // Skip diarization initialization unless explicitly enabled and configured
     if (!settings.processing.diarization?.enabled || this.diarizationService) {
@@ -48,7 +68,7 @@ export class AudioProcessor {
     }
   }
 
-  async processAudioSpeed(audioFile: File, speedMultiplier: AudioSpeedOption): Promise<File> {
+  async processAudioSpeed(audioFile: File, speedMultiplier: AudioSpeedOption, signal?: AbortSignal): Promise<File> {
     // If no speed change requested, return original file
     if (speedMultiplier === 1) {
       return audioFile;
@@ -93,17 +113,23 @@ export class AudioProcessor {
       }
       
       console.log(`Processing audio with ${speedMultiplier}x speed...`);
-      await execAsync(ffmpegCommand);
+      await execAsync(ffmpegCommand, { signal });
 
-      // Read processed audio back
+      // Read processed audio back (output is always AAC in an m4a container)
       const processedData = require('fs').readFileSync(outputPath);
-      const processedFile = new File([processedData], `processed_${audioFile.name}`, { 
+      const baseName = audioFile.name.includes('.') 
+        ? audioFile.name.substring(0, audioFile.name.lastIndexOf('.')) 
+        : audioFile.name;
+      const processedFile = new File([processedData], `processed_${baseName}.m4a`, { 
         type: 'audio/m4a' 
       });
 
       return processedFile;
 
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       throw new Error(`Audio processing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       // Clean up temp files
@@ -111,6 +137,55 @@ export class AudioProcessor {
     }
   }
 
+  async transcodeToSupportedFormat(audioFile: File, signal?: AbortSignal): Promise<File> {
+    // Formats the STT APIs accept natively are passed through untouched
+    if (!needsTranscoding(audioFile.name)) {
+      return audioFile;
+    }
+
+    if (!this.ffmpegPath) {
+      this.ffmpegPath = await this.getFFmpegPath();
+    }
+
+    if (!this.ffmpegPath) {
+      throw new Error(`FFmpeg is required to convert .${getFileExtension(audioFile.name)} audio files`);
+    }
+
+    const sourceExtension = getFileExtension(audioFile.name);
+    const targetExtension = TRANSCODE_TARGET_FORMAT.extension;
+    const inputPath = join(this.tempDir, `transcode_input_${Date.now()}.${sourceExtension}`);
+    const outputPath = join(this.tempDir, `transcode_output_${Date.now()}.${targetExtension}`);
+
+    try {
+      await this.ensureTempDir();
+
+      const audioData = await audioFile.arrayBuffer();
+      writeFileSync(inputPath, new Uint8Array(audioData));
+
+      // Drop any video/cover-art streams and re-encode audio to AAC
+      const ffmpegCommand = `"${this.ffmpegPath}" -i "${inputPath}" -vn -c:a aac -b:a 128k -y "${outputPath}"`;
+
+      console.log(`Transcoding .${sourceExtension} audio to .${targetExtension}...`);
+      await execAsync(ffmpegCommand, { signal });
+
+      const transcodedData = readFileSync(outputPath);
+      const baseName = audioFile.name.includes('.') 
+        ? audioFile.name.substring(0, audioFile.name.lastIndexOf('.')) 
+        : audioFile.name;
+      return new File([transcodedData], `${baseName}.${targetExtension}`, {
+        type: TRANSCODE_TARGET_FORMAT.mimeType
+      });
+
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      throw new Error(`Audio transcoding failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      this.cleanupTempFiles([inputPath, outputPath]);
+    }
+  }
+
   private async ensureTempDir(): Promise<void> {
     try {
       const fs = require('fs');
@@ -243,10 +318,19 @@ export class AudioProcessor {
     throw new Error('Retry logic error - should not reach here');
   }
 
-  async transcribeWithChunking(audioFile: File, settings: ATTNSettings): Promise<VerboseTranscriptionResult> {
+  /**
+   * Split, transcribe and merge a long recording. With a checkpoint, every transcribed
+   * chunk is saved as it completes and chunks saved by an earlier attempt are reused.
+   */
+  async transcribeWithChunking(
+    audioFile: File,
+    settings: ATTNSettings,
+    signal?: AbortSignal,
+    checkpoint?: ProcessingCheckpoint
+  ): Promise<VerboseTranscriptionResult> {
     const requestId = uuidv4();
     const logger = Logger.createLogger(settings.logging);
-    const segmenter = new AudioSegmenter(this.userFfmpegPath);
+    const segmenter = new AudioSegmenter(this.userFfmpegPath, this.transcriptionCache);
     
     // Initialize diarization service if needed
     this.initializeDiarizationService(settings);
@@ -281,7 +365,7 @@ export class AudioProcessor {
         audioCodec: segmentOptions.audioCodec
       });
       
-      const segments = await segmenter.segmentAudio(audioFile, segmentOptions);
+      const segments = await segmenter.segmentAudio(audioFile, segmentOptions, signal);
       
       console.log('🔍 SEGMENTATION: segmentAudio returned:', {
         segmentCount: segments.length,
@@ -297,6 +381,24 @@ export class AudioProcessor {
       
       // Validate segments have consistent timeline
       this.validateSegmentTimeline(segments);
+
+      if (checkpoint) {
+        // Saved chunks only line up if the split points and STT settings are unchanged
+        const restoredChunks = checkpoint.useTranscription(JSON.stringify({
+          provider: settings.stt.provider,
+          model: settings.stt.model,
+          language: settings.stt.language || '',
+          boundaries: segments.map(segment => [segment.startSec, segment.endSec])
+        }));
+        if (restoredChunks > 0) {
+          console.log(`♻️ Resuming from checkpoint: ${restoredChunks}/${segments.length} chunks already transcribed`);
+          await logger.log('info', {
+            ...logContext,
+            message: `Resuming from checkpoint with ${restoredChunks}/${segments.length} chunks already transcribed`,
+            restoredChunks
+          });
+        }
+      }
       
       await logger.log('info', {
         ...logContext,
@@ -314,7 +416,7 @@ export class AudioProcessor {
       // Process segments with batch parallel processing
       console.log(`🔍 About to process ${segments.length} segments with batch processing`);
       const chunkResults: VerboseTranscriptionResult[] = await this.processSegmentsBatch(
-        segments, audioFile, settings, logContext, logger
+        segments, audioFile, settings, logContext, logger, signal, checkpoint
       );
       
       console.log(`🔍 Batch processing completed. Got ${chunkResults.length} results`);
@@ -328,7 +430,7 @@ export class AudioProcessor {
       // Apply speaker diarization to the complete merged result if enabled
       if (this.diarizationService) {
         try {
-          mergedResult = await this.diarizationService.enhanceTranscriptionWithSpeakers(mergedResult, audioFile);
+          mergedResult = await this.diarizationService.enhanceTranscriptionWithSpeakers(mergedResult, audioFile, signal);
           
           await logger.log('info', {
             ...logContext,
@@ -336,6 +438,9 @@ export class AudioProcessor {
             speakerCount: mergedResult.speakers?.length || 0
           });
         } catch (error) {
+          if (isAbortError(error)) {
+            throw error;
+          }
           console.warn('🎤 Speaker diarization failed, continuing without it:', error);
           await logger.log('warn', {
             ...logContext,
@@ -355,6 +460,10 @@ export class AudioProcessor {
       return mergedResult;
       
     } catch (error) {
+      if (isAbortError(error)) {
+        // A cancelled job is not an error worth logging
+        throw error;
+      }
       await logger.logError({
         ...logContext
       }, error);
@@ -362,6 +471,22 @@ export class AudioProcessor {
     }
   }
 
+  /**
+   * Transcribe one standalone segment of a recording that is still in progress. Segments
+   * are merged onto the recording's timeline with `mergeVerboseResults`.
+   */
+  async transcribeLiveChunk(chunkFile: File, settings: ATTNSettings, signal?: AbortSignal): Promise<VerboseTranscriptionResult> {
+    const logger = Logger.createLogger(settings.logging);
+    const logContext: LogContext = {
+      requestId: uuidv4(),
+      provider: settings.stt.provider,
+      model: settings.stt.model,
+      filePath: chunkFile.name,
+      sizeBytes: chunkFile.size
+    };
+    return this.transcribeChunkWithRetry(chunkFile, settings, logContext, logger, signal);
+  }
+
   mergeVerboseResults(chunkResults: VerboseTranscriptionResult[], segments: SegmentResult[]): VerboseTranscriptionResult {
     // Filter out empty results and log them
     const validResults = chunkResults.filter((result, index) => {
@@ -500,7 +625,8 @@ export class AudioProcessor {
     chunkFile: File, 
     settings: ATTNSettings,
     logContext: LogContext, 
-    logger: Logger
+    logger: Logger,
+    signal?: AbortSignal
   ): Promise<VerboseTranscriptionResult> {
     const maxRetries = 2;
     
@@ -513,7 +639,9 @@ export class AudioProcessor {
         const config = ConfigLoader.getInstance();
         const effectiveSttSettings = {
           ...settings.stt,
-          apiKey: settings.stt.apiKey || settings.openaiApiKey || config.getOpenAIApiKey() || '',
+          apiKey: settings.stt.provider === 'openai-compatible'
+            ? settings.stt.compatibleApiKey || ''
+            : settings.stt.apiKey || settings.openaiApiKey || config.getOpenAIApiKey() || '',
           language: settings.stt.language || config.getOpenAISettings()?.language || 'ko'
         };
 
@@ -523,7 +651,8 @@ export class AudioProcessor {
         return await sttProvider.transcribe(audioBuffer, {
           format: 'verbose_json',
           language: effectiveSttSettings.language,
-          model: effectiveSttSettings.model
+          model: effectiveSttSettings.model,
+          signal
         });
       } catch (error) {
         const errorStatus = (error as any).status || (error as any).response?.status;
@@ -539,7 +668,7 @@ export class AudioProcessor {
             errorCode
           });
           
-          await this.sleep(delayMs);
+          await this.sleep(delayMs, signal);
           continue;
         }
         
@@ -567,8 +696,8 @@ export class AudioProcessor {
     return false;
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return sleepWithSignal(ms, signal);
   }
 
   private async processSegmentsBatch(
@@ -576,7 +705,9 @@ export class AudioProcessor {
     audioFile: File,
     settings: ATTNSettings, 
     logContext: LogContext, 
-    logger: Logger
+    logger: Logger,
+    signal?: AbortSignal,
+    checkpoint?: ProcessingCheckpoint
   ): Promise<VerboseTranscriptionResult[]> {
     const batchSize = this.getBatchSize(segments.length);
     const results: VerboseTranscriptionResult[] = [];
@@ -590,6 +721,7 @@ export class AudioProcessor {
 
     // Process segments in batches
     for (let batchIndex = 0; batchIndex < segments.length; batchIndex += batchSize) {
+      throwIfAborted(signal);
       const batch = segments.slice(batchIndex, batchIndex + batchSize);
       const batchNumber = Math.floor(batchIndex / batchSize) + 1;
       const totalBatches = Math.ceil(segments.length / batchSize);
@@ -612,12 +744,17 @@ export class AudioProcessor {
           sizeBytes: segment.sizeBytes
         };
 
+        const saved = checkpoint?.getChunk(globalIndex);
+        if (saved) {
+          return { success: true as const, result: saved, index: globalIndex };
+        }
+
         try {
           // Convert segment to File object for API
           const chunkFile = await this.segmentToFile(segment, `${audioFile.name}_chunk_${globalIndex}`);
           
           // Transcribe chunk with retry logic
-          const result = await this.transcribeChunkWithRetry(chunkFile, settings, chunkLogContext, logger);
+          const result = await this.transcribeChunkWithRetry(chunkFile, settings, chunkLogContext, logger, signal);
           
           // Validate transcription result
           if (!result.text || result.text.trim() === '') {
@@ -655,10 +792,13 @@ export class AudioProcessor {
             ...chunkLogContext,
             message: `Successfully transcribed chunk ${globalIndex + 1}/${segments.length} (${result.text.length} chars)`
           });
+          checkpoint?.saveChunk(globalIndex, result);
           
           return { success: true as const, result, index: globalIndex };
         } catch (error) {
-          await logger.logError(chunkLogContext, error);
+          if (!isAbortError(error)) {
+            await logger.logError(chunkLogContext, error);
+          }
           return { 
             success: false as const, 
             error: error as Error, 
@@ -670,6 +810,8 @@ export class AudioProcessor {
 
       // Wait for batch completion
       const batchResults = await Promise.allSettled(batchPromises);
+      // Aborted chunks come back as failures; don't retry them
+      throwIfAborted(signal);
       
       // Process results and handle failures
       const successfulResults: Array<{ result: VerboseTranscriptionResult, index: number }> = [];
@@ -708,17 +850,19 @@ export class AudioProcessor {
         // Retry failed segments sequentially with delay
         for (const failed of failedResults) {
           try {
-            await this.sleep(1000); // 1 second delay between retries
+            await this.sleep(1000, signal); // 1 second delay between retries
             
             const chunkFile = await this.segmentToFile(failed.segment, `${audioFile.name}_chunk_${failed.index}_retry`);
             const retryResult = await this.transcribeChunkWithRetry(
               chunkFile, 
               settings, 
               { ...logContext, chunkIndex: failed.index }, 
-              logger
+              logger,
+              signal
             );
             
             successfulResults.push({ result: retryResult, index: failed.index });
+            checkpoint?.saveChunk(failed.index, retryResult);
             
             const retrySuccessContext = {
               ...logContext,
@@ -726,6 +870,9 @@ export class AudioProcessor {
             };
             await logger.log('info', retrySuccessContext);
           } catch (retryError) {
+            if (isAbortError(retryError)) {
+              throw retryError;
+            }
             const failureContext = {
               ...logContext,
               chunkIndex: failed.index
@@ -739,7 +886,16 @@ export class AudioProcessor {
 
       // Sort results by index to maintain order
       successfulResults.sort((a, b) => a.index - b.index);
-      results.push(...successfulResults.map(item => item.result));
+      for (const item of successfulResults) {
+        results.push(item.result);
+        this.chunkProgressCallback?.({
+          chunkIndex: item.index,
+          completedChunks: results.length,
+          totalChunks: segments.length,
+          transcription: item.result.text,
+          timestamp: { start: segments[item.index].startSec, end: segments[item.index].endSec }
+        });
+      }
       
       await logger.log('info', {
         ...logContext,
@@ -755,7 +911,7 @@ export class AudioProcessor {
           ...logContext,
           message: `Rate limiting delay: ${delayMs}ms before next batch`
         });
-        await this.sleep(delayMs);
+        await this.sleep(delayMs, signal);
       }
     }
 
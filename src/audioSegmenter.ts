@@ -1,4 +1,7 @@
 import { SegmentOptions, SegmentResult } from './types';
+import { isAbortError, throwIfAborted } from './cancellation';
+import { CheckpointStore } from './checkpointStore';
+import { TranscriptionCache } from './transcriptionCache';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import { writeFileSync, unlinkSync, readFileSync, statSync, existsSync, mkdirSync } from 'fs';
@@ -27,6 +30,7 @@ export class AudioSegmenter {
   private ffmpegPath: string | null = null;
   private userFfmpegPath?: string;
   private segmentCache: Map<string, SegmentResult[]> = new Map();
+  private persistentCache?: TranscriptionCache;
   private performanceMetrics: {
     totalProcessingTime: number;
     segmentationTime: number;
@@ -39,9 +43,10 @@ export class AudioSegmenter {
     cacheHitRate: 0
   };
 
-  constructor(userFfmpegPath?: string) {
+  constructor(userFfmpegPath?: string, persistentCache?: TranscriptionCache) {
     this.tempDir = join(tmpdir(), 'attn-audio-segmenter');
     this.userFfmpegPath = userFfmpegPath;
+    this.persistentCache = persistentCache;
     this.ensureTempDir();
   }
 
@@ -54,7 +59,7 @@ export class AudioSegmenter {
     console.log('Audio segmentation cache cleared');
   }
 
-  async segmentAudio(input: File | Buffer | string, options: SegmentOptions): Promise<SegmentResult[]> {
+  async segmentAudio(input: File | Buffer | string, options: SegmentOptions, signal?: AbortSignal): Promise<SegmentResult[]> {
     const startTime = Date.now();
     
     // Generate cache key for this input
@@ -66,6 +71,15 @@ export class AudioSegmenter {
       this.performanceMetrics.cacheHitRate = (this.performanceMetrics.cacheHitRate + 1) / 2; // Simple rolling average
       return this.segmentCache.get(cacheKey)!;
     }
+
+    if (this.persistentCache) {
+      const cached = await this.persistentCache.getSegments(cacheKey);
+      if (cached) {
+        console.log('Cache hit: Using segmentation result from the plugin cache');
+        this.segmentCache.set(cacheKey, cached);
+        return cached;
+      }
+    }
     
     const maxSizeMB = options.maxUploadSizeMB || 24.5;
     const maxSizeBytes = maxSizeMB * 1024 * 1024;
@@ -93,19 +107,19 @@ export class AudioSegmenter {
       tempFiles.push(inputPath);
     }
 
-    // Preprocess audio if enabled
-    if (enablePreprocessing) {
-      const preprocessedPath = await this.preprocessAudio(inputPath, options);
-      if (preprocessedPath !== inputPath) {
-        tempFiles.push(preprocessedPath);
-        inputPath = preprocessedPath;
-        console.log('Audio preprocessing completed');
+    try {
+      // Preprocess audio if enabled
+      if (enablePreprocessing) {
+        const preprocessedPath = await this.preprocessAudio(inputPath, options, signal);
+        if (preprocessedPath !== inputPath) {
+          tempFiles.push(preprocessedPath);
+          inputPath = preprocessedPath;
+          console.log('Audio preprocessing completed');
+        }
       }
-    }
 
-    try {
       // Get audio metadata
-      const metadata = await this.getAudioMetadata(inputPath);
+      const metadata = await this.getAudioMetadata(inputPath, signal);
       console.log(`Audio metadata: ${metadata.duration}s, ${metadata.sampleRate}Hz, ${metadata.channels}ch`);
 
       // Check if segmentation is needed
@@ -122,7 +136,7 @@ export class AudioSegmenter {
 
       // Detect silence intervals with timing
       const silenceStartTime = Date.now();
-      const silenceIntervals = await this.detectSilence(inputPath, silenceThresholdDb, minSilenceMs / 1000);
+      const silenceIntervals = await this.detectSilence(inputPath, silenceThresholdDb, minSilenceMs / 1000, signal);
       this.performanceMetrics.silenceDetectionTime = Date.now() - silenceStartTime;
       
       console.log(`Detected ${silenceIntervals.length} silence intervals in ${this.performanceMetrics.silenceDetectionTime}ms`);
@@ -148,7 +162,8 @@ export class AudioSegmenter {
         inputPath,
         splitPoints,
         metadata.duration,
-        options.preserveIntermediates || false
+        options.preserveIntermediates || false,
+        signal
       );
 
       // Track temp files for cleanup
@@ -159,6 +174,9 @@ export class AudioSegmenter {
       // Cache the result for future use
       this.segmentCache.set(cacheKey, segments);
       console.log(`Segmentation result cached with key: ${cacheKey.substring(0, 8)}...`);
+      if (this.persistentCache) {
+        await this.persistentCache.setSegments(cacheKey, segments);
+      }
       
       // Update performance metrics
       this.performanceMetrics.totalProcessingTime = Date.now() - startTime;
@@ -176,6 +194,33 @@ export class AudioSegmenter {
     }
   }
 
+  async extractAudioTrack(input: File | Buffer | string, options: SegmentOptions = {}, sourceExtension: string = 'mp4', signal?: AbortSignal): Promise<Buffer> {
+    if (!this.ffmpegPath) {
+      this.ffmpegPath = await this.getFFmpegPath();
+      if (!this.ffmpegPath) {
+        throw new Error('FFmpeg is required to extract audio from video files');
+      }
+    }
+
+    const inputPath = await this.prepareInputFile(input, sourceExtension);
+    const tempFiles: string[] = typeof input !== 'string' ? [inputPath] : [];
+
+    try {
+      // preprocessAudio drops the video stream and re-encodes the audio track to m4a
+      const audioPath = await this.preprocessAudio(inputPath, options, signal);
+      if (audioPath === inputPath) {
+        throw new Error('No audio track could be extracted from the video file');
+      }
+      tempFiles.push(audioPath);
+
+      const buffer = readFileSync(audioPath);
+      console.log(`Extracted audio track: ${(buffer.length / 1024 / 1024).toFixed(2)}MB`);
+      return buffer;
+    } finally {
+      this.cleanupTempFiles(tempFiles);
+    }
+  }
+
   private async generateCacheKey(input: File | Buffer | string, options: SegmentOptions): Promise<string> {
     // Create a hash of input and options for cache key
     const crypto = require('crypto');
@@ -186,12 +231,11 @@ export class AudioSegmenter {
       const fs = require('fs');
       const stats = fs.statSync(input);
       inputIdentifier = `${input}:${stats.size}:${stats.mtime.getTime()}`;
-    } else if (input instanceof File) {
-      // For File objects, use name + size + last modified
-      inputIdentifier = `${input.name}:${input.size}:${input.lastModified}`;
+    } else if (Buffer.isBuffer(input)) {
+      inputIdentifier = CheckpointStore.hashContent(input);
     } else {
-      // For Buffer, use content hash
-      inputIdentifier = crypto.createHash('md5').update(input).digest('hex');
+      // Hash File content too: renamed or re-saved recordings should still hit the cache
+      inputIdentifier = CheckpointStore.hashContent(await input.arrayBuffer());
     }
     
     const optionsString = JSON.stringify({
@@ -237,7 +281,7 @@ export class AudioSegmenter {
     return null;
   }
 
-  private async preprocessAudio(inputPath: string, options: SegmentOptions): Promise<string> {
+  private async preprocessAudio(inputPath: string, options: SegmentOptions, signal?: AbortSignal): Promise<string> {
     const targetSampleRate = options.targetSampleRateHz || 16000;
     const targetChannels = options.targetChannels || 1;
     const audioCodec = options.audioCodec || 'aac';
@@ -262,19 +306,24 @@ export class AudioSegmenter {
 
     const filterComplex = filters.join(',');
 
-    const command = `"${this.ffmpegPath}" -i "${inputPath}" -af "${filterComplex}" -c:a ${audioCodec} -b:a ${audioBitrate} -y "${outputPath}"`;
+    const command = `"${this.ffmpegPath}" -i "${inputPath}" -vn -af "${filterComplex}" -c:a ${audioCodec} -b:a ${audioBitrate} -y "${outputPath}"`;
 
     try {
-      await execAsync(command);
+      await execAsync(command, { signal });
       console.log(`Audio preprocessed: ${targetSampleRate}Hz, ${targetChannels}ch, ${audioCodec}@${audioBitrate}`);
       return outputPath;
     } catch (error) {
+      if (isAbortError(error)) {
+        // ffmpeg was killed mid-write; drop the partial output
+        this.cleanupTempFiles([outputPath]);
+        throw error;
+      }
       console.warn('Audio preprocessing failed, using original:', error);
       return inputPath;
     }
   }
 
-  private async prepareInputFile(input: File | Buffer | string): Promise<string> {
+  private async prepareInputFile(input: File | Buffer | string, extension: string = 'm4a'): Promise<string> {
     if (typeof input === 'string') {
       // Already a file path
       return input;
@@ -282,7 +331,7 @@ export class AudioSegmenter {
 
     // Convert File or Buffer to temporary file
     const timestamp = Date.now();
-    const inputPath = join(this.tempDir, `input_${timestamp}.m4a`);
+    const inputPath = join(this.tempDir, `input_${timestamp}.${extension}`);
 
     if (input instanceof File) {
       const arrayBuffer = await input.arrayBuffer();
@@ -294,9 +343,10 @@ export class AudioSegmenter {
     return inputPath;
   }
 
-  private async getAudioMetadata(inputPath: string): Promise<AudioMetadata> {
+  private async getAudioMetadata(inputPath: string, signal?: AbortSignal): Promise<AudioMetadata> {
     const command = `"${this.ffmpegPath}" -i "${inputPath}" -f null - 2>&1`;
-    const { stderr } = await execAsync(command).catch(result => result);
+    const { stderr } = await execAsync(command, { signal }).catch(result => result);
+    throwIfAborted(signal);
 
     // Parse duration
     const durationMatch = stderr.match(/Duration: (\d+):(\d+):(\d+\.\d+)/);
@@ -323,18 +373,18 @@ export class AudioSegmenter {
     };
   }
 
-  private async detectSilence(inputPath: string, thresholdDb: number, minDurationSec: number): Promise<SilenceInterval[]> {
+  private async detectSilence(inputPath: string, thresholdDb: number, minDurationSec: number, signal?: AbortSignal): Promise<SilenceInterval[]> {
     // Enhanced silence detection with adaptive thresholding
     try {
       // First pass: Standard silence detection
-      const primaryIntervals = await this.detectSilencePass(inputPath, thresholdDb, minDurationSec);
+      const primaryIntervals = await this.detectSilencePass(inputPath, thresholdDb, minDurationSec, signal);
       
       // If we don't find enough silence intervals for long audio, try with relaxed threshold
       if (primaryIntervals.length < 5 && thresholdDb < -25) {
         const relaxedThreshold = Math.max(-40, thresholdDb - 5);
         console.log(`Insufficient silence intervals found (${primaryIntervals.length}), trying relaxed threshold: ${relaxedThreshold}dB`);
         
-        const secondaryIntervals = await this.detectSilencePass(inputPath, relaxedThreshold, minDurationSec * 0.7);
+        const secondaryIntervals = await this.detectSilencePass(inputPath, relaxedThreshold, minDurationSec * 0.7, signal);
         
         // Merge and deduplicate intervals
         const allIntervals = [...primaryIntervals, ...secondaryIntervals];
@@ -344,16 +394,20 @@ export class AudioSegmenter {
       return primaryIntervals;
       
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.warn('Silence detection failed, using fallback method:', error);
       // Fallback: Create artificial silence intervals based on audio duration
-      return this.generateFallbackSilenceIntervals(inputPath);
+      return this.generateFallbackSilenceIntervals(inputPath, signal);
     }
   }
 
-  private async detectSilencePass(inputPath: string, thresholdDb: number, minDurationSec: number): Promise<SilenceInterval[]> {
+  private async detectSilencePass(inputPath: string, thresholdDb: number, minDurationSec: number, signal?: AbortSignal): Promise<SilenceInterval[]> {
     const command = `"${this.ffmpegPath}" -i "${inputPath}" -af "silencedetect=noise=${thresholdDb}dB:duration=${minDurationSec}" -f null - 2>&1`;
     
-    const { stderr } = await execAsync(command).catch(result => result);
+    const { stderr } = await execAsync(command, { signal }).catch(result => result);
+    throwIfAborted(signal);
 
     const silenceIntervals: SilenceInterval[] = [];
     const lines = stderr.split('\n');
@@ -404,9 +458,9 @@ export class AudioSegmenter {
     return merged;
   }
 
-  private async generateFallbackSilenceIntervals(inputPath: string): Promise<SilenceInterval[]> {
+  private async generateFallbackSilenceIntervals(inputPath: string, signal?: AbortSignal): Promise<SilenceInterval[]> {
     // Get audio metadata for duration
-    const metadata = await this.getAudioMetadata(inputPath);
+    const metadata = await this.getAudioMetadata(inputPath, signal);
     const totalDuration = metadata.duration;
     
     // Create artificial silence intervals every 180 seconds (3 minutes)
@@ -499,45 +553,54 @@ export class AudioSegmenter {
     inputPath: string,
     splitPoints: number[],
     totalDuration: number,
-    preserveIntermediates: boolean
+    preserveIntermediates: boolean,
+    signal?: AbortSignal
   ): Promise<SegmentResult[]> {
     const segments: SegmentResult[] = [];
+    const segmentPaths: string[] = [];
     const allPoints = [0, ...splitPoints, totalDuration];
 
-    for (let i = 0; i < allPoints.length - 1; i++) {
-      const startSec = allPoints[i];
-      const endSec = allPoints[i + 1];
-      const duration = endSec - startSec;
-
-      if (duration < 0.1) continue; // Skip very short segments
-
-      const timestamp = Date.now();
-      const segmentPath = join(this.tempDir, `segment_${i}_${timestamp}.m4a`);
-
-      // Extract segment using FFmpeg
-      const command = `"${this.ffmpegPath}" -i "${inputPath}" -ss ${startSec} -t ${duration} -c copy -avoid_negative_ts make_zero "${segmentPath}"`;
-      await execAsync(command);
-
-      const sizeBytes = this.getFileSize(segmentPath);
-
-      if (preserveIntermediates) {
-        // Return file path for preserved files
-        segments.push({
-          bufferOrPath: segmentPath,
-          startSec,
-          endSec,
-          sizeBytes
-        });
-      } else {
-        // Read into buffer for temporary files
-        const buffer = readFileSync(segmentPath);
-        segments.push({
-          bufferOrPath: buffer,
-          startSec,
-          endSec,
-          sizeBytes
-        });
+    try {
+      for (let i = 0; i < allPoints.length - 1; i++) {
+        const startSec = allPoints[i];
+        const endSec = allPoints[i + 1];
+        const duration = endSec - startSec;
+
+        if (duration < 0.1) continue; // Skip very short segments
+
+        const timestamp = Date.now();
+        const segmentPath = join(this.tempDir, `segment_${i}_${timestamp}.m4a`);
+        segmentPaths.push(segmentPath);
+
+        // Extract segment using FFmpeg
+        const command = `"${this.ffmpegPath}" -i "${inputPath}" -ss ${startSec} -t ${duration} -c copy -avoid_negative_ts make_zero "${segmentPath}"`;
+        await execAsync(command, { signal });
+
+        const sizeBytes = this.getFileSize(segmentPath);
+
+        if (preserveIntermediates) {
+          // Return file path for preserved files
+          segments.push({
+            bufferOrPath: segmentPath,
+            startSec,
+            endSec,
+            sizeBytes
+          });
+        } else {
+          // Read into buffer for temporary files
+          const buffer = readFileSync(segmentPath);
+          segments.push({
+            bufferOrPath: buffer,
+            startSec,
+            endSec,
+            sizeBytes
+          });
+        }
       }
+    } catch (error) {
+      // Don't leave half-written segments behind when ffmpeg fails or is cancelled
+      this.cleanupTempFiles(segmentPaths);
+      throw error;
     }
 
     return segments;
@@ -0,0 +1,116 @@
+import { App, Modal } from 'obsidian';
+import { BatchEstimate, BatchReport } from './batchProcessor';
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}시간 ${minutes % 60}분` : `${minutes}분`;
+}
+
+/**
+ * Asks before a whole folder of recordings is sent to the providers.
+ */
+export class BatchConfirmModal extends Modal {
+  private folderPath: string;
+  private estimate: BatchEstimate;
+  private concurrency: number;
+  private onConfirm: () => void;
+
+  constructor(app: App, folderPath: string, estimate: BatchEstimate, concurrency: number, onConfirm: () => void) {
+    super(app);
+    this.folderPath = folderPath;
+    this.estimate = estimate;
+    this.concurrency = concurrency;
+    this.onConfirm = onConfirm;
+  }
+
+  onOpen(): void {
+    const { contentEl, estimate } = this;
+    this.titleEl.setText('ATTN: 폴더의 모든 녹음 처리하기');
+    contentEl.empty();
+
+    contentEl.createEl('p', { text: `${this.folderPath} 폴더에서 회의록이 없는 녹음 ${estimate.fileCount}개를 찾았습니다.` });
+    const list = contentEl.createEl('ul');
+    list.createEl('li', { text: `전체 크기: ${(estimate.totalBytes / 1024 / 1024).toFixed(1)}MB` });
+    list.createEl('li', { text: `예상 음성 길이: 약 ${formatDuration(estimate.durationSec)}` });
+    list.createEl('li', {
+      text: estimate.sttCostUsd === null
+        ? '예상 음성 인식 비용: 알 수 없음 (요금표가 없는 제공자)'
+        : `예상 음성 인식 비용: 약 $${estimate.sttCostUsd.toFixed(2)} (요약 비용 제외)`
+    });
+    list.createEl('li', { text: `동시 처리: ${this.concurrency}개씩` });
+
+    const actions = contentEl.createDiv({ cls: 'attn-batch-actions' });
+    const confirmButton = actions.createEl('button', { text: '처리 시작', cls: 'mod-cta' });
+    confirmButton.addEventListener('click', () => {
+      this.close();
+      this.onConfirm();
+    });
+    actions.createEl('button', { text: '취소' }).addEventListener('click', () => this.close());
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
+
+/**
+ * Summary of a finished folder batch with links to the created notes.
+ */
+export class BatchReportModal extends Modal {
+  private report: BatchReport;
+
+  constructor(app: App, report: BatchReport) {
+    super(app);
+    this.report = report;
+  }
+
+  onOpen(): void {
+    const { contentEl, report } = this;
+    this.titleEl.setText('ATTN 일괄 처리 결과');
+    contentEl.empty();
+
+    contentEl.createEl('p', {
+      text: `성공 ${report.succeeded.length}개 · 실패 ${report.failed.length}개` +
+        (report.cancelled.length > 0 ? ` · 취소 ${report.cancelled.length}개` : '')
+    });
+
+    if (report.succeeded.length > 0) {
+      contentEl.createEl('h4', { text: '✅ 생성된 회의록' });
+      const list = contentEl.createEl('ul');
+      for (const item of report.succeeded) {
+        const entry = list.createEl('li');
+        if (item.notePath) {
+          const link = entry.createEl('a', { text: item.notePath, href: '#' });
+          link.addEventListener('click', (event) => {
+            event.preventDefault();
+            this.app.workspace.openLinkText(item.notePath!, '');
+            this.close();
+          });
+        } else {
+          entry.setText(item.filePath);
+        }
+      }
+    }
+
+    if (report.failed.length > 0) {
+      contentEl.createEl('h4', { text: '❌ 실패한 녹음' });
+      const list = contentEl.createEl('ul');
+      for (const item of report.failed) {
+        list.createEl('li', { text: `${item.filePath}: ${item.error}` });
+      }
+      contentEl.createEl('p', { text: '실패한 작업은 처리 대기열에서 다시 시도할 수 있습니다.' });
+    }
+
+    if (report.cancelled.length > 0) {
+      contentEl.createEl('h4', { text: '⏹️ 취소된 녹음' });
+      const list = contentEl.createEl('ul');
+      for (const filePath of report.cancelled) {
+        list.createEl('li', { text: filePath });
+      }
+    }
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,121 @@
+import { v4 as uuidv4 } from 'uuid';
+import { JobState, ProcessingJob, SttSettings } from './types';
+import { JobQueue } from './jobQueue';
+
+const FINISHED_STATES: JobState[] = ['done', 'failed', 'cancelled'];
+
+// USD per audio minute; providers missing here have no known or fixed price
+const STT_PRICE_PER_MINUTE: Record<string, number> = {
+  'whisper-1': 0.006,
+  'gpt-4o-transcribe': 0.006,
+  'gpt-4o-mini-transcribe': 0.003
+};
+
+export interface BatchEstimate {
+  fileCount: number;
+  totalBytes: number;
+  durationSec: number;
+  sttCostUsd: number | null; // null when the provider's price is unknown
+}
+
+export interface BatchReport {
+  succeeded: Array<{ filePath: string; notePath?: string }>;
+  failed: Array<{ filePath: string; error: string }>;
+  cancelled: string[];
+}
+
+/**
+ * Rough size-based estimate shown before a folder is processed.
+ */
+export function estimateBatch(sizesBytes: number[], stt: SttSettings): BatchEstimate {
+  const totalBytes = sizesBytes.reduce((sum, size) => sum + size, 0);
+  // Same rule of thumb the pipeline uses: ~1MB per minute of compressed audio
+  const durationSec = (totalBytes / (1024 * 1024)) * 60;
+
+  let sttCostUsd: number | null = null;
+  if (stt.provider === 'local-whisper') {
+    sttCostUsd = 0;
+  } else if (stt.provider === 'openai' && STT_PRICE_PER_MINUTE[stt.model] !== undefined) {
+    sttCostUsd = (durationSec / 60) * STT_PRICE_PER_MINUTE[stt.model];
+  }
+
+  return { fileCount: sizesBytes.length, totalBytes, durationSec, sttCostUsd };
+}
+
+interface TrackedBatch {
+  jobFiles: Map<string, string>; // Job id -> file path
+  outcomes: Map<string, ProcessingJob>; // Job id -> the job as it was when it finished
+  onComplete: (report: BatchReport) => void;
+}
+
+/**
+ * Follows the jobs of folder batches and reports each batch once all of its jobs have
+ * finished. Outcomes are recorded as each job finishes, because the queue drops old and
+ * cleared jobs before the rest of the batch may be done.
+ */
+export class BatchTracker {
+  private queue: JobQueue;
+  private batches = new Map<string, TrackedBatch>();
+  private unsubscribe: () => void;
+
+  constructor(queue: JobQueue) {
+    this.queue = queue;
+    this.unsubscribe = queue.subscribe(() => this.check());
+  }
+
+  /**
+   * Queue the files as one batch and return how many jobs were created. Files that are
+   * already waiting or running keep their existing job and are left out of the report.
+   */
+  enqueueBatch(filePaths: string[], onComplete: (report: BatchReport) => void): number {
+    const batchId = uuidv4();
+    const jobFiles = new Map<string, string>();
+    for (const filePath of filePaths) {
+      const job = this.queue.enqueue(filePath, { automatic: true, batchId });
+      if (job.options?.batchId === batchId) {
+        jobFiles.set(job.id, filePath);
+      }
+    }
+
+    if (jobFiles.size > 0) {
+      this.batches.set(batchId, { jobFiles, outcomes: new Map(), onComplete });
+    }
+    return jobFiles.size;
+  }
+
+  destroy(): void {
+    this.unsubscribe();
+    this.batches.clear();
+  }
+
+  private check(): void {
+    for (const [batchId, batch] of [...this.batches]) {
+      for (const [id, filePath] of batch.jobFiles) {
+        const job = this.queue.getJob(id);
+        if (job && FINISHED_STATES.includes(job.state)) {
+          batch.outcomes.set(id, job);
+        } else if (job) {
+          // Still waiting or running, possibly again after a retry
+          batch.outcomes.delete(id);
+        } else if (!batch.outcomes.has(id)) {
+          // Removed from the queue before it ran
+          batch.outcomes.set(id, { id, filePath, state: 'cancelled', progress: 0, attempts: 0, createdAt: 0, updatedAt: 0 });
+        }
+      }
+
+      if (batch.outcomes.size < batch.jobFiles.size) {
+        continue;
+      }
+      this.batches.delete(batchId);
+      batch.onComplete(this.createReport([...batch.jobFiles.keys()].map(id => batch.outcomes.get(id)!)));
+    }
+  }
+
+  private createReport(jobs: ProcessingJob[]): BatchReport {
+    return {
+      succeeded: jobs.filter(job => job.state === 'done').map(job => ({ filePath: job.filePath, notePath: job.notePath })),
+      failed: jobs.filter(job => job.state === 'failed').map(job => ({ filePath: job.filePath, error: job.error || '' })),
+      cancelled: jobs.filter(job => job.state === 'cancelled').map(job => job.filePath)
+    };
+  }
+}
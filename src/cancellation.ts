@@ -0,0 +1,45 @@
+// Helpers for threading an AbortSignal through the processing pipeline
+
+export const CANCELLED_MESSAGE = '작업이 취소되었습니다.';
+
+export function createAbortError(): Error {
+  const error = new Error(CANCELLED_MESSAGE);
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * True for our own cancellation errors as well as aborted fetches and killed child processes.
+ */
+export function isAbortError(error: unknown): boolean {
+  const { name, code } = (error ?? {}) as { name?: unknown; code?: unknown };
+  return name === 'AbortError' || code === 'ABORT_ERR';
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
+
+/**
+ * setTimeout-based delay that rejects as soon as the signal is aborted.
+ */
+export function sleepWithSignal(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
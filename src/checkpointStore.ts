@@ -0,0 +1,168 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { VerboseTranscriptionResult } from './types';
+
+const CHECKPOINT_VERSION = 1;
+const MAX_CHECKPOINT_AGE_MS = 7 * 24 * 60 * 60 * 1000; // Abandoned checkpoints are removed after a week
+
+interface CheckpointData {
+  version: number;
+  audioHash: string;
+  updatedAt: number;
+  transcription?: {
+    signature: string;
+    chunks: Record<string, VerboseTranscriptionResult>;
+  };
+  partialSummaries?: {
+    signature: string;
+    summaries: Record<string, string>;
+  };
+}
+
+/**
+ * On-disk progress for one recording, keyed by the hash of its audio content.
+ * Each section carries a signature of the inputs that produced it (segment
+ * boundaries, provider, model); a different signature discards the section.
+ */
+export class ProcessingCheckpoint {
+  readonly audioHash: string;
+  private filePath: string;
+  private data: CheckpointData;
+
+  constructor(filePath: string, audioHash: string, data?: CheckpointData) {
+    this.filePath = filePath;
+    this.audioHash = audioHash;
+    this.data = data && data.version === CHECKPOINT_VERSION && data.audioHash === audioHash
+      ? data
+      : { version: CHECKPOINT_VERSION, audioHash, updatedAt: Date.now() };
+  }
+
+  /**
+   * Select the transcription section and return how many chunks it already holds.
+   */
+  useTranscription(signature: string): number {
+    if (this.data.transcription?.signature !== signature) {
+      this.data.transcription = { signature, chunks: {} };
+    }
+    return Object.keys(this.data.transcription.chunks).length;
+  }
+
+  getChunk(index: number): VerboseTranscriptionResult | undefined {
+    return this.data.transcription?.chunks[index];
+  }
+
+  saveChunk(index: number, result: VerboseTranscriptionResult): void {
+    if (!this.data.transcription) {
+      return;
+    }
+    this.data.transcription.chunks[index] = result;
+    this.write();
+  }
+
+  /**
+   * Select the partial summary section and return how many summaries it already holds.
+   */
+  usePartialSummaries(signature: string): number {
+    if (this.data.partialSummaries?.signature !== signature) {
+      this.data.partialSummaries = { signature, summaries: {} };
+    }
+    return Object.keys(this.data.partialSummaries.summaries).length;
+  }
+
+  getPartialSummary(index: number): string | undefined {
+    return this.data.partialSummaries?.summaries[index];
+  }
+
+  savePartialSummary(index: number, summary: string): void {
+    if (!this.data.partialSummaries) {
+      return;
+    }
+    this.data.partialSummaries.summaries[index] = summary;
+    this.write();
+  }
+
+  /**
+   * Remove the checkpoint once the note has been created.
+   */
+  clear(): void {
+    try {
+      if (existsSync(this.filePath)) {
+        unlinkSync(this.filePath);
+      }
+    } catch (error) {
+      console.warn(`Failed to remove checkpoint ${this.filePath}:`, error);
+    }
+  }
+
+  private write(): void {
+    this.data.updatedAt = Date.now();
+    try {
+      // Write then rename so a crash mid-write never leaves a truncated checkpoint
+      const tempPath = `${this.filePath}.tmp`;
+      writeFileSync(tempPath, JSON.stringify(this.data), 'utf-8');
+      renameSync(tempPath, this.filePath);
+    } catch (error) {
+      // A missing checkpoint only costs a re-run; never fail processing over it
+      console.warn(`Failed to write checkpoint ${this.filePath}:`, error);
+    }
+  }
+}
+
+export class CheckpointStore {
+  private directory: string;
+
+  constructor(directory: string = CheckpointStore.getDefaultDirectory()) {
+    this.directory = directory;
+  }
+
+  static getDefaultDirectory(): string {
+    return join(tmpdir(), 'attn-checkpoints');
+  }
+
+  static hashContent(content: ArrayBuffer | Buffer): string {
+    const buffer = Buffer.isBuffer(content) ? content : Buffer.from(content);
+    return createHash('sha256').update(buffer).digest('hex');
+  }
+
+  /**
+   * Load the checkpoint for this audio, or start an empty one.
+   */
+  open(audioHash: string): ProcessingCheckpoint {
+    this.ensureDirectory();
+    this.pruneStale();
+
+    const filePath = join(this.directory, `${audioHash}.json`);
+    let data: CheckpointData | undefined;
+    if (existsSync(filePath)) {
+      try {
+        data = JSON.parse(readFileSync(filePath, 'utf-8'));
+      } catch (error) {
+        console.warn(`Ignoring unreadable checkpoint ${filePath}:`, error);
+      }
+    }
+
+    return new ProcessingCheckpoint(filePath, audioHash, data);
+  }
+
+  private ensureDirectory(): void {
+    if (!existsSync(this.directory)) {
+      mkdirSync(this.directory, { recursive: true });
+    }
+  }
+
+  private pruneStale(): void {
+    const cutoff = Date.now() - MAX_CHECKPOINT_AGE_MS;
+    try {
+      for (const name of readdirSync(this.directory)) {
+        const filePath = join(this.directory, name);
+        if (statSync(filePath).mtimeMs < cutoff) {
+          unlinkSync(filePath);
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to prune old checkpoints:', error);
+    }
+  }
+}
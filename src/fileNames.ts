@@ -0,0 +1,36 @@
+// Not allowed in file names on Windows/macOS, or break Obsidian wiki links
+const ILLEGAL_CHARACTERS = /[\\/:*?"<>|#^[\]]/g;
+const RESERVED_WINDOWS_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])$/i;
+// Most file systems limit a name to 255 bytes; leave room for the extension and a suffix
+const MAX_NAME_BYTES = 200;
+
+function isControlCharacter(character: string): boolean {
+  const code = character.charCodeAt(0);
+  return code < 0x20 || code === 0x7f;
+}
+
+/**
+ * Turn a generated note name into one that every platform and Obsidian accept. Illegal
+ * characters become "-", and an empty result falls back to `fallback`.
+ */
+export function sanitizeFileName(name: string, fallback = '회의록'): string {
+  let cleaned = Array.from(name.replace(/\s+/g, ' '))
+    .filter(character => !isControlCharacter(character))
+    .join('')
+    .replace(ILLEGAL_CHARACTERS, '-')
+    .trim()
+    // Leading dots hide files; Windows drops trailing dots and spaces
+    .replace(/^\.+|[. ]+$/g, '');
+
+  if (RESERVED_WINDOWS_NAMES.test(cleaned)) {
+    cleaned = `${cleaned}-`;
+  }
+
+  const characters = Array.from(cleaned);
+  while (characters.length > 0 && Buffer.byteLength(characters.join('')) > MAX_NAME_BYTES) {
+    characters.pop();
+  }
+  cleaned = characters.join('').trim();
+
+  return cleaned || fallback;
+}
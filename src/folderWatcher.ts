@@ -0,0 +1,117 @@
+import { WatchFolderSettings } from './types';
+import { isSupportedMediaExtension } from './audioFormats';
+
+const DEFAULT_STABLE_DELAY_SEC = 10;
+
+export interface FolderWatcherOptions {
+  getSettings: () => WatchFolderSettings | undefined;
+  getFileSize: (path: string) => number | null; // null once the file is gone
+  isProcessed: (path: string) => boolean;
+  onFileReady: (path: string) => void;
+}
+
+/**
+ * Queues recordings that appear in the watched folder. Sync tools write files over
+ * time, so a file is only handed on once its size stops changing between two checks.
+ */
+export class FolderWatcher {
+  private options: FolderWatcherOptions;
+  private pending = new Map<string, { size: number | null; timer: ReturnType<typeof setTimeout> }>();
+
+  constructor(options: FolderWatcherOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Called for vault create and rename events.
+   */
+  handleFile(path: string): void {
+    if (!this.matches(path) || this.options.isProcessed(path)) {
+      return;
+    }
+
+    const existing = this.pending.get(path);
+    if (existing) {
+      clearTimeout(existing.timer);
+    }
+    this.schedule(path, this.options.getFileSize(path));
+  }
+
+  forget(path: string): void {
+    const existing = this.pending.get(path);
+    if (existing) {
+      clearTimeout(existing.timer);
+      this.pending.delete(path);
+    }
+  }
+
+  stop(): void {
+    for (const { timer } of this.pending.values()) {
+      clearTimeout(timer);
+    }
+    this.pending.clear();
+  }
+
+  matches(path: string): boolean {
+    const settings = this.options.getSettings();
+    if (!settings?.enabled || !settings.folderPath) {
+      return false;
+    }
+
+    const folder = settings.folderPath.replace(/^\/+|\/+$/g, '');
+    if (folder !== '' && !path.startsWith(`${folder}/`)) {
+      return false;
+    }
+
+    const fileName = path.split('/').pop() || path;
+    const extension = fileName.includes('.') ? fileName.split('.').pop() || '' : '';
+    if (!isSupportedMediaExtension(extension)) {
+      return false;
+    }
+
+    const include = parsePatterns(settings.includePattern);
+    if (include.length > 0 && !include.some(pattern => pattern.test(fileName))) {
+      return false;
+    }
+    return !parsePatterns(settings.excludePattern).some(pattern => pattern.test(fileName));
+  }
+
+  private schedule(path: string, size: number | null): void {
+    const delaySec = this.options.getSettings()?.stableDelaySec ?? DEFAULT_STABLE_DELAY_SEC;
+    const timer = setTimeout(() => this.check(path, size), delaySec * 1000);
+    this.pending.set(path, { size, timer });
+  }
+
+  private check(path: string, previousSize: number | null): void {
+    const size = this.options.getFileSize(path);
+    if (size === null) {
+      // Deleted or renamed away before it finished syncing
+      this.pending.delete(path);
+      return;
+    }
+    if (size !== previousSize || size === 0) {
+      this.schedule(path, size);
+      return;
+    }
+
+    this.pending.delete(path);
+    if (this.matches(path) && !this.options.isProcessed(path)) {
+      console.log(`👀 Watched folder: queueing ${path}`);
+      this.options.onFileReady(path);
+    }
+  }
+}
+
+/**
+ * Comma-separated filename globs ("*.m4a, call-*") as case-insensitive regular expressions.
+ */
+function parsePatterns(patterns?: string): RegExp[] {
+  return (patterns || '')
+    .split(',')
+    .map(pattern => pattern.trim())
+    .filter(Boolean)
+    .map(pattern => new RegExp(
+      `^${pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`,
+      'i'
+    ));
+}
@@ -0,0 +1,218 @@
+import { v4 as uuidv4 } from 'uuid';
+import { JobOptions, JobState, ProcessingJob } from './types';
+import { createAbortError } from './cancellation';
+
+const ACTIVE_STATES: JobState[] = ['segmenting', 'transcribing', 'summarizing'];
+const FINISHED_STATES: JobState[] = ['done', 'failed', 'cancelled'];
+const MAX_FINISHED_JOBS = 50; // Older finished jobs are dropped so plugin data stays small
+
+export interface JobContext {
+  update(patch: { state?: JobState; progress?: number; message?: string }): void;
+  throwIfCancelled(): void;
+  signal: AbortSignal; // Aborted when the job is cancelled; pass it to every long-running step
+}
+
+/**
+ * Processes one job and resolves with the path of the created note.
+ */
+export type JobRunner = (job: ProcessingJob, context: JobContext) => Promise<string | void>;
+
+export interface JobQueueOptions {
+  concurrency: number;
+  runner: JobRunner;
+  persist: (jobs: ProcessingJob[]) => Promise<void>;
+  onJobFinished?: (job: ProcessingJob, error?: unknown) => void;
+}
+
+export class JobQueue {
+  private jobs: ProcessingJob[] = [];
+  private running = new Set<string>();
+  private controllers = new Map<string, AbortController>();
+  private listeners = new Set<() => void>();
+  private options: JobQueueOptions;
+  private started = false;
+
+  constructor(options: JobQueueOptions, storedJobs: ProcessingJob[] = []) {
+    this.options = options;
+
+    // Jobs that were mid-flight when Obsidian closed start over from the queue
+    this.jobs = storedJobs.map(job => ACTIVE_STATES.includes(job.state)
+      ? { ...job, state: 'queued' as JobState, progress: 0, message: '재시작 후 다시 대기 중' }
+      : { ...job });
+  }
+
+  /**
+   * Begin processing. Restored jobs wait until the vault is ready, so this is called from onLayoutReady.
+   */
+  start(): void {
+    this.started = true;
+    this.pump();
+  }
+
+  getJobs(): ProcessingJob[] {
+    return this.jobs.map(job => ({ ...job }));
+  }
+
+  getJob(id: string): ProcessingJob | undefined {
+    const job = this.findJob(id);
+    return job ? { ...job } : undefined;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  setConcurrency(concurrency: number): void {
+    this.options.concurrency = concurrency;
+    this.pump();
+  }
+
+  /**
+   * Queue a file. A file that is already waiting or being processed is not queued twice.
+   */
+  enqueue(filePath: string, options?: JobOptions): ProcessingJob {
+    const existing = this.jobs.find(job => job.filePath === filePath && !FINISHED_STATES.includes(job.state));
+    if (existing) {
+      return { ...existing };
+    }
+
+    const now = Date.now();
+    const job: ProcessingJob = {
+      id: uuidv4(),
+      filePath,
+      options,
+      state: 'queued',
+      progress: 0,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.jobs.push(job);
+    this.changed(true);
+    this.started = true;
+    this.pump();
+    return { ...job };
+  }
+
+  retry(id: string): void {
+    const job = this.findJob(id);
+    if (!job || (job.state !== 'failed' && job.state !== 'cancelled') || this.running.has(id)) {
+      return;
+    }
+
+    this.patch(job, { state: 'queued', progress: 0, message: undefined, error: undefined });
+    this.pump();
+  }
+
+  cancel(id: string): void {
+    const job = this.findJob(id);
+    if (!job || FINISHED_STATES.includes(job.state)) {
+      return;
+    }
+
+    // Aborting kills in-flight requests and subprocesses of a running job
+    this.patch(job, { state: 'cancelled', message: '취소됨' });
+    this.controllers.get(id)?.abort();
+  }
+
+  remove(id: string): void {
+    const job = this.findJob(id);
+    if (!job || this.running.has(id)) {
+      return;
+    }
+
+    this.jobs = this.jobs.filter(candidate => candidate.id !== id);
+    this.changed(true);
+  }
+
+  clearFinished(): void {
+    this.jobs = this.jobs.filter(job => !FINISHED_STATES.includes(job.state) || this.running.has(job.id));
+    this.changed(true);
+  }
+
+  private pump(): void {
+    if (!this.started) {
+      return;
+    }
+
+    while (this.running.size < Math.max(1, this.options.concurrency)) {
+      const next = this.jobs.find(job => job.state === 'queued' && !this.running.has(job.id));
+      if (!next) {
+        return;
+      }
+      void this.run(next);
+    }
+  }
+
+  private async run(job: ProcessingJob): Promise<void> {
+    this.running.add(job.id);
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    this.patch(job, { state: 'segmenting', progress: 0, attempts: job.attempts + 1, message: undefined, error: undefined });
+
+    const context: JobContext = {
+      update: ({ state, progress, message }) => {
+        if (!ACTIVE_STATES.includes(job.state)) {
+          return;
+        }
+
+        const patch: Partial<ProcessingJob> = {};
+        if (state) patch.state = state;
+        if (progress !== undefined) patch.progress = progress;
+        if (message !== undefined) patch.message = message;
+        // Progress-only updates refresh the view without rewriting plugin data
+        this.patch(job, patch, state !== undefined && state !== job.state);
+      },
+      throwIfCancelled: () => {
+        if (job.state === 'cancelled') {
+          throw createAbortError();
+        }
+      },
+      signal: controller.signal
+    };
+
+    try {
+      const notePath = await this.options.runner({ ...job }, context);
+      if (job.state !== 'cancelled') {
+        this.patch(job, { state: 'done', progress: 100, message: undefined, notePath: notePath || undefined });
+        this.options.onJobFinished?.({ ...job });
+      }
+    } catch (error) {
+      if (job.state !== 'cancelled') {
+        this.patch(job, { state: 'failed', error: error instanceof Error ? error.message : String(error) });
+        this.options.onJobFinished?.({ ...job }, error);
+      }
+    } finally {
+      this.running.delete(job.id);
+      this.controllers.delete(job.id);
+      this.pump();
+    }
+  }
+
+  private patch(job: ProcessingJob, patch: Partial<ProcessingJob>, persist = true): void {
+    Object.assign(job, patch, { updatedAt: Date.now() });
+    this.changed(persist);
+  }
+
+  private changed(persist: boolean): void {
+    this.listeners.forEach(listener => listener());
+    if (!persist) {
+      return;
+    }
+
+    const finished = this.jobs.filter(job => FINISHED_STATES.includes(job.state) && !this.running.has(job.id));
+    if (finished.length > MAX_FINISHED_JOBS) {
+      const dropped = new Set(finished.slice(0, finished.length - MAX_FINISHED_JOBS).map(job => job.id));
+      this.jobs = this.jobs.filter(job => !dropped.has(job.id));
+    }
+
+    this.options.persist(this.getJobs()).catch(error => {
+      console.error('처리 대기열 저장 실패:', error);
+    });
+  }
+
+  private findJob(id: string): ProcessingJob | undefined {
+    return this.jobs.find(job => job.id === id);
+  }
+}
@@ -0,0 +1,96 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import { JobState, ProcessingJob } from './types';
+import { JobQueue } from './jobQueue';
+
+export const JOB_QUEUE_VIEW_TYPE = 'attn-job-queue';
+
+export const STATE_LABELS: Record<JobState, string> = {
+  queued: '⏳ 대기 중',
+  segmenting: '✂️ 오디오 준비 중',
+  transcribing: '🎙️ 음성 인식 중',
+  summarizing: '📝 요약 중',
+  done: '✅ 완료',
+  failed: '❌ 실패',
+  cancelled: '⏹️ 취소됨'
+};
+
+/**
+ * Sidebar list of queued and finished processing jobs with retry/cancel actions.
+ */
+export class JobQueueView extends ItemView {
+  private queue: JobQueue;
+  private unsubscribe?: () => void;
+
+  constructor(leaf: WorkspaceLeaf, queue: JobQueue) {
+    super(leaf);
+    this.queue = queue;
+  }
+
+  getViewType(): string {
+    return JOB_QUEUE_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return 'ATTN 처리 대기열';
+  }
+
+  getIcon(): string {
+    return 'list-checks';
+  }
+
+  async onOpen(): Promise<void> {
+    this.unsubscribe = this.queue.subscribe(() => this.render());
+    this.render();
+  }
+
+  async onClose(): Promise<void> {
+    this.unsubscribe?.();
+  }
+
+  private render(): void {
+    const container = this.contentEl;
+    container.empty();
+    container.addClass('attn-job-queue');
+
+    const header = container.createDiv({ cls: 'attn-job-queue-header' });
+    header.createEl('h4', { text: 'ATTN 처리 대기열' });
+    const clearButton = header.createEl('button', { text: '완료된 작업 지우기' });
+    clearButton.addEventListener('click', () => this.queue.clearFinished());
+
+    const jobs = this.queue.getJobs();
+    if (jobs.length === 0) {
+      container.createDiv({ cls: 'attn-job-queue-empty', text: '처리 중인 작업이 없습니다.' });
+      return;
+    }
+
+    // Newest first
+    for (const job of [...jobs].reverse()) {
+      this.renderJob(container, job);
+    }
+  }
+
+  private renderJob(container: HTMLElement, job: ProcessingJob): void {
+    const item = container.createDiv({ cls: `attn-job attn-job-${job.state}` });
+    item.createDiv({ cls: 'attn-job-name', text: job.filePath.split('/').pop() || job.filePath });
+
+    const status = job.progress > 0 && job.progress < 100
+      ? `${STATE_LABELS[job.state]} (${Math.round(job.progress)}%)`
+      : STATE_LABELS[job.state];
+    item.createDiv({ cls: 'attn-job-status', text: status });
+
+    const detail = job.state === 'failed' ? job.error : job.state === 'done' ? job.notePath : job.message;
+    if (detail) {
+      item.createDiv({ cls: 'attn-job-detail', text: detail });
+    }
+
+    const actions = item.createDiv({ cls: 'attn-job-actions' });
+    if (job.state === 'failed' || job.state === 'cancelled') {
+      actions.createEl('button', { text: '다시 시도' }).addEventListener('click', () => this.queue.retry(job.id));
+      actions.createEl('button', { text: '삭제' }).addEventListener('click', () => this.queue.remove(job.id));
+    } else if (job.state === 'done') {
+      actions.createEl('button', { text: '삭제' }).addEventListener('click', () => this.queue.remove(job.id));
+    } else {
+      actions.createEl('button', { text: '취소' }).addEventListener('click', () => this.queue.cancel(job.id));
+    }
+  }
+}
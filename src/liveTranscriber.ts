@@ -0,0 +1,125 @@
+import { ATTNSettings, SegmentResult, VerboseTranscriptionResult } from './types';
+import { AudioProcessor } from './audioProcessor';
+import { RecordedSegment } from './meetingRecorder';
+
+export interface LiveTranscriptState {
+  active: boolean; // A recording is feeding segments
+  transcript: VerboseTranscriptionResult;
+  completedChunks: number;
+  pendingChunks: number;
+  failedChunks: number;
+}
+
+interface LiveChunk {
+  segment: SegmentResult;
+  result?: VerboseTranscriptionResult;
+  failed?: boolean;
+}
+
+const EMPTY_TRANSCRIPT: VerboseTranscriptionResult = { text: '', segments: [] };
+
+/**
+ * Transcribes recording segments one after another while the meeting is still going,
+ * so that only the summary is left once the recording stops.
+ */
+export class LiveTranscriber {
+  private processor: AudioProcessor;
+  private getSettings: () => ATTNSettings;
+  private chunks: LiveChunk[] = [];
+  private transcript: VerboseTranscriptionResult = EMPTY_TRANSCRIPT;
+  private pending: Promise<void> = Promise.resolve();
+  private controller: AbortController | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor(processor: AudioProcessor, getSettings: () => ATTNSettings) {
+    this.processor = processor;
+    this.getSettings = getSettings;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getState(): LiveTranscriptState {
+    return {
+      active: this.controller !== null,
+      transcript: this.transcript,
+      completedChunks: this.chunks.filter(chunk => chunk.result).length,
+      pendingChunks: this.chunks.filter(chunk => !chunk.result && !chunk.failed).length,
+      failedChunks: this.chunks.filter(chunk => chunk.failed).length
+    };
+  }
+
+  /**
+   * Start a new transcript for a recording that is about to begin.
+   */
+  begin(): void {
+    this.controller?.abort();
+    this.controller = new AbortController();
+    this.chunks = [];
+    this.transcript = EMPTY_TRANSCRIPT;
+    this.pending = Promise.resolve();
+    this.notify();
+  }
+
+  addSegment(segment: RecordedSegment): void {
+    const controller = this.controller;
+    if (!controller) {
+      return;
+    }
+
+    const chunk: LiveChunk = {
+      segment: { bufferOrPath: `live-${segment.index}.${segment.extension}`, startSec: segment.startSec, endSec: segment.endSec, sizeBytes: segment.data.size }
+    };
+    this.chunks.push(chunk);
+    this.notify();
+
+    // One request at a time keeps the chunks in recording order
+    this.pending = this.pending.then(async () => {
+      if (controller.signal.aborted) {
+        return;
+      }
+      const file = new File([segment.data], chunk.segment.bufferOrPath as string, { type: segment.data.type });
+      try {
+        chunk.result = await this.processor.transcribeLiveChunk(file, this.getSettings(), controller.signal);
+        console.log(`📝 Live chunk ${segment.index + 1} transcribed (${Math.round(segment.startSec)}s-${Math.round(segment.endSec)}s)`);
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        chunk.failed = true;
+        console.error(`❌ Live transcription failed for chunk ${segment.index + 1}:`, error);
+      }
+      this.updateTranscript();
+      this.notify();
+    });
+  }
+
+  /**
+   * Wait for the remaining chunks. Returns the full transcript, or null when a chunk
+   * failed and the recording has to be transcribed the regular way.
+   */
+  async finish(): Promise<VerboseTranscriptionResult | null> {
+    await this.pending;
+    const complete = this.chunks.length > 0 && this.chunks.every(chunk => chunk.result);
+    this.controller = null;
+    this.notify();
+    return complete ? this.transcript : null;
+  }
+
+  cancel(): void {
+    this.controller?.abort();
+    this.controller = null;
+    this.notify();
+  }
+
+  private updateTranscript(): void {
+    const done = this.chunks.filter((chunk): chunk is LiveChunk & { result: VerboseTranscriptionResult } => !!chunk.result);
+    this.transcript = this.processor.mergeVerboseResults(done.map(chunk => chunk.result), done.map(chunk => chunk.segment));
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,75 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import { LiveTranscriber } from './liveTranscriber';
+import { formatTimestamp } from './mediaTimestamps';
+
+export const LIVE_TRANSCRIPT_VIEW_TYPE = 'attn-live-transcript';
+
+/**
+ * Sidebar transcript of the meeting being recorded, extended as each chunk is transcribed.
+ */
+export class LiveTranscriptView extends ItemView {
+  private transcriber: LiveTranscriber;
+  private unsubscribe?: () => void;
+
+  constructor(leaf: WorkspaceLeaf, transcriber: LiveTranscriber) {
+    super(leaf);
+    this.transcriber = transcriber;
+  }
+
+  getViewType(): string {
+    return LIVE_TRANSCRIPT_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return 'ATTN 실시간 전사';
+  }
+
+  getIcon(): string {
+    return 'mic';
+  }
+
+  async onOpen(): Promise<void> {
+    this.unsubscribe = this.transcriber.subscribe(() => this.render());
+    this.render();
+  }
+
+  async onClose(): Promise<void> {
+    this.unsubscribe?.();
+  }
+
+  private render(): void {
+    const container = this.contentEl;
+    container.empty();
+    container.addClass('attn-live-transcript');
+
+    const state = this.transcriber.getState();
+    container.createEl('h4', { text: 'ATTN 실시간 전사' });
+
+    let status = state.active ? '🔴 녹음 중' : '⏹️ 녹음 종료';
+    status += ` · 완료 ${state.completedChunks}개`;
+    if (state.pendingChunks > 0) {
+      status += ` · 인식 중 ${state.pendingChunks}개`;
+    }
+    if (state.failedChunks > 0) {
+      status += ` · 실패 ${state.failedChunks}개`;
+    }
+    container.createDiv({ cls: 'attn-live-transcript-status', text: status });
+
+    const segments = state.transcript.segments || [];
+    if (segments.length === 0) {
+      container.createDiv({
+        cls: 'attn-live-transcript-empty',
+        text: state.active ? '첫 구간이 인식되면 여기에 표시됩니다.' : '전사된 내용이 없습니다.'
+      });
+      return;
+    }
+
+    const list = container.createDiv({ cls: 'attn-live-transcript-lines' });
+    for (const segment of segments) {
+      const line = list.createDiv({ cls: 'attn-live-transcript-line' });
+      line.createSpan({ cls: 'attn-live-transcript-time', text: `[${formatTimestamp(segment.start)}] ` });
+      line.createSpan({ text: segment.text.trim() });
+    }
+    list.scrollTop = list.scrollHeight;
+  }
+}
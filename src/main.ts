@@ -1,5 +1,6 @@
-import { App, Plugin, PluginSettingTab, TFile, Notice } from 'obsidian';
-import { ATTNSettings, AudioSpeedOption, VerboseTranscriptionResult } from './types';
+import { App, Plugin, PluginSettingTab, TFile, TFolder, Notice } from 'obsidian';
+import moment from 'moment';
+import { ATTNSettings, AudioSpeedOption, JobOptions, JobState, ProcessingJob, ProcessingProgress, VerboseTranscriptionResult } from './types';
 import { ATTNSettingTab } from './settings';
 import { ApiService } from './apiService';
 import { NoteCreator } from './noteCreator';
@@ -7,11 +8,40 @@ import { TemplateProcessor } from './templateProcessor';
 import { ConfigLoader } from './configLoader';
 import { AudioProcessor } from './audioProcessor';
 import { TemplateLoader } from './templateLoader';
+import { AudioSegmenter } from './audioSegmenter';
+import { getAudioMimeType, isSupportedMediaExtension, isSupportedVideoExtension, needsTranscoding } from './audioFormats';
+import { JobContext, JobQueue } from './jobQueue';
+import { JOB_QUEUE_VIEW_TYPE, JobQueueView } from './jobQueueView';
+import { CANCELLED_MESSAGE, isAbortError } from './cancellation';
+import { DEFAULT_CACHE_MAX_MB, TranscriptionCache } from './transcriptionCache';
+import { ProcessingProgressModal } from './progressModal';
+import { JobStatusBar, RecordingStatusBar } from './statusBar';
+import { VaultPickerModal } from './vaultPicker';
+import { FolderWatcher } from './folderWatcher';
+import { BatchReport, BatchTracker, estimateBatch } from './batchProcessor';
+import { BatchConfirmModal, BatchReportModal } from './batchModals';
+import { MeetingRecorder, RecordedAudio, recordingFileName } from './meetingRecorder';
+import { LiveTranscriber } from './liveTranscriber';
+import { LIVE_TRANSCRIPT_VIEW_TYPE, LiveTranscriptView } from './liveTranscriptView';
+import { sanitizeFileName } from './fileNames';
+import { CheckpointStore } from './checkpointStore';
+import { formatTimestampLink, handleTimestampClick } from './mediaTimestamps';
+import { buildSubtitleCues, sidecarPath, toSrt, toTranscriptJson, toVtt } from './transcriptExport';
+import { formatTaskLine } from './actionItems';
+
+// ApiService progress stages mapped onto queue job states
+const STAGE_TO_JOB_STATE: Record<ProcessingProgress['stage'], JobState | undefined> = {
+  segmentation: 'segmenting',
+  transcription: 'transcribing',
+  summarization: 'summarizing',
+  complete: undefined
+};
 
 const DEFAULT_SETTINGS: ATTNSettings = {
   openaiApiKey: '', // Legacy field for backward compatibility
   saveFolderPath: '/',
   noteFilenameTemplate: '{{date:YYYY-MM-DD}}-{{filename}}-회의록',
+  noteCollisionStrategy: 'suffix',
   noteContentTemplate: `# 🎯 {{date:YYYY-MM-DD}} 회의록
 
 ## 📄 기본 정보
@@ -21,6 +51,8 @@ const DEFAULT_SETTINGS: ATTNSettings = {
 - **참석자:** {{speakers}}
 {{/if}}
 
+{{mediaEmbed}}
+
 ---
 
 ## 📋 회의 요약
@@ -29,6 +61,17 @@ const DEFAULT_SETTINGS: ATTNSettings = {
 
 ---
 
+{{#if actionItems}}
+## ✅ 액션 아이템
+
+{{#each actionItems}}
+{{line}}
+{{/each}}
+
+---
+
+{{/if}}
+
 ## 🎙️ 전체 대화 내용
 
 {{#if speakerTranscript}}
@@ -93,6 +136,10 @@ const DEFAULT_SETTINGS: ATTNSettings = {
     hardSplitWindowSec: 45, // Increased for better natural breaks
     preserveIntermediates: false,
     contextOverlapSec: 10, // New: Context preservation between chunks
+    maxConcurrentJobs: 1, // Process one recording at a time to stay within API rate limits
+    enableTranscriptionCache: true,
+    transcriptionCacheMaxMB: DEFAULT_CACHE_MAX_MB,
+    extractActionItems: true,
     diarization: {
       enabled: true, // 회의록에서 화자 분리는 중요하므로 기본 활성화
       provider: 'pyannote',
@@ -106,22 +153,74 @@ const DEFAULT_SETTINGS: ATTNSettings = {
     level: 'error',
     maxLogFileBytes: 5 * 1024 * 1024,
     maxLogFiles: 5
+  },
+  watchFolder: {
+    enabled: false,
+    folderPath: 'Recordings',
+    includePattern: '',
+    excludePattern: '',
+    stableDelaySec: 10
+  },
+  frontmatter: {
+    enabled: true,
+    tags: 'meeting'
+  },
+  transcriptExport: {
+    srt: false,
+    vtt: false,
+    json: false
+  },
+  recording: {
+    folderPath: 'Recordings',
+    processOnStop: true,
+    liveTranscription: true
   }
 };
 
 export default class ATTNPlugin extends Plugin {
   settings: ATTNSettings;
+  jobQueue: JobQueue;
+  transcriptionCache: TranscriptionCache;
   private configLoader: ConfigLoader;
+  private statusBar?: JobStatusBar;
+  private folderWatcher?: FolderWatcher;
+  private batchTracker?: BatchTracker;
+  recorder: MeetingRecorder;
+  liveTranscriber: LiveTranscriber;
+  private recordingStatusBar?: RecordingStatusBar;
+  private liveTranscripts = new Map<string, VerboseTranscriptionResult>(); // Recording path -> transcript made while recording
+  private processedFiles = new Set<string>(); // Media files that already have a generated note
 
   async onload() {
     this.configLoader = ConfigLoader.getInstance();
     await this.loadSettings();
 
+    const pluginDir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    this.transcriptionCache = new TranscriptionCache(
+      this.app.vault.adapter,
+      `${pluginDir}/cache`,
+      this.settings.processing?.transcriptionCacheMaxMB || DEFAULT_CACHE_MAX_MB
+    );
+    this.recorder = new MeetingRecorder(this.app.vault.adapter, `${pluginDir}/recording`);
+    this.liveTranscriber = new LiveTranscriber(new AudioProcessor(this.settings.ffmpegPath), () => this.settings);
+
     this.addSettingTab(new ATTNSettingTab(this.app, this));
 
+    this.registerView(JOB_QUEUE_VIEW_TYPE, (leaf) => new JobQueueView(leaf, this.jobQueue));
+    this.registerView(LIVE_TRANSCRIPT_VIEW_TYPE, (leaf) => new LiveTranscriptView(leaf, this.liveTranscriber));
+    this.registerCommands();
+    // Capture phase, so timestamp links play the embedded recording before Obsidian opens the file
+    this.registerDomEvent(document, 'click', handleTimestampClick, { capture: true });
+
+    this.addRibbonIcon('file-audio', 'ATTN: 오디오 파일 요약하기', () => this.openAudioFilePicker());
+    this.statusBar = new JobStatusBar(this.addStatusBarItem(), this.jobQueue, () => this.activateJobQueueView());
+    this.batchTracker = new BatchTracker(this.jobQueue);
+    this.recordingStatusBar = new RecordingStatusBar(this.addStatusBarItem(), this.recorder, () => this.toggleRecordingPause());
+    this.registerInterval(window.setInterval(() => this.recordingStatusBar?.update(), 1000));
+
     this.registerEvent(
       this.app.workspace.on('file-menu', (menu, file) => {
-        if (file instanceof TFile && file.extension === 'm4a') {
+        if (file instanceof TFile && isSupportedMediaExtension(file.extension)) {
           menu.addItem((item) => {
             item
               .setTitle('ATTN: 요약 노트 생성하기')
@@ -130,18 +229,217 @@ export default class ATTNPlugin extends Plugin {
                 await this.processAudioFile(file);
               });
           });
+        } else if (file instanceof TFolder) {
+          menu.addItem((item) => {
+            item
+              .setTitle('ATTN: 폴더의 모든 녹음 처리하기')
+              .setIcon('folder-input')
+              .onClick(() => this.confirmFolderBatch(file));
+          });
         }
       })
     );
+
+    // Jobs restored from plugin data resume once the vault is indexed
+    this.app.workspace.onLayoutReady(() => {
+      this.jobQueue.start();
+      this.startFolderWatcher();
+      this.recoverInterruptedRecording();
+    });
   }
 
-  onunload() {
+  /**
+   * Queue recordings that land in the watched folder. Registered after layout-ready,
+   * because Obsidian fires `create` for every existing file while the vault loads.
+   */
+  private startFolderWatcher() {
+    this.folderWatcher = new FolderWatcher({
+      getSettings: () => this.settings.watchFolder,
+      getFileSize: (path) => {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        return file instanceof TFile ? file.stat.size : null;
+      },
+      isProcessed: (path) => this.processedFiles.has(path),
+      onFileReady: (path) => {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (file instanceof TFile) {
+          this.processAudioFile(file, { automatic: true });
+        }
+      }
+    });
+
+    this.registerEvent(this.app.vault.on('create', (file) => {
+      if (file instanceof TFile) {
+        this.folderWatcher?.handleFile(file.path);
+      }
+    }));
+    this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+      this.folderWatcher?.forget(oldPath);
+      if (this.processedFiles.delete(oldPath)) {
+        // A renamed recording keeps its note; don't process it again
+        this.processedFiles.add(file.path);
+        this.saveSettings();
+      } else if (file instanceof TFile) {
+        this.folderWatcher?.handleFile(file.path);
+      }
+    }));
+    this.registerEvent(this.app.vault.on('delete', (file) => {
+      this.folderWatcher?.forget(file.path);
+      if (this.processedFiles.delete(file.path)) {
+        this.saveSettings();
+      }
+    }));
+  }
 
+  /**
+   * Command palette entries; every one of them can be bound to a hotkey.
+   */
+  private registerCommands() {
+    this.addCommand({
+      id: 'process-active-file',
+      name: '현재 오디오 파일 요약하기',
+      checkCallback: (checking) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || !isSupportedMediaExtension(file.extension)) {
+          return false;
+        }
+        if (!checking) {
+          this.processAudioFile(file);
+        }
+        return true;
+      }
+    });
+    this.addCommand({
+      id: 'process-embedded-audio',
+      name: '현재 노트에 삽입된 오디오 요약하기',
+      checkCallback: (checking) => {
+        const note = this.getActiveNote();
+        const mediaFiles = note ? this.getEmbeddedMediaFiles(note) : [];
+        if (mediaFiles.length === 0) {
+          return false;
+        }
+        if (!checking) {
+          this.pickAndProcess(mediaFiles);
+        }
+        return true;
+      }
+    });
+    this.addCommand({
+      id: 'resummarize-note',
+      name: '현재 회의록 다시 요약하기',
+      checkCallback: (checking) => {
+        const note = this.getActiveNote();
+        const source = note ? this.findSourceMedia(note) : null;
+        if (!note || !source) {
+          return false;
+        }
+        if (!checking) {
+          this.processAudioFile(source, { notePath: note.path, summaryOnly: true });
+        }
+        return true;
+      }
+    });
+    this.addCommand({
+      id: 'regenerate-note-with-template',
+      name: '다른 템플릿으로 회의록 다시 만들기',
+      checkCallback: (checking) => {
+        const note = this.getActiveNote();
+        const source = note ? this.findSourceMedia(note) : null;
+        if (!note || !source) {
+          return false;
+        }
+        if (!checking) {
+          const templates = this.app.vault.getMarkdownFiles().filter(file => file.path !== note.path);
+          new VaultPickerModal(this.app, templates, '회의록 템플릿을 선택하세요', (template) => {
+            this.processAudioFile(source, { notePath: note.path, templateFile: template.path });
+          }).open();
+        }
+        return true;
+      }
+    });
+    this.addCommand({
+      id: 'process-folder',
+      name: '폴더의 새 녹음 모두 요약하기',
+      callback: () => this.openFolderPicker()
+    });
+    this.addCommand({
+      id: 'start-meeting-recording',
+      name: '회의 녹음 시작',
+      checkCallback: (checking) => {
+        if (this.recorder.getState() !== 'idle') {
+          return false;
+        }
+        if (!checking) {
+          this.startRecording();
+        }
+        return true;
+      }
+    });
+    this.addCommand({
+      id: 'toggle-meeting-recording-pause',
+      name: '회의 녹음 일시정지/재개',
+      checkCallback: (checking) => {
+        if (this.recorder.getState() === 'idle') {
+          return false;
+        }
+        if (!checking) {
+          this.toggleRecordingPause();
+        }
+        return true;
+      }
+    });
+    this.addCommand({
+      id: 'stop-meeting-recording',
+      name: '회의 녹음 종료',
+      checkCallback: (checking) => {
+        if (this.recorder.getState() === 'idle') {
+          return false;
+        }
+        if (!checking) {
+          this.stopRecording();
+        }
+        return true;
+      }
+    });
+    this.addCommand({
+      id: 'open-live-transcript',
+      name: '실시간 전사 보기',
+      callback: () => this.activateView(LIVE_TRANSCRIPT_VIEW_TYPE)
+    });
+    this.addCommand({
+      id: 'open-job-queue',
+      name: '처리 대기열 보기',
+      callback: () => this.activateJobQueueView()
+    });
+    this.addCommand({
+      id: 'clear-transcription-cache',
+      name: '음성 인식 캐시 비우기',
+      callback: () => this.clearTranscriptionCache()
+    });
+  }
+
+  onunload() {
+    // Parts written so far are recovered on the next load
+    this.recorder?.abandon();
+    this.liveTranscriber?.cancel();
+    this.statusBar?.destroy();
+    this.batchTracker?.destroy();
+    this.folderWatcher?.stop();
   }
 
   async loadSettings() {
     const loadedData = await this.loadData();
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, loadedData);
+    // The job queue is stored next to the settings in data.json
+    const { jobs, processedFiles, ...storedSettings } = loadedData || {};
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, storedSettings);
+    this.processedFiles = new Set(Array.isArray(processedFiles) ? processedFiles : []);
+
+    this.jobQueue = new JobQueue({
+      concurrency: this.settings.processing?.maxConcurrentJobs || 1,
+      runner: (job, context) => this.runJob(job, context),
+      persist: () => this.saveSettings(),
+      onJobFinished: (job, error) => this.handleJobFinished(job, error)
+    }, Array.isArray(jobs) ? jobs : []);
     
     // Migration logic for backward compatibility
     await this.migrateSettings(loadedData);
@@ -167,6 +465,32 @@ export default class ATTNPlugin extends Plugin {
       }
     }
 
+    // Local Whisper used to point at an Ollama endpoint, which can't transcribe; it is dropped
+    // rather than carried over as a Whisper server
+    if (this.settings.stt.ollamaEndpoint) {
+      delete this.settings.stt.ollamaEndpoint;
+      if (this.settings.stt.provider === 'local-whisper' && !this.settings.stt.whisperServerUrl && !this.settings.stt.whisperBinaryPath) {
+        new Notice('⚠️ Local Whisper가 Ollama 주소로 설정되어 있었습니다. Ollama는 음성 인식을 지원하지 않으니 설정에서 Whisper 서버 주소를 입력해주세요.', 0);
+      }
+      needsSave = true;
+    }
+
+    // The self-hosted server used to be stored in baseUrl/apiKey, which the OpenAI and Gemini
+    // providers also read. For those providers baseUrl is their own override (e.g. a proxy),
+    // so only sections set to the self-hosted server are moved.
+    for (const section of [this.settings.stt, this.settings.summary]) {
+      if (section.provider === 'openai-compatible' && section.baseUrl && !section.compatibleBaseUrl) {
+        section.compatibleBaseUrl = section.baseUrl;
+        delete section.baseUrl;
+        // Only a key typed in for the server moves; the migrated OpenAI key stays with OpenAI
+        if (section.apiKey && section.apiKey !== loadedData?.openaiApiKey) {
+          section.compatibleApiKey = section.apiKey;
+          delete section.apiKey;
+        }
+        needsSave = true;
+      }
+    }
+
     // Add missing processing settings for existing users
     if (!loadedData?.processing) {
       this.settings.processing = DEFAULT_SETTINGS.processing;
@@ -197,15 +521,29 @@ export default class ATTNPlugin extends Plugin {
       }
     }
 
+    // OpenAI-compatible servers need an address; the API key is optional
+    if (this.settings.stt.provider === 'openai-compatible' && !this.settings.stt.compatibleBaseUrl?.trim()) {
+      new Notice('OpenAI 호환 STT 서버 주소(Base URL)가 설정되지 않았습니다. 플러그인 설정에서 입력해주세요.');
+      console.error('OpenAI 호환 STT 서버 주소가 설정되지 않았습니다.');
+      return false;
+    }
+
     // Check local whisper requirements
     if (this.settings.stt.provider === 'local-whisper') {
-      if (!this.settings.stt.ollamaEndpoint && !this.settings.stt.whisperBinaryPath) {
-        new Notice('Local Whisper 사용을 위해서는 Ollama 엔드포인트 또는 Whisper 바이너리 경로를 설정해주세요.');
+      if (!this.settings.stt.whisperServerUrl && !this.settings.stt.whisperBinaryPath) {
+        new Notice('Local Whisper 사용을 위해서는 Whisper 서버 주소 또는 Whisper 바이너리 경로를 설정해주세요.');
         console.error('Local Whisper 설정이 완료되지 않았습니다.');
         return false;
       }
     }
 
+    // Anthropic never falls back to the OpenAI key
+    if (this.settings.summary.provider === 'anthropic' && !this.settings.summary.apiKey?.trim()) {
+      new Notice('ANTHROPIC Summary API 키가 설정되지 않았습니다. 플러그인 설정에서 API 키를 입력해주세요.');
+      console.error('ANTHROPIC Summary API 키가 설정되지 않았습니다.');
+      return false;
+    }
+
     // Check Summary provider requirements
     if (this.settings.summary.provider === 'openai' || this.settings.summary.provider === 'gemini') {
       const summaryApiKey = this.settings.summary.apiKey || this.settings.openaiApiKey || configApiKey;
@@ -216,6 +554,12 @@ export default class ATTNPlugin extends Plugin {
       }
     }
 
+    if (this.settings.summary.provider === 'openai-compatible' && !this.settings.summary.compatibleBaseUrl?.trim()) {
+      new Notice('OpenAI 호환 Summary 서버 주소(Base URL)가 설정되지 않았습니다. 플러그인 설정에서 입력해주세요.');
+      console.error('OpenAI 호환 Summary 서버 주소가 설정되지 않았습니다.');
+      return false;
+    }
+
     // Check local LLM requirements
     if (this.settings.summary.provider === 'local-llm') {
       if (!this.settings.summary.ollamaEndpoint) {
@@ -229,34 +573,432 @@ export default class ATTNPlugin extends Plugin {
   }
 
   async saveSettings() {
-    await this.saveData(this.settings);
+    const jobs = this.jobQueue?.getJobs() || [];
+    const data: Record<string, unknown> = { ...this.settings };
+    if (jobs.length > 0) {
+      data.jobs = jobs;
+    }
+    if (this.processedFiles.size > 0) {
+      data.processedFiles = [...this.processedFiles];
+    }
+    await this.saveData(data);
+  }
+
+  async activateJobQueueView() {
+    await this.activateView(JOB_QUEUE_VIEW_TYPE);
+  }
+
+  private async activateView(viewType: string) {
+    const { workspace } = this.app;
+    let leaf = workspace.getLeavesOfType(viewType)[0];
+    if (!leaf) {
+      const rightLeaf = workspace.getRightLeaf(false);
+      if (!rightLeaf) {
+        return;
+      }
+      leaf = rightLeaf;
+      await leaf.setViewState({ type: viewType, active: true });
+    }
+    workspace.revealLeaf(leaf);
+  }
+
+  /**
+   * Add a media file to the processing queue. Files are processed in the background,
+   * at most `processing.maxConcurrentJobs` at a time.
+   */
+  async processAudioFile(file: TFile, options?: JobOptions) {
+    // Check if required API keys are configured based on provider selection
+    const hasRequiredKeys = this.validateApiKeys();
+
+    if (!hasRequiredKeys) {
+      return; // validateApiKeys will show appropriate error notice
+    }
+
+    const job = this.jobQueue.enqueue(file.path, options);
+    if (job.state === 'queued') {
+      new Notice(`📥 처리 대기열에 추가되었습니다: ${file.name}`);
+    }
+  }
+
+  /**
+   * Media files that have not been turned into a note yet. Files recorded as processed or
+   * with a queued, running or finished job are left out; failed and cancelled ones are not.
+   */
+  getUnprocessedMediaFiles(): TFile[] {
+    const handled = new Set(this.jobQueue.getJobs()
+      .filter(job => job.state !== 'failed' && job.state !== 'cancelled')
+      .map(job => job.filePath));
+    this.processedFiles.forEach(path => handled.add(path));
+    return this.app.vault.getFiles()
+      .filter(file => isSupportedMediaExtension(file.extension) && !handled.has(file.path));
+  }
+
+  openAudioFilePicker(): void {
+    const files = this.getUnprocessedMediaFiles().sort((a, b) => b.stat.mtime - a.stat.mtime);
+    new VaultPickerModal(
+      this.app,
+      files,
+      files.length > 0 ? '요약할 오디오 파일을 선택하세요' : '처리하지 않은 오디오 파일이 없습니다',
+      (file) => this.processAudioFile(file)
+    ).open();
+  }
+
+  /**
+   * Pick a folder that holds unprocessed recordings and batch-process all of them.
+   */
+  openFolderPicker(): void {
+    const unprocessed = this.getUnprocessedMediaFiles();
+    const folders = [...new Set(unprocessed.map(file => file.parent).filter((folder): folder is TFolder => !!folder))]
+      .sort((a, b) => a.path.localeCompare(b.path));
+    new VaultPickerModal(
+      this.app,
+      folders,
+      folders.length > 0 ? '새 녹음을 처리할 폴더를 선택하세요' : '처리하지 않은 녹음이 있는 폴더가 없습니다',
+      (folder) => this.confirmFolderBatch(folder)
+    ).open();
+  }
+
+  /**
+   * Unprocessed recordings in the folder and its subfolders. A recording that a note already
+   * embeds, links to or names as its `source` has been processed, even when the job that
+   * wrote the note is no longer in the queue.
+   */
+  getUnprocessedMediaFilesIn(folder: TFolder): TFile[] {
+    const prefix = folder.isRoot() ? '' : `${folder.path}/`;
+    const withNotes = this.getMediaFilesWithNotes();
+    return this.getUnprocessedMediaFiles()
+      .filter(file => file.path.startsWith(prefix) && !withNotes.has(file.path))
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  private getMediaFilesWithNotes(): Set<string> {
+    const paths = new Set<string>();
+    const { resolvedLinks } = this.app.metadataCache;
+    // Embeds and links of every note, by target path
+    for (const notePath of Object.keys(resolvedLinks)) {
+      Object.keys(resolvedLinks[notePath]).forEach(path => paths.add(path));
+    }
+    for (const note of this.app.vault.getMarkdownFiles()) {
+      const source = this.getFrontmatterSource(note);
+      if (source) {
+        paths.add(source.path);
+      }
+    }
+    return paths;
+  }
+
+  /**
+   * Show the size and cost estimate for a folder, then queue its recordings as one batch
+   * and report the outcome once every job has finished.
+   */
+  confirmFolderBatch(folder: TFolder): void {
+    const files = this.getUnprocessedMediaFilesIn(folder);
+    if (files.length === 0) {
+      new Notice(`처리하지 않은 녹음이 없습니다: ${folder.path}`);
+      return;
+    }
+    if (!this.validateApiKeys()) {
+      return;
+    }
+
+    const estimate = estimateBatch(files.map(file => file.stat.size), this.settings.stt);
+    new BatchConfirmModal(
+      this.app,
+      folder.path,
+      estimate,
+      this.settings.processing?.maxConcurrentJobs || 1,
+      () => {
+        const queued = this.batchTracker!.enqueueBatch(
+          files.map(file => file.path),
+          (report) => this.showBatchReport(report)
+        );
+        new Notice(`📥 녹음 ${queued}개를 처리 대기열에 추가했습니다: ${folder.path}`);
+      }
+    ).open();
+  }
+
+  private showBatchReport(report: BatchReport): void {
+    new Notice(`ATTN 일괄 처리 완료: 성공 ${report.succeeded.length}개, 실패 ${report.failed.length}개`);
+    new BatchReportModal(this.app, report).open();
   }
 
-  async processAudioFile(file: TFile) {
+  private pickAndProcess(files: TFile[]): void {
+    if (files.length === 1) {
+      this.processAudioFile(files[0]);
+      return;
+    }
+    new VaultPickerModal(this.app, files, '요약할 오디오 파일을 선택하세요', (file) => this.processAudioFile(file)).open();
+  }
+
+  private getActiveNote(): TFile | null {
+    const file = this.app.workspace.getActiveFile();
+    return file && file.extension === 'md' ? file : null;
+  }
+
+  getEmbeddedMediaFiles(note: TFile): TFile[] {
+    const embeds = this.app.metadataCache.getFileCache(note)?.embeds || [];
+    const files: TFile[] = [];
+    for (const embed of embeds) {
+      const target = this.app.metadataCache.getFirstLinkpathDest(embed.link.split('#')[0], note.path);
+      if (target && isSupportedMediaExtension(target.extension) && !files.includes(target)) {
+        files.push(target);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * The recording a generated note came from: the job that wrote the note, or else the
+   * `source` link in its frontmatter. Notes that weren't generated from a recording have none.
+   */
+  findSourceMedia(note: TFile): TFile | null {
+    const job = this.jobQueue.getJobs().reverse().find(candidate => candidate.state === 'done' && candidate.notePath === note.path);
+    const file = job ? this.app.vault.getAbstractFileByPath(job.filePath) : null;
+    if (file instanceof TFile) {
+      return file;
+    }
+    return this.getFrontmatterSource(note);
+  }
+
+  // Generated notes link their recording in the frontmatter, e.g. source: "[[Recordings/standup.m4a]]"
+  private getFrontmatterSource(note: TFile): TFile | null {
+    const source = this.app.metadataCache.getFileCache(note)?.frontmatter?.source;
+    if (typeof source !== 'string') {
+      return null;
+    }
+    const linkpath = source.replace(/^\[\[|\]\]$/g, '').split(/[#|]/)[0];
+    const target = this.app.metadataCache.getFirstLinkpathDest(linkpath, note.path);
+    return target && isSupportedMediaExtension(target.extension) ? target : null;
+  }
+
+  /**
+   * The transcript exported next to a note as JSON. Its times are already on the original
+   * recording's timeline.
+   */
+  private async readTranscriptSidecar(notePath: string): Promise<VerboseTranscriptionResult | null> {
+    const path = sidecarPath(notePath, 'json');
     try {
-      // Check if required API keys are configured based on provider selection
-      const hasRequiredKeys = this.validateApiKeys();
-      
-      if (!hasRequiredKeys) {
-        return; // validateApiKeys will show appropriate error notice
+      if (!(await this.app.vault.adapter.exists(path))) {
+        return null;
+      }
+      const transcript = JSON.parse(await this.app.vault.adapter.read(path)) as VerboseTranscriptionResult;
+      return transcript && typeof transcript.text === 'string' && Array.isArray(transcript.segments) ? transcript : null;
+    } catch (error) {
+      console.warn('Transcript sidecar could not be read:', error);
+      return null;
+    }
+  }
+
+  async startRecording(): Promise<void> {
+    // Starting discards leftover parts, so save an interrupted recording first
+    await this.recoverInterruptedRecording();
+    const live = this.isLiveTranscriptionEnabled() && this.validateApiKeys();
+    try {
+      if (live) {
+        this.liveTranscriber.begin();
+      }
+      await this.recorder.start(live ? (segment) => this.liveTranscriber.addSegment(segment) : undefined);
+      new Notice('🔴 회의 녹음을 시작했습니다');
+      if (live) {
+        this.activateView(LIVE_TRANSCRIPT_VIEW_TYPE);
       }
+    } catch (error) {
+      this.liveTranscriber.cancel();
+      console.error('녹음 시작 중 오류:', error);
+      new Notice(`녹음을 시작할 수 없습니다: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    this.recordingStatusBar?.update();
+  }
+
+  toggleRecordingPause(): void {
+    if (this.recorder.getState() === 'recording') {
+      this.recorder.pause();
+      new Notice('⏸️ 회의 녹음을 일시정지했습니다');
+    } else if (this.recorder.getState() === 'paused') {
+      this.recorder.resume();
+      new Notice('🔴 회의 녹음을 다시 시작했습니다');
+    }
+    this.recordingStatusBar?.update();
+  }
 
-      if (this.configLoader.isDebugMode()) {
-        console.log('🔧 ATTN Debug: Processing audio file:', file.name);
-        console.log('🔧 ATTN Debug: Config file path:', this.configLoader.getConfigPath());
+  /**
+   * Save the recording into the recordings folder and, unless turned off, queue it.
+   */
+  async stopRecording(): Promise<void> {
+    try {
+      const audio = await this.recorder.stop();
+      this.recordingStatusBar?.update();
+      const file = await this.saveRecording(audio);
+      await this.recorder.clearParts();
+      new Notice(`⏹️ 녹음을 저장했습니다: ${file.path}`);
+
+      if (this.liveTranscriber.getState().active) {
+        const transcript = await this.liveTranscriber.finish();
+        if (transcript) {
+          this.liveTranscripts.set(file.path, transcript);
+          // Kept with the recording so it is still used after a reload or when processed later
+          await this.transcriptionCache.setRecordingTranscript(CheckpointStore.hashContent(audio.data), transcript);
+        } else {
+          new Notice('⚠️ 실시간 전사가 완료되지 않아 녹음 전체를 다시 인식합니다');
+        }
       }
 
-      // Show progress notice
-      const processingNotice = new Notice('오디오 파일을 처리하고 있습니다...', 0);
+      if (this.settings.recording?.processOnStop ?? true) {
+        await this.processAudioFile(file);
+      }
+    } catch (error) {
+      this.liveTranscriber.cancel();
+      console.error('녹음 저장 중 오류:', error);
+      new Notice(`녹음을 저장하지 못했습니다: ${error instanceof Error ? error.message : String(error)}`);
+      this.recordingStatusBar?.update();
+    }
+  }
+
+  /**
+   * Live chunks are transcribed without speaker diarization, so recordings that need it
+   * go through the regular pipeline.
+   */
+  private isLiveTranscriptionEnabled(): boolean {
+    return (this.settings.recording?.liveTranscription ?? true) && !this.settings.processing?.diarization?.enabled;
+  }
+
+  private async recoverInterruptedRecording(): Promise<void> {
+    try {
+      const audio = await this.recorder.recover();
+      if (!audio) {
+        return;
+      }
+      const file = await this.saveRecording(audio);
+      await this.recorder.clearParts();
+      console.log(`♻️ Recovered interrupted recording: ${file.path}`);
+      new Notice(`♻️ 중단된 녹음을 복구했습니다: ${file.path}`);
+    } catch (error) {
+      console.error('녹음 복구 중 오류:', error);
+    }
+  }
 
-      // Step 1: Read audio file
-      const audioData = await this.app.vault.readBinary(file);
-      let audioFile = new File([audioData], file.name, { type: 'audio/m4a' });
+  private async saveRecording(audio: RecordedAudio): Promise<TFile> {
+    const folder = (this.settings.recording?.folderPath || 'Recordings').replace(/^\/+|\/+$/g, '');
+    if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+      await this.app.vault.createFolder(folder);
+    }
+
+    const fileName = recordingFileName(audio.startedAt, audio.extension);
+    const baseName = fileName.slice(0, -(audio.extension.length + 1));
+    let path = folder ? `${folder}/${fileName}` : fileName;
+    for (let counter = 2; this.app.vault.getAbstractFileByPath(path); counter++) {
+      path = `${folder ? `${folder}/` : ''}${baseName}-${counter}.${audio.extension}`;
+    }
+    return this.app.vault.createBinary(path, audio.data);
+  }
+
+  async clearTranscriptionCache(): Promise<void> {
+    const freedBytes = await this.transcriptionCache.clear();
+    new Notice(`🧹 음성 인식 캐시를 비웠습니다 (${(freedBytes / 1024 / 1024).toFixed(1)}MB)`);
+  }
+
+  private handleJobFinished(job: ProcessingJob, error?: unknown) {
+    if (!error) {
+      this.processedFiles.add(job.filePath);
+      this.saveSettings();
+      // Batch jobs are reported together once the whole batch is done
+      if (!job.options?.batchId) {
+        new Notice(`회의록이 성공적으로 생성되었습니다: ${job.notePath}`);
+      }
+      return;
+    }
+
+    console.error('오디오 처리 중 오류:', error);
+    if (job.options?.batchId) {
+      return;
+    }
+
+    let errorMessage = '오디오 처리 중 오류가 발생했습니다.';
+    if (error instanceof Error) {
+      errorMessage += ` ${error.message}`;
+    }
+
+    new Notice(errorMessage);
+  }
+
+  /**
+   * Run the full pipeline for one queued job and return the path of the created note.
+   */
+  private async runJob(job: ProcessingJob, context: JobContext): Promise<string> {
+    const file = this.app.vault.getAbstractFileByPath(job.filePath);
+    if (!(file instanceof TFile)) {
+      throw new Error(`파일을 찾을 수 없습니다: ${job.filePath}`);
+    }
+
+    if (this.configLoader.isDebugMode()) {
+      console.log('🔧 ATTN Debug: Processing audio file:', file.name);
+      console.log('🔧 ATTN Debug: Config file path:', this.configLoader.getConfigPath());
+    }
+
+    // Show progress notice
+    const processingNotice = new Notice('오디오 파일을 처리하고 있습니다...', 0);
+    const cancelButton = processingNotice.containerEl.createEl('button', { text: '취소' });
+    cancelButton.addEventListener('click', (event) => {
+      // Clicking a notice dismisses it; keep it open until the job actually stops
+      event.stopPropagation();
+      this.jobQueue.cancel(job.id);
+    });
+
+    // Live stage, ETA and streamed text; the notice can reopen it after it is closed
+    const progressModal = new ProcessingProgressModal(this.app, file.name, () => this.jobQueue.cancel(job.id));
+    const detailsButton = processingNotice.containerEl.createEl('button', { text: '진행 상황' });
+    detailsButton.addEventListener('click', (event) => {
+      event.stopPropagation();
+      progressModal.open();
+    });
+    if (!job.options?.automatic) {
+      progressModal.open();
+    }
+
+    try {
+      // Step 1: Read audio file (or extract the audio track from a video)
+      context.update({ state: 'segmenting', message: '오디오 파일 읽는 중' });
+      const isVideo = isSupportedVideoExtension(file.extension);
+      const mediaData = await this.app.vault.readBinary(file);
+      let audioFile: File;
+
+      if (isVideo) {
+        processingNotice.setMessage('동영상에서 오디오 추출 중...');
+        context.update({ message: '동영상에서 오디오 추출 중' });
+        const segmenter = new AudioSegmenter(this.settings.ffmpegPath);
+        const audioBuffer = await segmenter.extractAudioTrack(Buffer.from(mediaData), {
+          targetSampleRateHz: this.settings.processing.targetSampleRateHz,
+          targetChannels: this.settings.processing.targetChannels
+        }, file.extension, context.signal);
+        audioFile = new File([audioBuffer], `${file.basename}.m4a`, { type: 'audio/m4a' });
+      } else {
+        audioFile = new File([mediaData], file.name, { type: getAudioMimeType(file.name) });
+      }
+
+      // Recorded in-app and already transcribed chunk by chunk, or re-summarized from the
+      // exported transcript: only the summary is left
+      const storedTranscript = job.options?.summaryOnly && job.options.notePath
+        ? await this.readTranscriptSidecar(job.options.notePath)
+        : null;
+      const liveTranscript = this.liveTranscripts.get(file.path)
+        || storedTranscript
+        || await this.transcriptionCache.getRecordingTranscript(CheckpointStore.hashContent(mediaData))
+        || undefined;
+
+      // Step 1.5: Convert formats the STT APIs don't accept natively (e.g. opus)
+      if (!liveTranscript && needsTranscoding(audioFile.name)) {
+        processingNotice.setMessage(`오디오 형식 변환 중... (.${file.extension} → .m4a)`);
+        context.update({ message: `오디오 형식 변환 중 (.${file.extension} → .m4a)` });
+        const audioProcessor = new AudioProcessor(this.settings.ffmpegPath);
+        audioFile = await audioProcessor.transcodeToSupportedFormat(audioFile, context.signal);
+      }
 
       // Step 2: Process audio speed if necessary
-      if (this.settings.audioSpeedMultiplier > 1) {
+      let appliedSpeedMultiplier = 1;
+      if (!liveTranscript && this.settings.audioSpeedMultiplier > 1) {
         try {
           processingNotice.setMessage(`오디오 속도 처리 중... (${this.settings.audioSpeedMultiplier}배속)`);
+          context.update({ message: `오디오 속도 처리 중 (${this.settings.audioSpeedMultiplier}배속)` });
           const audioProcessor = new AudioProcessor(this.settings.ffmpegPath);
           
           // Check if ffmpeg is available
@@ -265,54 +1007,95 @@ export default class ATTNPlugin extends Plugin {
             new Notice('⚠️ FFmpeg를 찾을 수 없습니다. 설정에서 FFmpeg 경로를 확인하거나 원본 속도로 처리합니다.');
             console.warn('FFmpeg not available at configured path, processing at original speed');
           } else {
-            audioFile = await audioProcessor.processAudioSpeed(audioFile, this.settings.audioSpeedMultiplier as AudioSpeedOption);
+            audioFile = await audioProcessor.processAudioSpeed(audioFile, this.settings.audioSpeedMultiplier as AudioSpeedOption, context.signal);
+            appliedSpeedMultiplier = this.settings.audioSpeedMultiplier;
             if (this.configLoader.isDebugMode()) {
               console.log(`🔧 ATTN Debug: Audio processed at ${this.settings.audioSpeedMultiplier}x speed`);
             }
           }
         } catch (error) {
+          if (isAbortError(error)) {
+            throw error;
+          }
           console.warn('Audio speed processing failed, using original file:', error);
           new Notice('⚠️ 오디오 속도 처리 실패, 원본으로 진행합니다.');
         }
       }
 
       // Step 3: Process with API service using new provider system
+      context.throwIfCancelled();
       processingNotice.setMessage('음성 인식 및 요약 생성 중...');
       const apiService = new ApiService(this.settings);
-      const result = await apiService.processAudioFile(audioFile, this.settings.systemPrompt);
+      apiService.setProgressCallback((progress) => {
+        context.update({
+          state: STAGE_TO_JOB_STATE[progress.stage],
+          progress: progress.progress,
+          message: progress.currentStep
+        });
+        progressModal.updateProgress(progress);
+      });
+      apiService.setStreamingCallback((result) => progressModal.updateStreaming(result));
+      if (this.transcriptionCache && this.settings.processing?.enableTranscriptionCache !== false) {
+        apiService.setTranscriptionCache(this.transcriptionCache);
+      }
+      // Copies get a new creation time but keep the modification time of the original
+      apiService.setRecordedAt(Math.min(file.stat.ctime, file.stat.mtime));
+      if (liveTranscript) {
+        apiService.setLiveTranscript(liveTranscript);
+      } else if (job.options?.summaryOnly) {
+        apiService.requireCachedTranscription();
+      }
+      const result = await apiService.processAudioFile(audioFile, this.settings.systemPrompt, context.signal);
+      this.liveTranscripts.delete(file.path);
+      context.throwIfCancelled();
 
       // Step 4: Prepare template data
+      // Notes embed the source recording and link each speaker turn to its position in it
+      const timestampSource = { path: file.path, speedMultiplier: appliedSpeedMultiplier };
+      const metadata = this.buildNoteMetadata(file, mediaData, result.transcriptionResult, appliedSpeedMultiplier);
       const templateData = {
         filename: file.name,
         transcript: result.transcript,
         summary: result.summary,
         speakers: this.formatSpeakers(result.transcriptionResult),
-        speakerTranscript: this.formatSpeakerTranscript(result.transcriptionResult),
+        speakerTranscript: this.formatSpeakerTranscript(result.transcriptionResult, timestampSource),
+        mediaEmbed: `![[${file.path}]]`,
+        // Raw lists for {{#each}} blocks in custom templates
+        segments: result.transcriptionResult?.segments || [],
+        speakerList: result.transcriptionResult?.speakers || [],
+        // task, owner and due of each action item, plus the ready-made Tasks plugin line
+        actionItems: (result.actionItems || []).map(item => ({ ...item, line: formatTaskLine(item) })),
+        // Frontmatter values, e.g. {{metadata.duration_sec}} in a template's own frontmatter
+        metadata,
       };
 
       // Step 5: Process templates using TemplateProcessor and TemplateLoader
       const templateProcessor = new TemplateProcessor();
       const templateLoader = new TemplateLoader(this.app.vault);
       
-      // Generate filename using template
-      const generatedFileName = templateProcessor.process(
+      // Generate filename using template; summaries and dates can contain characters file names can't
+      const generatedFileName = sanitizeFileName(templateProcessor.process(
         this.settings.noteFilenameTemplate,
         templateData
-      );
+      ));
       
       // Load content template (from file or fallback to inline template)
       processingNotice.setMessage('템플릿 처리 중...');
+      const templateFile = job.options?.templateFile;
       const contentTemplate = await templateLoader.getTemplateContent(
-        this.settings.useTemplateFile,
-        this.settings.noteContentTemplateFile,
+        templateFile ? true : this.settings.useTemplateFile,
+        templateFile || this.settings.noteContentTemplateFile,
         this.settings.noteContentTemplate
       );
       
       // Generate content using template
-      const generatedContent = templateProcessor.process(
+      let generatedContent = templateProcessor.process(
         contentTemplate,
         templateData
       );
+      if (this.settings.frontmatter?.enabled ?? true) {
+        generatedContent = templateProcessor.addFrontmatter(generatedContent, metadata);
+      }
 
       // Step 4: Construct full file path
       let fullPath: string;
@@ -324,26 +1107,95 @@ export default class ATTNPlugin extends Plugin {
         fullPath = `${cleanFolderPath}/${generatedFileName}.md`;
       }
 
-      // Step 5: Create the note
+      // Step 5: Create the note, or rewrite the one being regenerated
       const noteCreator = new NoteCreator(this.app.vault);
-      await noteCreator.createNote(fullPath, generatedContent);
+      const regeneratedPath = job.options?.notePath;
+      // A regenerated note is merged into or backed up first, so edits made in it aren't lost
+      const saved = regeneratedPath
+        ? await noteCreator.saveNote(regeneratedPath, generatedContent, this.settings.noteCollisionStrategy === 'merge' ? 'merge' : 'backup')
+        : await noteCreator.saveNote(fullPath, generatedContent, this.settings.noteCollisionStrategy || 'suffix');
+      if (saved.action === 'opened') {
+        new Notice(`이미 있는 회의록을 엽니다: ${saved.path}`);
+        this.app.workspace.openLinkText(saved.path, '');
+      } else if (saved.backupPath) {
+        new Notice(`기존 회의록을 백업했습니다: ${saved.backupPath}`);
+      }
+      await this.exportTranscript(noteCreator, saved.path, result.transcriptionResult, appliedSpeedMultiplier);
 
-      // Hide progress notice and show success
+      return saved.path;
+    } catch (error) {
+      progressModal.showError(isAbortError(error) ? CANCELLED_MESSAGE : error instanceof Error ? error.message : String(error));
+      throw error;
+    } finally {
       processingNotice.hide();
-      new Notice(`회의록이 성공적으로 생성되었습니다: ${fullPath}`);
+    }
+  }
 
-    } catch (error) {
-      console.error('오디오 처리 중 오류:', error);
-      
-      let errorMessage = '오디오 처리 중 오류가 발생했습니다.';
-      if (error instanceof Error) {
-        errorMessage += ` ${error.message}`;
+  /**
+   * Write the enabled subtitle and JSON files next to the note. A failed export is reported
+   * but doesn't fail the job, since the note itself was saved.
+   */
+  private async exportTranscript(
+    noteCreator: NoteCreator,
+    notePath: string,
+    transcriptionResult: VerboseTranscriptionResult | undefined,
+    speedMultiplier: number
+  ): Promise<void> {
+    const formats = this.settings.transcriptExport;
+    if (!transcriptionResult || !formats || (!formats.srt && !formats.vtt && !formats.json)) {
+      return;
+    }
+
+    try {
+      const cues = buildSubtitleCues(transcriptionResult, speedMultiplier);
+      if (formats.srt && cues.length > 0) {
+        await noteCreator.overwriteNote(sidecarPath(notePath, 'srt'), toSrt(cues));
       }
-      
-      new Notice(errorMessage);
+      if (formats.vtt && cues.length > 0) {
+        await noteCreator.overwriteNote(sidecarPath(notePath, 'vtt'), toVtt(cues));
+      }
+      if (formats.json) {
+        await noteCreator.overwriteNote(sidecarPath(notePath, 'json'), toTranscriptJson(transcriptionResult, speedMultiplier));
+      }
+      console.log(`📝 Transcript exported next to ${notePath}`);
+    } catch (error) {
+      console.error('Transcript export failed:', error);
+      new Notice(`⚠️ 자막 파일 내보내기 실패: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  /**
+   * Machine-readable facts about a meeting note, written to its frontmatter for Dataview.
+   */
+  private buildNoteMetadata(
+    file: TFile,
+    mediaData: ArrayBuffer,
+    transcription: VerboseTranscriptionResult | undefined,
+    speedMultiplier: number
+  ): Record<string, unknown> {
+    const segments = transcription?.segments || [];
+    // Timestamps of sped-up audio are shorter than the recording by the speed factor
+    const durationSec = (transcription?.duration || segments[segments.length - 1]?.end || 0) * speedMultiplier;
+    const tags = (this.settings.frontmatter?.tags ?? 'meeting')
+      .split(',')
+      .map(tag => tag.trim().replace(/^#/, ''))
+      .filter(Boolean);
+
+    return {
+      source: `[[${file.path}]]`,
+      duration_sec: Math.round(durationSec),
+      language: transcription?.language || this.settings.stt.language,
+      stt_provider: this.settings.stt.provider,
+      stt_model: this.settings.stt.model,
+      summary_provider: this.settings.summary.provider,
+      summary_model: this.settings.summary.model,
+      speakers: (transcription?.speakers || []).map(speaker => speaker.label),
+      processed: moment().format('YYYY-MM-DDTHH:mm:ss'),
+      audio_hash: CheckpointStore.hashContent(mediaData),
+      tags
+    };
+  }
+
   /**
    * Format speakers list for template
    */
@@ -358,19 +1210,30 @@ export default class ATTNPlugin extends Plugin {
   }
 
   /**
-   * Format transcript with speaker labels for template
+   * Format transcript with speaker labels for template.
+   * When a timestamp source is given, each turn is prefixed with a link into that media file.
    */
-  private formatSpeakerTranscript(transcriptionResult: VerboseTranscriptionResult): string {
+  private formatSpeakerTranscript(
+    transcriptionResult: VerboseTranscriptionResult,
+    timestampSource?: { path: string; speedMultiplier: number }
+  ): string {
     if (!transcriptionResult.segments) {
       return transcriptionResult.text || '';
     }
 
-    const groupedSegments = this.groupSegmentsBySpeaker(transcriptionResult.segments);
-    
+    // Without diarization every segment is its own turn, so each one gets a timestamp
+    const hasSpeakers = transcriptionResult.segments.some(segment => segment.speaker);
+    const groupedSegments = hasSpeakers
+      ? this.groupSegmentsBySpeaker(transcriptionResult.segments)
+      : transcriptionResult.segments.map(segment => ({ speaker: undefined, text: segment.text.trim(), start: segment.start || 0 }));
+
     return groupedSegments
       .map(group => {
         const speakerLabel = group.speaker ? `**${group.speaker.label}:** ` : '';
-        return `${speakerLabel}${group.text}`;
+        const timestampLink = timestampSource
+          ? `${formatTimestampLink(timestampSource.path, group.start * timestampSource.speedMultiplier)} `
+          : '';
+        return `${timestampLink}${speakerLabel}${group.text}`;
       })
       .join('\n\n');
   }
@@ -378,9 +1241,9 @@ export default class ATTNPlugin extends Plugin {
   /**
    * Group consecutive segments by the same speaker
    */
-  private groupSegmentsBySpeaker(segments: any[]): Array<{speaker: any, text: string}> {
-    const groups: Array<{speaker: any, text: string}> = [];
-    let currentGroup: {speaker: any, text: string} | null = null;
+  private groupSegmentsBySpeaker(segments: any[]): Array<{speaker: any, text: string, start: number}> {
+    const groups: Array<{speaker: any, text: string, start: number}> = [];
+    let currentGroup: {speaker: any, text: string, start: number} | null = null;
 
     for (const segment of segments) {
       if (!currentGroup || 
@@ -391,7 +1254,8 @@ export default class ATTNPlugin extends Plugin {
         }
         currentGroup = {
           speaker: segment.speaker,
-          text: segment.text
+          text: segment.text,
+          start: segment.start || 0
         };
       } else {
         // Same speaker, append text
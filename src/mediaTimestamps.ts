@@ -0,0 +1,79 @@
+// Wiki link fragment Obsidian uses for media offsets, e.g. [[rec.m4a#t=90]]
+const TIMESTAMP_FRAGMENT = /^(.+)#t=(\d+(?:\.\d+)?)$/;
+
+export interface TimestampTarget {
+  path: string;
+  seconds: number;
+}
+
+/**
+ * Offset as mm:ss, or h:mm:ss from the first hour on (e.g. 95 -> "01:35", 3725 -> "1:02:05")
+ */
+export function formatTimestamp(seconds: number): string {
+  const totalSeconds = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const remainingSeconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(remainingSeconds)}`
+    : `${pad(minutes)}:${pad(remainingSeconds)}`;
+}
+
+/**
+ * Build a link that opens the media file at the given offset (e.g. [[rec.mp4#t=90|01:30]])
+ */
+export function formatTimestampLink(path: string, seconds: number): string {
+  return `[[${path}#t=${Math.max(0, Math.floor(seconds))}|${formatTimestamp(seconds)}]]`;
+}
+
+/**
+ * Read the media path and offset back out of a timestamp link target ("rec.m4a#t=90").
+ */
+export function parseTimestampLink(linktext: string): TimestampTarget | null {
+  const match = TIMESTAMP_FRAGMENT.exec(linktext.trim());
+  if (!match) {
+    return null;
+  }
+  return { path: match[1], seconds: parseFloat(match[2]) };
+}
+
+// Embeds keep the link text as written, so compare paths without a leading slash
+function samePath(a: string, b: string): boolean {
+  return a.replace(/^\/+/, '') === b.replace(/^\/+/, '');
+}
+
+/**
+ * Seek the player of an `![[path]]` embed inside `container` and start playback.
+ * Returns false when the note doesn't embed that file.
+ */
+export function playEmbeddedMedia(container: HTMLElement, target: TimestampTarget): boolean {
+  const embeds = Array.from(container.querySelectorAll<HTMLElement>('.internal-embed[src]'));
+  const embed = embeds.find(element => samePath(element.getAttribute('src') || '', target.path));
+  const player = embed?.querySelector<HTMLMediaElement>('audio, video');
+  if (!player) {
+    return false;
+  }
+
+  player.currentTime = target.seconds;
+  void player.play()?.catch(error => console.warn('Media playback failed:', error));
+  return true;
+}
+
+/**
+ * Click handler for timestamp links in rendered notes. When the note embeds the linked
+ * recording, it plays from that offset in place instead of opening the file in a new tab.
+ */
+export function handleTimestampClick(event: MouseEvent): void {
+  const link = (event.target as HTMLElement | null)?.closest?.<HTMLElement>('a.internal-link');
+  const target = link ? parseTimestampLink(link.getAttribute('data-href') || '') : null;
+  if (!link || !target) {
+    return;
+  }
+
+  const container = link.closest<HTMLElement>('.markdown-preview-view, .markdown-source-view, .markdown-rendered');
+  if (container && playEmbeddedMedia(container, target)) {
+    event.preventDefault();
+    event.stopPropagation();
+  }
+}
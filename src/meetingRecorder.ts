@@ -0,0 +1,316 @@
+import { DataAdapter } from 'obsidian';
+
+const CHUNK_INTERVAL_MS = 10000;
+const LIVE_SEGMENT_SEC = 60;
+const SESSION_FILE = 'session.json';
+const PART_PATTERN = /part-\d+\.bin$/;
+
+// First container the platform can record wins; Electron normally supports WebM/Opus
+const RECORDING_FORMATS: Array<{ mimeType: string; extension: string }> = [
+  { mimeType: 'audio/webm;codecs=opus', extension: 'webm' },
+  { mimeType: 'audio/webm', extension: 'webm' },
+  { mimeType: 'audio/ogg;codecs=opus', extension: 'ogg' },
+  { mimeType: 'audio/mp4', extension: 'm4a' }
+];
+
+export type RecorderState = 'idle' | 'recording' | 'paused';
+
+export interface RecordedAudio {
+  data: ArrayBuffer;
+  extension: string;
+  startedAt: number;
+}
+
+/**
+ * Standalone piece of the recording for live transcription. Unlike the crash-safe parts,
+ * which only decode together, each segment is a complete file of its own.
+ */
+export interface RecordedSegment {
+  index: number;
+  data: Blob;
+  extension: string;
+  startSec: number; // Position in the saved recording, pauses excluded
+  endSec: number;
+}
+
+interface RecordingSession {
+  startedAt: number;
+  mimeType: string;
+  extension: string;
+}
+
+/**
+ * Records the microphone with MediaRecorder. The newest chunk is written to the parts
+ * directory every few seconds, so a recording cut short by a crash or reload can be
+ * rebuilt with `recover()` the next time the plugin loads.
+ */
+export class MeetingRecorder {
+  private adapter: DataAdapter;
+  private dir: string;
+  private state: RecorderState = 'idle';
+  private recorder: MediaRecorder | null = null;
+  private stream: MediaStream | null = null;
+  private session: RecordingSession | null = null;
+  private partCount = 0;
+  private writing: Promise<void> = Promise.resolve();
+  private elapsedBeforePauseMs = 0;
+  private resumedAt = 0;
+  private onSegment?: (segment: RecordedSegment) => void;
+  private segment: { recorder: MediaRecorder; index: number; startSec: number; endSec: number } | null = null;
+  private segmentCount = 0;
+  private segmentTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(adapter: DataAdapter, dir: string) {
+    this.adapter = adapter;
+    this.dir = dir;
+  }
+
+  getState(): RecorderState {
+    return this.state;
+  }
+
+  /**
+   * Recorded time without pauses.
+   */
+  getElapsedMs(): number {
+    if (this.state === 'recording') {
+      return this.elapsedBeforePauseMs + (Date.now() - this.resumedAt);
+    }
+    return this.state === 'paused' ? this.elapsedBeforePauseMs : 0;
+  }
+
+  /**
+   * Start recording. Parts left over from an interrupted recording are discarded, so
+   * callers recover them first. With `onSegment`, a second recorder on the same stream
+   * hands over a standalone segment every minute for live transcription.
+   */
+  async start(onSegment?: (segment: RecordedSegment) => void): Promise<void> {
+    if (this.state !== 'idle') {
+      throw new Error('이미 녹음 중입니다');
+    }
+    if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      throw new Error('이 환경에서는 녹음을 지원하지 않습니다');
+    }
+    const format = RECORDING_FORMATS.find(candidate => MediaRecorder.isTypeSupported(candidate.mimeType));
+    if (!format) {
+      throw new Error('지원되는 녹음 형식이 없습니다');
+    }
+
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    try {
+      await this.clearParts();
+      await this.adapter.mkdir(this.dir);
+      this.session = { startedAt: Date.now(), mimeType: format.mimeType, extension: format.extension };
+      await this.adapter.write(`${this.dir}/${SESSION_FILE}`, JSON.stringify(this.session));
+    } catch (error) {
+      stream.getTracks().forEach(track => track.stop());
+      throw error;
+    }
+
+    const recorder = new MediaRecorder(stream, { mimeType: format.mimeType });
+    recorder.addEventListener('dataavailable', (event: BlobEvent) => {
+      if (event.data.size > 0) {
+        this.savePart(event.data);
+      }
+    });
+
+    this.stream = stream;
+    this.recorder = recorder;
+    this.partCount = 0;
+    this.elapsedBeforePauseMs = 0;
+    this.resumedAt = Date.now();
+    this.state = 'recording';
+    recorder.start(CHUNK_INTERVAL_MS);
+
+    this.onSegment = onSegment;
+    this.segmentCount = 0;
+    if (onSegment) {
+      this.startSegment();
+      this.segmentTimer = setInterval(() => this.rotateSegmentIfDue(), 1000);
+    }
+    console.log(`🎙️ Recording started (${format.mimeType})`);
+  }
+
+  pause(): void {
+    if (this.state !== 'recording' || !this.recorder) {
+      return;
+    }
+    // Flush what was recorded so far before the recorder goes quiet
+    this.recorder.requestData();
+    this.recorder.pause();
+    this.segment?.recorder.pause();
+    this.elapsedBeforePauseMs += Date.now() - this.resumedAt;
+    this.state = 'paused';
+  }
+
+  resume(): void {
+    if (this.state !== 'paused' || !this.recorder) {
+      return;
+    }
+    this.recorder.resume();
+    this.segment?.recorder.resume();
+    this.resumedAt = Date.now();
+    this.state = 'recording';
+  }
+
+  /**
+   * Stop recording and return the assembled audio. The parts stay on disk until
+   * `clearParts()`, so the caller removes them only once the audio has been saved.
+   */
+  async stop(): Promise<RecordedAudio> {
+    const recorder = this.recorder;
+    const session = this.session;
+    if (this.state === 'idle' || !recorder || !session) {
+      throw new Error('녹음 중이 아닙니다');
+    }
+
+    this.clearSegmentTimer();
+    await this.finishSegment();
+
+    // The last dataavailable event is dispatched before stop
+    await new Promise<void>(resolve => {
+      recorder.addEventListener('stop', () => resolve(), { once: true });
+      recorder.stop();
+    });
+    this.releaseStream();
+    await this.writing;
+
+    console.log(`⏹️ Recording stopped after ${Math.round(this.getElapsedMs() / 1000)}s`);
+    this.state = 'idle';
+    return { data: await this.readParts(), extension: session.extension, startedAt: session.startedAt };
+  }
+
+  /**
+   * Stop capturing without assembling the file, e.g. when the plugin unloads. The parts
+   * written so far are picked up by `recover()`.
+   */
+  abandon(): void {
+    this.clearSegmentTimer();
+    this.onSegment = undefined;
+    this.finishSegment();
+    if (this.recorder && this.recorder.state !== 'inactive') {
+      this.recorder.stop();
+    }
+    this.releaseStream();
+    this.state = 'idle';
+  }
+
+  /**
+   * Rebuild a recording that was interrupted before it was stopped, if there is one.
+   */
+  async recover(): Promise<RecordedAudio | null> {
+    if (this.state !== 'idle' || !(await this.adapter.exists(`${this.dir}/${SESSION_FILE}`))) {
+      return null;
+    }
+
+    const session = JSON.parse(await this.adapter.read(`${this.dir}/${SESSION_FILE}`)) as RecordingSession;
+    const data = await this.readParts();
+    if (data.byteLength === 0) {
+      await this.clearParts();
+      return null;
+    }
+    return { data, extension: session.extension, startedAt: session.startedAt };
+  }
+
+  async clearParts(): Promise<void> {
+    if (await this.adapter.exists(this.dir)) {
+      await this.adapter.rmdir(this.dir, true);
+    }
+  }
+
+  private savePart(blob: Blob): void {
+    const path = `${this.dir}/part-${String(this.partCount++).padStart(5, '0')}.bin`;
+    // Chunks are written one after another so the parts stay in recording order
+    this.writing = this.writing
+      .then(async () => this.adapter.writeBinary(path, await blob.arrayBuffer()))
+      .catch(error => console.error('❌ Failed to save recording chunk:', error));
+  }
+
+  private async readParts(): Promise<ArrayBuffer> {
+    const listing = await this.adapter.list(this.dir);
+    const parts = listing.files.filter(path => PART_PATTERN.test(path)).sort();
+    const buffers = await Promise.all(parts.map(path => this.adapter.readBinary(path)));
+
+    const data = new Uint8Array(buffers.reduce((sum, buffer) => sum + buffer.byteLength, 0));
+    let offset = 0;
+    for (const buffer of buffers) {
+      data.set(new Uint8Array(buffer), offset);
+      offset += buffer.byteLength;
+    }
+    return data.buffer;
+  }
+
+  private startSegment(): void {
+    if (!this.stream || !this.session) {
+      return;
+    }
+
+    const { mimeType, extension } = this.session;
+    const recorder = new MediaRecorder(this.stream, { mimeType });
+    const segment = { recorder, index: this.segmentCount++, startSec: this.getElapsedMs() / 1000, endSec: 0 };
+    const blobs: Blob[] = [];
+    recorder.addEventListener('dataavailable', (event: BlobEvent) => {
+      if (event.data.size > 0) {
+        blobs.push(event.data);
+      }
+    });
+    recorder.addEventListener('stop', () => {
+      const data = new Blob(blobs, { type: mimeType });
+      if (data.size > 0) {
+        this.onSegment?.({ index: segment.index, data, extension, startSec: segment.startSec, endSec: segment.endSec });
+      }
+    });
+    recorder.start();
+    this.segment = segment;
+  }
+
+  /**
+   * Close the current segment; resolves once it has been handed to `onSegment`.
+   */
+  private finishSegment(): Promise<void> {
+    const segment = this.segment;
+    this.segment = null;
+    if (!segment || segment.recorder.state === 'inactive') {
+      return Promise.resolve();
+    }
+
+    segment.endSec = this.getElapsedMs() / 1000;
+    return new Promise<void>(resolve => {
+      segment.recorder.addEventListener('stop', () => resolve(), { once: true });
+      segment.recorder.stop();
+    });
+  }
+
+  private rotateSegmentIfDue(): void {
+    if (this.state !== 'recording' || !this.segment) {
+      return;
+    }
+    if (this.getElapsedMs() / 1000 - this.segment.startSec >= LIVE_SEGMENT_SEC) {
+      this.finishSegment();
+      this.startSegment();
+    }
+  }
+
+  private clearSegmentTimer(): void {
+    if (this.segmentTimer) {
+      clearInterval(this.segmentTimer);
+      this.segmentTimer = null;
+    }
+  }
+
+  private releaseStream(): void {
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    this.recorder = null;
+  }
+}
+
+/**
+ * Vault file name for a recording, e.g. "meeting-2024-05-01-1430.webm".
+ */
+export function recordingFileName(startedAt: number, extension: string): string {
+  const date = new Date(startedAt);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+  return `meeting-${stamp}.${extension}`;
+}
@@ -1,4 +1,13 @@
-import { Vault } from 'obsidian';
+import { TFile, Vault } from 'obsidian';
+import { NoteCollisionStrategy } from './types';
+
+const MAX_NAME_ATTEMPTS = 1000;
+
+export interface SavedNote {
+  path: string;
+  action: 'created' | 'renamed' | 'overwritten' | 'opened' | 'merged';
+  backupPath?: string; // Copy of the previous note when it was overwritten
+}
 
 export class NoteCreator {
   private vault: Vault;
@@ -35,4 +44,112 @@ export class NoteCreator {
       throw new Error(`노트 생성 실패: ${error}`);
     }
   }
+
+  /**
+   * Create a new note. When a note already exists at the path, the collision strategy
+   * decides what happens instead of failing:
+   * - suffix: save as "name-2.md", "name-3.md", ...
+   * - backup: copy the existing note to "name (backup <time>).md", then overwrite it
+   * - open: leave the existing note untouched; the caller opens it
+   * - merge: append generated sections whose heading the existing note does not have yet
+   */
+  async saveNote(fullPath: string, content: string, strategy: NoteCollisionStrategy = 'suffix'): Promise<SavedNote> {
+    const existing = this.vault.getAbstractFileByPath(fullPath);
+    if (!existing) {
+      await this.createNote(fullPath, content);
+      return { path: fullPath, action: 'created' };
+    }
+
+    const base = fullPath.replace(/\.md$/, '');
+    // A folder with the note's name can only be avoided by renaming
+    if (!(existing instanceof TFile) || strategy === 'suffix') {
+      const path = this.findAvailablePath(base);
+      await this.createNote(path, content);
+      return { path, action: 'renamed' };
+    }
+
+    if (strategy === 'open') {
+      return { path: fullPath, action: 'opened' };
+    }
+
+    try {
+      const previous = await this.vault.read(existing);
+      if (strategy === 'merge') {
+        const merged = mergeNoteSections(previous, content);
+        if (merged !== previous) {
+          await this.vault.modify(existing, merged);
+        }
+        return { path: fullPath, action: 'merged' };
+      }
+
+      const backupPath = this.findAvailablePath(`${base} (backup ${formatTimestamp(new Date())})`);
+      await this.vault.create(backupPath, previous);
+      await this.vault.modify(existing, content);
+      return { path: fullPath, action: 'overwritten', backupPath };
+    } catch (error) {
+      throw new Error(`노트 수정 실패: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Replace the content of an existing note, e.g. when a meeting note is regenerated.
+   * Falls back to creating it if the note was deleted in the meantime.
+   */
+  async overwriteNote(fullPath: string, content: string): Promise<void> {
+    const existing = this.vault.getAbstractFileByPath(fullPath);
+    if (!(existing instanceof TFile)) {
+      await this.createNote(fullPath, content);
+      return;
+    }
+
+    try {
+      await this.vault.modify(existing, content);
+    } catch (error) {
+      throw new Error(`노트 수정 실패: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private findAvailablePath(base: string): string {
+    if (!this.vault.getAbstractFileByPath(`${base}.md`)) {
+      return `${base}.md`;
+    }
+    for (let counter = 2; counter <= MAX_NAME_ATTEMPTS; counter++) {
+      const candidate = `${base}-${counter}.md`;
+      if (!this.vault.getAbstractFileByPath(candidate)) {
+        return candidate;
+      }
+    }
+    throw new Error(`노트 생성 실패: 사용할 수 있는 파일 이름이 없습니다 (${base}.md)`);
+  }
+}
+
+/**
+ * Keep the existing note, including the user's edits, and append the generated
+ * sections whose heading it does not contain yet. Text before the first heading is
+ * only taken from the existing note.
+ */
+export function mergeNoteSections(existing: string, generated: string): string {
+  const existingHeadings = new Set(splitSections(existing).map(section => section.heading).filter(Boolean));
+  const newSections = splitSections(generated).filter(section => section.heading && !existingHeadings.has(section.heading));
+  if (newSections.length === 0) {
+    return existing;
+  }
+  return `${existing.replace(/\s+$/, '')}\n\n${newSections.map(section => section.text.replace(/\s+$/, '')).join('\n\n')}\n`;
+}
+
+function splitSections(content: string): Array<{ heading: string; text: string }> {
+  const sections: Array<{ heading: string; lines: string[] }> = [{ heading: '', lines: [] }];
+  for (const line of content.split('\n')) {
+    if (/^#{1,6}\s/.test(line)) {
+      sections.push({ heading: line.trim(), lines: [line] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+  return sections.map(section => ({ heading: section.heading, text: section.lines.join('\n') }));
+}
+
+function formatTimestamp(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
 }
\ No newline at end of file
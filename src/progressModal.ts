@@ -0,0 +1,155 @@
+import { App, Modal } from 'obsidian';
+import { PerformanceMetrics, ProcessingProgress, StreamingResult } from './types';
+
+const STAGE_LABELS: Record<ProcessingProgress['stage'], string> = {
+  segmentation: '✂️ 오디오 준비 중',
+  transcription: '🎙️ 음성 인식 중',
+  summarization: '📝 요약 중',
+  complete: '✅ 완료'
+};
+
+// Only the tail of a long transcript is shown; the full text ends up in the note
+const MAX_PREVIEW_CHARS = 4000;
+
+/**
+ * Live view of one processing job: stage, chunk count, ETA, the transcript and summary
+ * as they stream in, and the performance metrics once the job completes. Closing the
+ * modal does not stop the job; it keeps collecting updates and can be reopened.
+ */
+export class ProcessingProgressModal extends Modal {
+  private fileName: string;
+  private onCancel?: () => void;
+  private progress?: ProcessingProgress;
+  private partialTranscript = '';
+  private partialSummary = '';
+  private metrics?: PerformanceMetrics;
+  private errorMessage?: string;
+  private isOpen = false;
+
+  private statusEl?: HTMLElement;
+  private etaEl?: HTMLElement;
+  private progressBarEl?: HTMLProgressElement;
+  private transcriptEl?: HTMLElement;
+  private summaryEl?: HTMLElement;
+  private metricsEl?: HTMLElement;
+  private cancelButton?: HTMLButtonElement;
+
+  constructor(app: App, fileName: string, onCancel?: () => void) {
+    super(app);
+    this.fileName = fileName;
+    this.onCancel = onCancel;
+  }
+
+  onOpen(): void {
+    this.isOpen = true;
+    this.titleEl.setText(`ATTN 처리 현황: ${this.fileName}`);
+
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('attn-progress-modal');
+
+    this.statusEl = contentEl.createDiv({ cls: 'attn-progress-status' });
+    this.progressBarEl = contentEl.createEl('progress', { cls: 'attn-progress-bar' });
+    this.progressBarEl.max = 100;
+    this.etaEl = contentEl.createDiv({ cls: 'attn-progress-eta' });
+
+    contentEl.createEl('h4', { text: '음성 인식 결과' });
+    this.transcriptEl = contentEl.createDiv({ cls: 'attn-progress-transcript' });
+    contentEl.createEl('h4', { text: '요약' });
+    this.summaryEl = contentEl.createDiv({ cls: 'attn-progress-summary' });
+    this.metricsEl = contentEl.createDiv({ cls: 'attn-progress-metrics' });
+
+    const actions = contentEl.createDiv({ cls: 'attn-progress-actions' });
+    if (this.onCancel) {
+      this.cancelButton = actions.createEl('button', { text: '취소' });
+      this.cancelButton.addEventListener('click', () => this.onCancel?.());
+    }
+    actions.createEl('button', { text: '닫기' }).addEventListener('click', () => this.close());
+
+    this.refresh();
+  }
+
+  onClose(): void {
+    this.isOpen = false;
+    this.contentEl.empty();
+  }
+
+  updateProgress(progress: ProcessingProgress): void {
+    this.progress = progress;
+    if (progress.stage === 'complete' && progress.performanceMetrics) {
+      this.metrics = progress.performanceMetrics;
+    }
+    this.refresh();
+  }
+
+  updateStreaming(result: StreamingResult): void {
+    if (result.partialTranscript !== undefined) {
+      this.partialTranscript = result.partialTranscript;
+    }
+    if (result.partialSummary !== undefined) {
+      this.partialSummary = result.partialSummary;
+    }
+    this.updateProgress(result.progress);
+  }
+
+  showError(message: string): void {
+    this.errorMessage = message;
+    this.refresh();
+  }
+
+  private refresh(): void {
+    if (!this.isOpen) {
+      return;
+    }
+
+    const progress = this.progress;
+    const finished = progress?.stage === 'complete' || this.errorMessage !== undefined;
+
+    if (this.errorMessage !== undefined) {
+      this.statusEl?.setText(`❌ ${this.errorMessage}`);
+    } else if (progress) {
+      const steps = progress.totalSteps > 1 ? ` (${progress.completedSteps}/${progress.totalSteps})` : '';
+      this.statusEl?.setText(`${STAGE_LABELS[progress.stage]}${steps} · ${progress.currentStep}`);
+    } else {
+      this.statusEl?.setText('⏳ 처리 준비 중');
+    }
+
+    if (this.progressBarEl) {
+      this.progressBarEl.value = progress?.progress ?? 0;
+    }
+    this.etaEl?.setText(!finished && progress?.estimatedTimeRemaining !== undefined
+      ? `남은 시간: 약 ${this.formatDuration(progress.estimatedTimeRemaining * 1000)}`
+      : '');
+
+    this.transcriptEl?.setText(this.preview(this.partialTranscript) || '아직 인식된 내용이 없습니다.');
+    this.summaryEl?.setText(this.preview(this.partialSummary) || '아직 생성된 요약이 없습니다.');
+
+    this.metricsEl?.empty();
+    if (this.metrics && this.metricsEl) {
+      this.metricsEl.createEl('h4', { text: '처리 통계' });
+      const list = this.metricsEl.createEl('ul');
+      list.createEl('li', { text: `전체 처리 시간: ${this.formatDuration(this.metrics.totalProcessingTime)}` });
+      list.createEl('li', { text: `음성 인식: ${this.formatDuration(this.metrics.transcriptionTime)}` });
+      list.createEl('li', { text: `요약: ${this.formatDuration(this.metrics.summarizationTime)}` });
+      if (this.metrics.parallelBatches > 0) {
+        list.createEl('li', { text: `병렬 배치: ${this.metrics.parallelBatches}개 (평균 ${this.metrics.averageBatchSize.toFixed(1)}개 구간)` });
+      }
+      if (this.metrics.errorRate > 0) {
+        list.createEl('li', { text: `오류율: ${this.metrics.errorRate.toFixed(1)}%` });
+      }
+    }
+
+    this.cancelButton?.toggle(!finished);
+  }
+
+  private preview(text: string): string {
+    return text.length > MAX_PREVIEW_CHARS ? `…${text.slice(-MAX_PREVIEW_CHARS)}` : text;
+  }
+
+  private formatDuration(ms: number): string {
+    const totalSeconds = Math.max(0, Math.round(ms / 1000));
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return minutes > 0 ? `${minutes}분 ${seconds}초` : `${seconds}초`;
+  }
+}
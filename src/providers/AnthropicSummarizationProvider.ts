@@ -0,0 +1,256 @@
+import { SummarizationProvider, SummarySettings, VerboseTranscriptionResult } from '../types';
+import { sleepWithSignal } from '../cancellation';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// The parts of a Messages API response the summary is read from
+interface AnthropicMessageResponse {
+  content?: Array<{ type: string; text?: string }>;
+  stop_reason?: string;
+}
+
+interface AnthropicErrorBody {
+  error?: { type?: string; message?: string };
+}
+
+interface AnthropicApiError extends Error {
+  status?: number;
+  retryAfter?: string | null;
+  code?: string;
+  response?: { status: number; statusText: string; data: AnthropicErrorBody | undefined };
+}
+
+/**
+ * Total context window of a Claude model. Every current Claude model has 200k tokens.
+ */
+export function getClaudeContextTokens(model: string): number {
+  return model.toLowerCase().startsWith('claude') ? 200000 : 100000;
+}
+
+export class AnthropicSummarizationProvider implements SummarizationProvider {
+  private settings: SummarySettings;
+  private baseUrl: string;
+  private maxRetries = 3;
+
+  constructor(settings: SummarySettings) {
+    this.settings = settings;
+    this.baseUrl = (settings.baseUrl || 'https://api.anthropic.com').replace(/\/+$/, '');
+  }
+
+  async summarize(
+    input: {
+      text: string;
+      segments?: VerboseTranscriptionResult['segments'];
+      language?: string;
+    },
+    options: { model?: string; systemPrompt?: string; signal?: AbortSignal }
+  ): Promise<string> {
+    const apiKey = this.settings.apiKey || this.getApiKeyFromEnv();
+    if (!apiKey) {
+      throw new Error('Anthropic API key is required');
+    }
+
+    const model = options.model || this.settings.model || 'claude-sonnet-4-5';
+    const maxTokens = this.getMaxTokensForModel(model);
+    const maxOutputTokens = 8192;
+    const estimatedInputTokens = this.estimateTokens(input.text);
+
+    // Create enhanced prompt with segment information if available
+    let userPrompt = `다음 회의 내용을 정리해주세요:\n\n${input.text}`;
+
+    if (input.segments && input.segments.length > 0 && estimatedInputTokens < maxTokens * 0.6) {
+      userPrompt += '\n\n시간별 구간 정보:\n';
+      let segmentInfo = '';
+      for (const segment of input.segments) {
+        const startTime = this.formatTime(segment.start);
+        const endTime = this.formatTime(segment.end);
+        const segmentText = segment.text.length > 100 ? segment.text.substring(0, 100) + '...' : segment.text;
+        const newSegmentInfo = `${startTime}-${endTime}: ${segmentText}\n`;
+
+        if (this.estimateTokens(userPrompt + segmentInfo + newSegmentInfo) > maxTokens * 0.8) {
+          break; // Stop adding segments if we're approaching token limit
+        }
+        segmentInfo += newSegmentInfo;
+      }
+
+      if (segmentInfo) {
+        userPrompt += segmentInfo + '\n위 시간대별 정보를 참고하여 더욱 구체적인 회의록을 작성해주세요.';
+      }
+    }
+
+    // Leave room for the response inside the model's context window
+    const maxInputTokens = maxTokens - maxOutputTokens - 1000;
+
+    if (this.estimateTokens(userPrompt) > maxInputTokens) {
+      const targetLength = Math.floor(maxInputTokens * 2); // ~2 characters per token, see estimateTokens
+      const truncatedText = input.text.substring(0, targetLength * 0.9); // Leave room for prompt text
+
+      console.log('🔍 TEXT TRUNCATION:', {
+        originalLength: input.text.length,
+        targetLength: targetLength * 0.9,
+        truncatedLength: truncatedText.length,
+        estimatedTokens: this.estimateTokens(truncatedText)
+      });
+
+      userPrompt = `다음 회의 내용을 정리해주세요 (긴 내용으로 인해 일부만 표시):\n\n${truncatedText}\n\n[회의가 계속되었지만 토큰 제한으로 인해 생략되었습니다. 위 내용을 바탕으로 회의록을 작성해주세요.]`;
+    }
+
+    // The user's configured prompt goes into Claude's dedicated system parameter
+    const systemPrompt = options.systemPrompt?.trim() ||
+      '당신은 회의록 정리 전문가입니다. 주어진 회의 내용을 체계적으로 정리하여 명확하고 유용한 회의록을 작성해주세요. 시간별 구간 정보가 있다면 이를 활용하여 더욱 상세하고 구조화된 회의록을 만들어주세요.';
+
+    console.log('🔍 TOKEN CALCULATION:', {
+      model,
+      maxTokens,
+      inputTokens: this.estimateTokens(systemPrompt + userPrompt),
+      maxOutputTokens,
+      inputLength: userPrompt.length
+    });
+
+    const requestBody = {
+      model,
+      system: systemPrompt,
+      messages: [
+        { role: 'user', content: userPrompt }
+      ],
+      temperature: 0.3,
+      max_tokens: maxOutputTokens,
+    };
+
+    const result = await this.createMessageWithRetry(apiKey, requestBody, options.signal);
+
+    const summary = (result.content || [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('');
+
+    if (!summary && (!result.content || result.content.length === 0)) {
+      throw new Error('No response from Anthropic API');
+    }
+
+    if (result.stop_reason === 'max_tokens') {
+      console.warn('Claude summary was cut off at the output token limit:', { model, maxOutputTokens });
+    }
+
+    return summary;
+  }
+
+  private async createMessageWithRetry(apiKey: string, requestBody: unknown, signal?: AbortSignal): Promise<AnthropicMessageResponse> {
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      const response = await fetch(`${this.baseUrl}/v1/messages`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify(requestBody),
+        signal
+      });
+
+      if (response.ok) {
+        return await response.json();
+      }
+
+      try {
+        await this.handleApiError(response);
+      } catch (error) {
+        const status = (error as AnthropicApiError).status;
+        if (this.shouldRetry(status) && attempt < this.maxRetries) {
+          const delayMs = this.getRetryDelay(error as AnthropicApiError, attempt);
+          console.warn(`Anthropic API error (${status}), retrying in ${delayMs}ms (attempt ${attempt}/${this.maxRetries})`);
+          await this.sleep(delayMs, signal);
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    throw new Error('Anthropic retry logic error');
+  }
+
+  private shouldRetry(status?: number): boolean {
+    // Rate limits and transient server errors (529 = overloaded)
+    return status === 429 || (status !== undefined && status >= 500 && status < 600);
+  }
+
+  private getRetryDelay(error: AnthropicApiError, attempt: number): number {
+    const retryAfter = Number(error.retryAfter);
+    if (retryAfter > 0) {
+      return Math.min(retryAfter * 1000, 60000);
+    }
+    return Math.min(1000 * Math.pow(2, attempt - 1), 8000); // Exponential backoff: 1s, 2s, 4s
+  }
+
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return sleepWithSignal(ms, signal);
+  }
+
+  private formatTime(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = Math.floor(seconds % 60);
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  }
+
+  private getApiKeyFromEnv(): string | undefined {
+    return process.env.ANTHROPIC_API_KEY;
+  }
+
+  private estimateTokens(text: string): number {
+    // Ultra conservative estimation for Korean text: ~2 characters per token
+    return Math.ceil(text.length / 2);
+  }
+
+  private getMaxTokensForModel(model: string): number {
+    return getClaudeContextTokens(model);
+  }
+
+  private async handleApiError(response: Response): Promise<never> {
+    const status = response.status;
+    const statusText = response.statusText;
+
+    let errorData: AnthropicErrorBody | undefined;
+    let errorMessage = `Anthropic API error: ${status} ${statusText}`;
+
+    try {
+      errorData = await response.json();
+      if (errorData?.error?.message) {
+        errorMessage = errorData.error.message;
+      }
+    } catch {
+      // If JSON parsing fails, try text
+      try {
+        const textResponse = await response.text();
+        if (textResponse) {
+          errorMessage = textResponse;
+        }
+      } catch {
+        // Keep default error message
+      }
+    }
+
+    console.error('Anthropic API Error Details:', {
+      status,
+      message: errorMessage,
+      type: errorData?.error?.type,
+      model: this.settings.model
+    });
+
+    // Create enhanced error with status and response data for retry logic
+    const error = new Error(`Anthropic API error (${status}): ${errorMessage}`) as AnthropicApiError;
+    error.status = status;
+    error.retryAfter = response.headers?.get('retry-after');
+    error.response = {
+      status,
+      statusText,
+      data: errorData
+    };
+
+    // Add error code for network-level errors
+    if (status >= 500) {
+      error.code = `HTTP_${status}`;
+    }
+
+    throw error;
+  }
+}
@@ -1,22 +1,289 @@
-import { SpeechToTextProvider, SttSettings, VerboseTranscriptionResult } from '../types';
+import { SpeechToTextProvider, SttSettings, TranscriptionSegment, VerboseTranscriptionResult } from '../types';
+import { getAudioFormat, getFileExtension } from '../audioFormats';
+
+// Requests larger than this must go through the Files API instead of inline data
+const INLINE_AUDIO_LIMIT_BYTES = 15 * 1024 * 1024;
+
+// The parts of a generateContent response the transcript is read from
+interface GeminiGenerateContentResponse {
+  promptFeedback?: { blockReason?: string };
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string }> };
+    finishReason?: string;
+  }>;
+}
+
+interface GeminiApiError extends Error {
+  status?: number;
+  code?: string;
+  response?: { status: number; statusText: string; data: unknown };
+}
 
 export class GeminiSttProvider implements SpeechToTextProvider {
   private settings: SttSettings;
+  private baseUrl: string;
 
   constructor(settings: SttSettings) {
     this.settings = settings;
+    this.baseUrl = (settings.baseUrl || 'https://generativelanguage.googleapis.com').replace(/\/+$/, '');
   }
 
   async transcribe(
-    input: ArrayBuffer | Buffer | string, 
-    options: { format: 'verbose_json' | 'text'; language?: string; model?: string }
+    input: ArrayBuffer | Buffer | string,
+    options: { format: 'verbose_json' | 'text'; language?: string; model?: string; fileName?: string; signal?: AbortSignal }
   ): Promise<VerboseTranscriptionResult> {
-    // TODO: Implement Gemini speech-to-text API integration
-    // This is a stub implementation for testing the provider pattern
-    
-    throw new Error('Gemini STT provider not yet implemented. Please use OpenAI or Local Whisper providers.');
-    
-    // Future implementation would call Gemini Speech-to-Text API
-    // and return properly formatted VerboseTranscriptionResult
-  }
-}
\ No newline at end of file
+    const apiKey = this.settings.apiKey || this.getApiKeyFromEnv();
+    if (!apiKey) {
+      throw new Error('Gemini API key is required');
+    }
+
+    const model = options.model || this.settings.model || 'gemini-1.5-flash';
+    const language = options.language || this.settings.language;
+    const audio = this.convertToBuffer(input);
+    const mimeType = this.getMimeType(options.fileName);
+
+    const audioPart = audio.length > INLINE_AUDIO_LIMIT_BYTES
+      ? { file_data: { mime_type: mimeType, file_uri: await this.uploadFile(audio, mimeType, apiKey, options.signal) } }
+      : { inline_data: { mime_type: mimeType, data: audio.toString('base64') } };
+
+    const response = await fetch(`${this.baseUrl}/v1beta/models/${model}:generateContent`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': apiKey,
+      },
+      body: JSON.stringify({
+        contents: [{
+          role: 'user',
+          parts: [
+            { text: this.buildPrompt(options.format, language) },
+            audioPart
+          ]
+        }],
+        generationConfig: {
+          temperature: 0,
+          response_mime_type: options.format === 'verbose_json' ? 'application/json' : 'text/plain'
+        }
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      await this.handleApiError(response);
+    }
+
+    const result = await response.json();
+    const text = this.extractText(result);
+
+    if (options.format !== 'verbose_json') {
+      return {
+        text: text.trim(),
+        segments: [],
+        raw: result
+      };
+    }
+
+    const segments = this.parseSegments(text);
+    if (segments.length === 0) {
+      console.warn('Gemini STT returned no segments:', text.substring(0, 200));
+    }
+
+    return {
+      text: segments.map(segment => segment.text).join(' ').trim(),
+      language,
+      duration: segments.length > 0 ? segments[segments.length - 1].end : undefined,
+      segments,
+      raw: result
+    };
+  }
+
+  private buildPrompt(format: 'verbose_json' | 'text', language?: string): string {
+    const languageHint = language
+      ? `The audio is spoken in "${language}". Transcribe it in that language without translating.`
+      : 'Transcribe the audio in the language it is spoken, without translating.';
+
+    if (format !== 'verbose_json') {
+      return `${languageHint} Return only the verbatim transcript as plain text.`;
+    }
+
+    return [
+      languageHint,
+      'Return a JSON object of the form {"segments": [{"start": number, "end": number, "text": string}]}.',
+      '"start" and "end" are offsets from the beginning of the audio in seconds.',
+      'Split segments at sentence boundaries or pauses, keep them in chronological order, and do not summarize.'
+    ].join(' ');
+  }
+
+  private async uploadFile(audio: Buffer, mimeType: string, apiKey: string, signal?: AbortSignal): Promise<string> {
+    // Resumable upload: the first request reserves an upload URL, the second sends the bytes
+    const startResponse = await fetch(`${this.baseUrl}/upload/v1beta/files`, {
+      method: 'POST',
+      headers: {
+        'x-goog-api-key': apiKey,
+        'X-Goog-Upload-Protocol': 'resumable',
+        'X-Goog-Upload-Command': 'start',
+        'X-Goog-Upload-Header-Content-Length': audio.length.toString(),
+        'X-Goog-Upload-Header-Content-Type': mimeType,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ file: { display_name: `attn-audio-${Date.now()}` } }),
+      signal
+    });
+
+    if (!startResponse.ok) {
+      await this.handleApiError(startResponse);
+    }
+
+    const uploadUrl = startResponse.headers.get('x-goog-upload-url');
+    if (!uploadUrl) {
+      throw new Error('Gemini file upload did not return an upload URL');
+    }
+
+    const uploadResponse = await fetch(uploadUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Length': audio.length.toString(),
+        'X-Goog-Upload-Offset': '0',
+        'X-Goog-Upload-Command': 'upload, finalize',
+      },
+      body: audio,
+      signal
+    });
+
+    if (!uploadResponse.ok) {
+      await this.handleApiError(uploadResponse);
+    }
+
+    const uploaded = await uploadResponse.json();
+    const fileUri = uploaded.file?.uri;
+    if (!fileUri) {
+      throw new Error('Gemini file upload did not return a file URI');
+    }
+    return fileUri;
+  }
+
+  private extractText(result: GeminiGenerateContentResponse): string {
+    const blockReason = result.promptFeedback?.blockReason;
+    if (blockReason) {
+      throw new Error(`Gemini STT request was blocked: ${blockReason}`);
+    }
+
+    const candidate = result.candidates?.[0];
+    const text = (candidate?.content?.parts || [])
+      .map(part => part.text || '')
+      .join('');
+
+    if (!text && candidate?.finishReason && candidate.finishReason !== 'STOP') {
+      throw new Error(`Gemini STT returned no transcript (finish reason: ${candidate.finishReason})`);
+    }
+
+    return text;
+  }
+
+  private parseSegments(text: string): TranscriptionSegment[] {
+    let parsed: unknown;
+    try {
+      // Models occasionally wrap JSON in a markdown code fence despite the response MIME type
+      parsed = JSON.parse(text.replace(/^\s*```(?:json)?\s*/, '').replace(/\s*```\s*$/, ''));
+    } catch (error) {
+      // Fall back to a single untimed segment rather than losing the transcript
+      return text.trim() ? [{ id: 0, start: 0, end: 0, text: text.trim() }] : [];
+    }
+
+    const container = parsed as { segments?: unknown } | null;
+    const rawSegments: unknown = Array.isArray(parsed) ? parsed : container?.segments;
+    if (!Array.isArray(rawSegments)) {
+      return [];
+    }
+    return rawSegments
+      .filter((segment): segment is { text: string; start?: unknown; end?: unknown } =>
+        typeof segment?.text === 'string' && segment.text.trim() !== '')
+      .map((segment, index) => {
+        const start = this.parseTimestamp(segment.start);
+        const end = Math.max(start, this.parseTimestamp(segment.end));
+        return { id: index, start, end, text: segment.text.trim() };
+      });
+  }
+
+  private parseTimestamp(value: unknown): number {
+    if (typeof value === 'number') {
+      return value;
+    }
+    if (typeof value === 'string') {
+      // Accept "SS", "MM:SS" and "HH:MM:SS" in case the model ignores the numeric format
+      return value.split(':').reduce((total, part) => total * 60 + (parseFloat(part) || 0), 0);
+    }
+    return 0;
+  }
+
+  private convertToBuffer(input: ArrayBuffer | Buffer | string): Buffer {
+    if (typeof input === 'string') {
+      // Assume base64 encoded audio data
+      return Buffer.from(input, 'base64');
+    } else if (input instanceof ArrayBuffer) {
+      return Buffer.from(new Uint8Array(input));
+    }
+    return Buffer.from(input);
+  }
+
+  private getMimeType(fileName?: string): string {
+    const format = fileName ? getAudioFormat(getFileExtension(fileName)) : undefined;
+    if (format && format.sttNative && format.extension !== 'm4a') {
+      return format.mimeType;
+    }
+    // M4A (and transcoded chunks) are AAC in an MP4 container
+    return 'audio/mp4';
+  }
+
+  private getApiKeyFromEnv(): string | undefined {
+    return process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY;
+  }
+
+  private async handleApiError(response: Response): Promise<never> {
+    const status = response.status;
+    const statusText = response.statusText;
+
+    let errorData: { error?: { message?: string; status?: string } } | undefined;
+    let errorMessage = `Gemini API error: ${status} ${statusText}`;
+
+    try {
+      errorData = await response.json();
+      if (errorData?.error?.message) {
+        errorMessage = errorData.error.message;
+      }
+    } catch {
+      // If JSON parsing fails, try text
+      try {
+        const textResponse = await response.text();
+        if (textResponse) {
+          errorMessage = textResponse;
+        }
+      } catch {
+        // Keep default error message
+      }
+    }
+
+    console.error('Gemini STT API Error:', {
+      status,
+      message: errorMessage,
+      type: errorData?.error?.status,
+      model: this.settings.model
+    });
+
+    // Create enhanced error with status and response data for retry logic
+    const error = new Error(`Gemini STT API error (${status}): ${errorMessage}`) as GeminiApiError;
+    error.status = status;
+    error.response = {
+      status,
+      statusText,
+      data: errorData
+    };
+
+    // Add error code for network-level errors
+    if (status >= 500) {
+      error.code = `HTTP_${status}`;
+    }
+
+    throw error;
+  }
+}
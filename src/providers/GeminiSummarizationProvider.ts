@@ -1,26 +1,293 @@
 import { SummarizationProvider, SummarySettings, VerboseTranscriptionResult } from '../types';
+import { sleepWithSignal } from '../cancellation';
+
+// The parts of a generateContent response the summary is read from
+interface GeminiGenerateContentResponse {
+  promptFeedback?: { blockReason?: string };
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string }> };
+    finishReason?: string;
+  }>;
+}
+
+interface GeminiErrorBody {
+  error?: { message?: string; status?: string; details?: Array<{ retryDelay?: unknown }> };
+}
+
+interface GeminiApiError extends Error {
+  status?: number;
+  retryAfter?: string | null;
+  code?: string;
+  response?: { status: number; statusText: string; data: GeminiErrorBody | undefined };
+}
+
+/**
+ * Total context window (input + output) of a Gemini model, or a conservative default.
+ */
+export function getGeminiContextTokens(model: string): number {
+  const modelLimits: Record<string, number> = {
+    'gemini-1.5-pro': 2000000,
+    'gemini-1.5-flash': 1000000,
+    'gemini-2.0-flash': 1000000,
+    'gemini-2.5-pro': 1000000,
+    'gemini-2.5-flash': 1000000,
+    'gemini-pro': 30000,
+  };
+
+  // Find matching model or use conservative default
+  const matchingModel = Object.keys(modelLimits).find(key => model.toLowerCase().includes(key));
+  return matchingModel ? modelLimits[matchingModel] : 30000;
+}
 
 export class GeminiSummarizationProvider implements SummarizationProvider {
   private settings: SummarySettings;
+  private baseUrl: string;
+  private maxRetries = 3;
 
   constructor(settings: SummarySettings) {
     this.settings = settings;
+    this.baseUrl = (settings.baseUrl || 'https://generativelanguage.googleapis.com').replace(/\/+$/, '');
   }
 
   async summarize(
-    input: { 
-      text: string; 
-      segments?: VerboseTranscriptionResult['segments']; 
-      language?: string; 
-    }, 
-    options: { model?: string }
+    input: {
+      text: string;
+      segments?: VerboseTranscriptionResult['segments'];
+      language?: string;
+    },
+    options: { model?: string; systemPrompt?: string; signal?: AbortSignal }
   ): Promise<string> {
-    // TODO: Implement Gemini API integration for summarization
-    // This is a stub implementation for testing the provider pattern
-    
-    throw new Error('Gemini summarization provider not yet implemented. Please use OpenAI or Local LLM providers.');
-    
-    // Future implementation would call Gemini API
-    // and return the summary string
-  }
-}
\ No newline at end of file
+    const apiKey = this.settings.apiKey || this.getApiKeyFromEnv();
+    if (!apiKey) {
+      throw new Error('Gemini API key is required');
+    }
+
+    const model = options.model || this.settings.model || 'gemini-1.5-flash';
+    const maxTokens = this.getMaxTokensForModel(model);
+    const maxOutputTokens = this.getMaxOutputTokensForModel(model);
+    const estimatedInputTokens = this.estimateTokens(input.text);
+
+    // Create enhanced prompt with segment information if available
+    let userPrompt = `다음 회의 내용을 정리해주세요:\n\n${input.text}`;
+
+    if (input.segments && input.segments.length > 0 && estimatedInputTokens < maxTokens * 0.6) {
+      // Long-context models can afford the full timeline, so segments are only capped by the token budget
+      userPrompt += '\n\n시간별 구간 정보:\n';
+      let segmentInfo = '';
+      for (const segment of input.segments) {
+        const startTime = this.formatTime(segment.start);
+        const endTime = this.formatTime(segment.end);
+        const segmentText = segment.text.length > 100 ? segment.text.substring(0, 100) + '...' : segment.text;
+        const newSegmentInfo = `${startTime}-${endTime}: ${segmentText}\n`;
+
+        if (this.estimateTokens(userPrompt + segmentInfo + newSegmentInfo) > maxTokens * 0.8) {
+          break; // Stop adding segments if we're approaching token limit
+        }
+        segmentInfo += newSegmentInfo;
+      }
+
+      if (segmentInfo) {
+        userPrompt += segmentInfo + '\n위 시간대별 정보를 참고하여 더욱 구체적인 회의록을 작성해주세요.';
+      }
+    }
+
+    // Leave room for the response inside the model's context window
+    const maxInputTokens = maxTokens - maxOutputTokens - 1000;
+
+    if (this.estimateTokens(userPrompt) > maxInputTokens) {
+      const targetLength = Math.floor(maxInputTokens * 2); // ~2 characters per token, see estimateTokens
+      const truncatedText = input.text.substring(0, targetLength * 0.9); // Leave room for prompt text
+
+      console.log('🔍 TEXT TRUNCATION:', {
+        originalLength: input.text.length,
+        targetLength: targetLength * 0.9,
+        truncatedLength: truncatedText.length,
+        estimatedTokens: this.estimateTokens(truncatedText)
+      });
+
+      userPrompt = `다음 회의 내용을 정리해주세요 (긴 내용으로 인해 일부만 표시):\n\n${truncatedText}\n\n[회의가 계속되었지만 토큰 제한으로 인해 생략되었습니다. 위 내용을 바탕으로 회의록을 작성해주세요.]`;
+    }
+
+    // The user's configured prompt goes into Gemini's systemInstruction
+    const systemPrompt = options.systemPrompt?.trim() ||
+      '당신은 회의록 정리 전문가입니다. 주어진 회의 내용을 체계적으로 정리하여 명확하고 유용한 회의록을 작성해주세요. 시간별 구간 정보가 있다면 이를 활용하여 더욱 상세하고 구조화된 회의록을 만들어주세요.';
+
+    console.log('🔍 TOKEN CALCULATION:', {
+      model,
+      maxTokens,
+      inputTokens: this.estimateTokens(systemPrompt + userPrompt),
+      maxOutputTokens,
+      inputLength: userPrompt.length
+    });
+
+    const requestBody = {
+      systemInstruction: {
+        parts: [{ text: systemPrompt }]
+      },
+      contents: [{
+        role: 'user',
+        parts: [{ text: userPrompt }]
+      }],
+      generationConfig: {
+        temperature: 0.3,
+        maxOutputTokens
+      }
+    };
+
+    const result = await this.generateContentWithRetry(model, apiKey, requestBody, options.signal);
+
+    const blockReason = result.promptFeedback?.blockReason;
+    if (blockReason) {
+      throw new Error(`Gemini summarization request was blocked: ${blockReason}`);
+    }
+
+    const candidate = result.candidates?.[0];
+    if (!candidate) {
+      throw new Error('No response from Gemini API');
+    }
+
+    const summary = (candidate.content?.parts || [])
+      .map(part => part.text || '')
+      .join('');
+
+    if (candidate.finishReason === 'MAX_TOKENS') {
+      console.warn('Gemini summary was cut off at the output token limit:', { model, maxOutputTokens });
+    }
+
+    return summary;
+  }
+
+  private async generateContentWithRetry(model: string, apiKey: string, requestBody: unknown, signal?: AbortSignal): Promise<GeminiGenerateContentResponse> {
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      const response = await fetch(`${this.baseUrl}/v1beta/models/${model}:generateContent`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': apiKey,
+        },
+        body: JSON.stringify(requestBody),
+        signal
+      });
+
+      if (response.ok) {
+        return await response.json();
+      }
+
+      try {
+        await this.handleApiError(response, model);
+      } catch (error) {
+        const status = (error as GeminiApiError).status;
+        if (this.shouldRetry(status) && attempt < this.maxRetries) {
+          const delayMs = this.getRetryDelay(error as GeminiApiError, attempt);
+          console.warn(`Gemini API error (${status}), retrying in ${delayMs}ms (attempt ${attempt}/${this.maxRetries})`);
+          await this.sleep(delayMs, signal);
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    throw new Error('Gemini retry logic error');
+  }
+
+  private shouldRetry(status?: number): boolean {
+    // Rate limits and transient server errors
+    return status === 429 || (status !== undefined && status >= 500 && status < 600);
+  }
+
+  private getRetryDelay(error: GeminiApiError, attempt: number): number {
+    // Prefer the server's hint: Retry-After header or google.rpc.RetryInfo ("30s")
+    const retryAfter = Number(error.retryAfter);
+    if (retryAfter > 0) {
+      return Math.min(retryAfter * 1000, 60000);
+    }
+
+    const retryInfo = (error.response?.data?.error?.details || [])
+      .find(detail => typeof detail?.retryDelay === 'string');
+    if (retryInfo) {
+      const seconds = parseFloat(retryInfo.retryDelay as string);
+      if (seconds > 0) {
+        return Math.min(seconds * 1000, 60000);
+      }
+    }
+
+    return Math.min(1000 * Math.pow(2, attempt - 1), 8000); // Exponential backoff: 1s, 2s, 4s
+  }
+
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return sleepWithSignal(ms, signal);
+  }
+
+  private formatTime(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = Math.floor(seconds % 60);
+    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+  }
+
+  private getApiKeyFromEnv(): string | undefined {
+    return process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY;
+  }
+
+  private estimateTokens(text: string): number {
+    // Ultra conservative estimation for Korean text: ~2 characters per token
+    return Math.ceil(text.length / 2);
+  }
+
+  private getMaxTokensForModel(model: string): number {
+    return getGeminiContextTokens(model);
+  }
+
+  private getMaxOutputTokensForModel(model: string): number {
+    // Legacy gemini-pro caps responses at 2048 tokens; 1.5 and later allow 8192
+    return model.toLowerCase().includes('gemini-pro') ? 2048 : 8192;
+  }
+
+  private async handleApiError(response: Response, model: string): Promise<never> {
+    const status = response.status;
+    const statusText = response.statusText;
+
+    let errorData: GeminiErrorBody | undefined;
+    let errorMessage = `Gemini API error: ${status} ${statusText}`;
+
+    try {
+      errorData = await response.json();
+      if (errorData?.error?.message) {
+        errorMessage = errorData.error.message;
+      }
+    } catch {
+      // If JSON parsing fails, try text
+      try {
+        const textResponse = await response.text();
+        if (textResponse) {
+          errorMessage = textResponse;
+        }
+      } catch {
+        // Keep default error message
+      }
+    }
+
+    console.error('Gemini API Error Details:', {
+      status,
+      message: errorMessage,
+      type: errorData?.error?.status,
+      model
+    });
+
+    // Create enhanced error with status and response data for retry logic
+    const error = new Error(`Gemini API error (${status}): ${errorMessage}`) as GeminiApiError;
+    error.status = status;
+    error.retryAfter = response.headers.get('retry-after');
+    error.response = {
+      status,
+      statusText,
+      data: errorData
+    };
+
+    // Add error code for network-level errors
+    if (status >= 500) {
+      error.code = `HTTP_${status}`;
+    }
+
+    throw error;
+  }
+}
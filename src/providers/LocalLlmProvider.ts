@@ -1,4 +1,6 @@
+import { StringDecoder } from 'string_decoder';
 import { SummarizationProvider, SummarySettings, VerboseTranscriptionResult } from '../types';
+import { isAbortError } from '../cancellation';
 
 export class LocalLlmProvider implements SummarizationProvider {
   private settings: SummarySettings;
@@ -8,23 +10,23 @@ export class LocalLlmProvider implements SummarizationProvider {
   }
 
   async summarize(
-    input: { 
-      text: string; 
-      segments?: VerboseTranscriptionResult['segments']; 
-      language?: string; 
-    }, 
-    options: { model?: string }
+    input: {
+      text: string;
+      segments?: VerboseTranscriptionResult['segments'];
+      language?: string;
+    },
+    options: { model?: string; systemPrompt?: string; onToken?: (token: string, textSoFar: string) => void; signal?: AbortSignal }
   ): Promise<string> {
-    const endpoint = this.settings.ollamaEndpoint;
+    const endpoint = this.settings.ollamaEndpoint?.replace(/\/+$/, '');
     if (!endpoint) {
       throw new Error('Ollama endpoint is required for local LLM provider');
     }
 
     const model = options.model || this.settings.model || 'llama3.1';
-    
+
     // Create enhanced prompt with segment information if available
     let prompt = `다음 회의 내용을 정리해주세요:\n\n${input.text}`;
-    
+
     if (input.segments && input.segments.length > 0) {
       prompt += '\n\n시간별 구간 정보:\n';
       input.segments.forEach((segment, index) => {
@@ -35,7 +37,17 @@ export class LocalLlmProvider implements SummarizationProvider {
       prompt += '\n위 시간대별 정보를 참고하여 더욱 구체적인 회의록을 작성해주세요.';
     }
 
-    const systemMessage = '당신은 회의록 정리 전문가입니다. 주어진 회의 내용을 체계적으로 정리하여 명확하고 유용한 회의록을 작성해주세요. 시간별 구간 정보가 있다면 이를 활용하여 더욱 상세하고 구조화된 회의록을 만들어주세요.';
+    // The user's configured prompt goes in the system message
+    const systemMessage = options.systemPrompt?.trim() ||
+      '당신은 회의록 정리 전문가입니다. 주어진 회의 내용을 체계적으로 정리하여 명확하고 유용한 회의록을 작성해주세요. 시간별 구간 정보가 있다면 이를 활용하여 더욱 상세하고 구조화된 회의록을 만들어주세요.';
+
+    const modelOptions: Record<string, number> = {
+      temperature: this.settings.ollamaTemperature ?? 0.3,
+    };
+    if (this.settings.ollamaNumCtx) {
+      // Ollama defaults to a small context window and silently drops the start of long prompts
+      modelOptions.num_ctx = this.settings.ollamaNumCtx;
+    }
 
     const requestBody = {
       model: model,
@@ -43,40 +55,105 @@ export class LocalLlmProvider implements SummarizationProvider {
         { role: 'system', content: systemMessage },
         { role: 'user', content: prompt }
       ],
-      stream: false,
-      options: {
-        temperature: 0.3,
-      }
+      stream: true,
+      options: modelOptions
     };
 
+    let response: Response;
     try {
-      const response = await fetch(`${endpoint}/api/chat`, {
+      response = await fetch(`${endpoint}/api/chat`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(requestBody)
+        body: JSON.stringify(requestBody),
+        signal: options.signal
       });
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      throw new Error(`Local LLM summarization failed: Cannot reach Ollama at ${endpoint}. Make sure "ollama serve" is running. (${error instanceof Error ? error.message : 'Unknown error'})`);
+    }
 
-      if (!response.ok) {
-        throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const errorMessage: string = errorData.error || response.statusText;
+      if (this.isModelNotFound(response.status, errorMessage)) {
+        throw new Error(`Local LLM summarization failed: Model "${model}" is not installed in Ollama. Run "ollama pull ${model}" and try again.`);
       }
+      throw new Error(`Local LLM summarization failed: Ollama API error: ${response.status} ${errorMessage}`);
+    }
 
-      const result = await response.json();
-      
-      if (!result.message || !result.message.content) {
+    try {
+      const content = await this.readChatStream(response, options.onToken);
+
+      if (!content) {
         throw new Error('No response from Ollama API');
       }
 
-      return result.message.content;
+      return content;
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       throw new Error(`Local LLM summarization failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Read Ollama's newline-delimited JSON stream, reporting each token as it arrives.
+   */
+  private async readChatStream(response: Response, onToken?: (token: string, textSoFar: string) => void): Promise<string> {
+    let content = '';
+    let buffer = '';
+
+    const handleLine = (line: string) => {
+      if (!line.trim()) return;
+
+      const chunk = JSON.parse(line);
+      if (chunk.error) {
+        throw new Error(chunk.error);
+      }
+
+      const token: string = chunk.message?.content || '';
+      if (token) {
+        content += token;
+        onToken?.(token, content);
+      }
+    };
+
+    const reader = response.body?.getReader?.();
+    if (!reader) {
+      // No streaming body available (e.g. older runtimes): parse the whole payload at once
+      const text = await response.text();
+      text.split('\n').forEach(handleLine);
+      return content;
+    }
+
+    // StringDecoder keeps multi-byte characters intact when they are split across chunks
+    const decoder = new StringDecoder('utf8');
+    let chunk = await reader.read();
+    while (!chunk.done) {
+      buffer += decoder.write(Buffer.from(chunk.value));
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(handleLine);
+      chunk = await reader.read();
+    }
+
+    buffer += decoder.end();
+    handleLine(buffer);
+    return content;
+  }
+
+  private isModelNotFound(status: number, message: string): boolean {
+    return status === 404 || /model .*not found|try pulling it/i.test(message);
+  }
+
   private formatTime(seconds: number): string {
     const minutes = Math.floor(seconds / 60);
     const remainingSeconds = Math.floor(seconds % 60);
     return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
   }
-}
\ No newline at end of file
+}
@@ -1,11 +1,28 @@
-import { SpeechToTextProvider, SttSettings, VerboseTranscriptionResult } from '../types';
+import { SpeechToTextProvider, SttSettings, TranscriptionSegment, VerboseTranscriptionResult, WhisperServerType } from '../types';
+import { getAudioFormat, getFileExtension } from '../audioFormats';
+import { createAbortError, isAbortError } from '../cancellation';
 import { spawn } from 'child_process';
 import { writeFileSync, unlinkSync, existsSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 
+interface LocalWhisperSegment {
+  id?: number;
+  start?: number;
+  end?: number;
+  offsets?: { from: number; to: number };
+  text?: string;
+}
+
+// verbose_json from faster-whisper style servers, or whisper.cpp's JSON output
+interface LocalWhisperResponse {
+  segments?: LocalWhisperSegment[];
+  transcription?: LocalWhisperSegment[];
+}
+
 export class LocalWhisperProvider implements SpeechToTextProvider {
   private settings: SttSettings;
+  private serverVerified = false; // Health check runs once per provider instance
 
   constructor(settings: SttSettings) {
     this.settings = settings;
@@ -13,80 +30,183 @@ export class LocalWhisperProvider implements SpeechToTextProvider {
 
   async transcribe(
     input: ArrayBuffer | Buffer | string, 
-    options: { format: 'verbose_json' | 'text'; language?: string; model?: string }
+    options: { format: 'verbose_json' | 'text'; language?: string; model?: string; fileName?: string; signal?: AbortSignal }
   ): Promise<VerboseTranscriptionResult> {
-    if (this.settings.ollamaEndpoint) {
-      return this.transcribeWithOllama(input, options);
+    if (this.settings.whisperServerUrl) {
+      return this.transcribeWithServer(input, options);
     } else if (this.settings.whisperBinaryPath) {
       return this.transcribeWithBinary(input, options);
     } else {
-      throw new Error('Local Whisper provider requires either ollamaEndpoint or whisperBinaryPath to be configured');
+      throw new Error('Local Whisper provider requires either whisperServerUrl or whisperBinaryPath to be configured');
     }
   }
 
-  private async transcribeWithOllama(
+  /**
+   * Probe the configured transcription server. Without a /health route, only an answer
+   * that identifies the configured server type counts, so that another service on the
+   * same port (e.g. Ollama, which answers GET / with "Ollama is running") doesn't pass.
+   */
+  async checkServerHealth(signal?: AbortSignal): Promise<{ ok: boolean; message: string }> {
+    const serverUrl = this.getServerUrl();
+    if (!serverUrl) {
+      return { ok: false, message: 'Whisper server URL is not configured' };
+    }
+
+    try {
+      const health = await fetch(`${serverUrl}/health`, { method: 'GET', signal });
+      if (health.ok) {
+        return { ok: true, message: `${this.getServerType()} server is running at ${serverUrl}` };
+      }
+
+      if (health.status === 404) {
+        if (await this.identifiesServer(serverUrl, signal)) {
+          return { ok: true, message: `${this.getServerType()} server is running at ${serverUrl}` };
+        }
+        return { ok: false, message: `The server at ${serverUrl} is not a ${this.getServerType()} server` };
+      }
+
+      // whisper.cpp answers 503 while the model is still loading
+      return { ok: false, message: `Whisper server at ${serverUrl} is not ready (${health.status} ${health.statusText})` };
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      return {
+        ok: false,
+        message: `Cannot reach whisper server at ${serverUrl}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
+  /**
+   * whisper.cpp builds without /health serve their web UI at GET /; faster-whisper-server
+   * lists its models at GET /v1/models.
+   */
+  private async identifiesServer(serverUrl: string, signal?: AbortSignal): Promise<boolean> {
+    if (this.getServerType() === 'faster-whisper-server') {
+      const models = await fetch(`${serverUrl}/v1/models`, { method: 'GET', signal });
+      return models.ok;
+    }
+
+    const root = await fetch(`${serverUrl}/`, { method: 'GET', signal });
+    return root.ok && /whisper/i.test(await root.text());
+  }
+
+  private async transcribeWithServer(
     input: ArrayBuffer | Buffer | string, 
-    options: { format: 'verbose_json' | 'text'; language?: string; model?: string }
+    options: { format: 'verbose_json' | 'text'; language?: string; model?: string; fileName?: string; signal?: AbortSignal }
   ): Promise<VerboseTranscriptionResult> {
-    const endpoint = this.settings.ollamaEndpoint!;
-    const model = options.model || this.settings.model || 'whisper';
-    
-    // Convert input to base64 for API call
-    let audioBase64: string;
-    if (typeof input === 'string') {
-      audioBase64 = input;
-    } else if (input instanceof ArrayBuffer) {
-      audioBase64 = Buffer.from(input).toString('base64');
-    } else {
-      audioBase64 = input.toString('base64');
+    const serverUrl = this.getServerUrl()!;
+    const serverType = this.getServerType();
+
+    if (!this.serverVerified) {
+      const health = await this.checkServerHealth(options.signal);
+      if (!health.ok) {
+        throw new Error(`Local Whisper (${serverType}) transcription failed: ${health.message}`);
+      }
+      this.serverVerified = true;
     }
 
-    const requestBody = {
-      model: model,
-      audio: audioBase64,
-      format: options.format || 'verbose_json',
-      language: options.language || this.settings.language
-    };
+    const formData = new FormData();
+    formData.append('file', this.convertToFile(input, options.fileName));
+    formData.append('response_format', 'verbose_json');
+
+    const language = options.language || this.settings.language;
+    let url: string;
+    if (serverType === 'whisper.cpp') {
+      // whisper.cpp's `server` example: the model is chosen when the server starts
+      url = `${serverUrl}/inference`;
+      formData.append('temperature', '0.0');
+      formData.append('language', language || 'auto');
+    } else {
+      // faster-whisper-server speaks the OpenAI transcription API
+      url = `${serverUrl}/v1/audio/transcriptions`;
+      formData.append('model', options.model || this.settings.model || 'Systran/faster-whisper-small');
+      if (language) {
+        formData.append('language', language);
+      }
+    }
 
     try {
-      const response = await fetch(`${endpoint}/api/transcribe`, {
+      const response = await fetch(url, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody)
+        body: formData,
+        signal: options.signal
       });
 
       if (!response.ok) {
-        throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+        const errorText = await response.text().catch(() => '');
+        throw new Error(`Server error: ${response.status} ${errorText || response.statusText}`);
       }
 
       const result = await response.json();
-      
-      // Ensure proper format for verbose_json
-      if (options.format === 'verbose_json' && result.segments) {
-        return {
-          text: result.text,
-          language: result.language,
-          duration: result.duration,
-          segments: result.segments,
-          raw: result
-        };
-      } else {
-        return {
-          text: result.text || result,
-          segments: [],
-          raw: result
-        };
+      if (result.error) {
+        throw new Error(typeof result.error === 'string' ? result.error : result.error.message || 'Unknown server error');
       }
+
+      const segments = this.parseSegments(result);
+      const text = (result.text || segments.map(segment => segment.text).join(' ')).trim();
+
+      return {
+        text,
+        language: result.language,
+        duration: result.duration ?? (segments.length > 0 ? segments[segments.length - 1].end : undefined),
+        segments: options.format === 'verbose_json' ? segments : [],
+        raw: result
+      };
     } catch (error) {
-      throw new Error(`Local Whisper (Ollama) transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (isAbortError(error)) {
+        throw error;
+      }
+      throw new Error(`Local Whisper (${serverType}) transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private parseSegments(result: LocalWhisperResponse): TranscriptionSegment[] {
+    // OpenAI-style `segments` in seconds, or whisper.cpp JSON `transcription` with millisecond offsets
+    const rawSegments = result.segments || result.transcription || [];
+    return rawSegments
+      .map((segment, index) => {
+        const start = segment.start ?? (segment.offsets ? segment.offsets.from / 1000 : 0);
+        const end = segment.end ?? (segment.offsets ? segment.offsets.to / 1000 : start);
+        return {
+          id: typeof segment.id === 'number' ? segment.id : index,
+          start,
+          end,
+          text: String(segment.text || '').trim()
+        };
+      })
+      .filter(segment => segment.text !== '');
+  }
+
+  private convertToFile(input: ArrayBuffer | Buffer | string, fileName?: string): File {
+    let buffer: Uint8Array;
+    if (typeof input === 'string') {
+      // Assume base64 encoded audio data
+      buffer = new Uint8Array(Buffer.from(input, 'base64'));
+    } else {
+      buffer = new Uint8Array(input);
     }
+
+    // Both servers decode through FFmpeg, so the extension only needs to be truthful
+    const format = fileName ? getAudioFormat(getFileExtension(fileName)) : undefined;
+    if (format) {
+      return new File([buffer], `audio.${format.extension}`, { type: format.mimeType });
+    }
+    return new File([buffer], 'audio.m4a', { type: 'audio/mp4' });
+  }
+
+  private getServerUrl(): string | undefined {
+    return this.settings.whisperServerUrl?.trim().replace(/\/+$/, '') || undefined;
+  }
+
+  private getServerType(): WhisperServerType {
+    return this.settings.whisperServerType || 'whisper.cpp';
   }
 
   private async transcribeWithBinary(
     input: ArrayBuffer | Buffer | string, 
-    options: { format: 'verbose_json' | 'text'; language?: string; model?: string }
+    options: { format: 'verbose_json' | 'text'; language?: string; model?: string; signal?: AbortSignal }
   ): Promise<VerboseTranscriptionResult> {
     const binaryPath = this.settings.whisperBinaryPath!;
     
@@ -126,7 +246,7 @@ export class LocalWhisperProvider implements SpeechToTextProvider {
       }
 
       // Execute whisper binary
-      await this.executeWhisper(binaryPath, args);
+      await this.executeWhisper(binaryPath, args, options.signal);
 
       // Read and parse output
       const outputData = JSON.parse(require('fs').readFileSync(outputPath, 'utf8'));
@@ -150,9 +270,10 @@ export class LocalWhisperProvider implements SpeechToTextProvider {
     }
   }
 
-  private executeWhisper(binaryPath: string, args: string[]): Promise<void> {
+  private executeWhisper(binaryPath: string, args: string[], signal?: AbortSignal): Promise<void> {
     return new Promise((resolve, reject) => {
-      const child = spawn(binaryPath, args);
+      // Aborting the signal kills the whisper process
+      const child = spawn(binaryPath, args, { signal });
       let stderr = '';
 
       child.stderr.on('data', (data) => {
@@ -168,6 +289,10 @@ export class LocalWhisperProvider implements SpeechToTextProvider {
       });
 
       child.on('error', (error) => {
+        if (isAbortError(error)) {
+          reject(createAbortError());
+          return;
+        }
         reject(new Error(`Failed to start whisper binary: ${error.message}`));
       });
     });
@@ -1,4 +1,6 @@
 import { SpeechToTextProvider, SttSettings, VerboseTranscriptionResult } from '../types';
+import { getAudioFormat, getFileExtension } from '../audioFormats';
+import { buildOpenAiHeaders } from './openAiCompatible';
 
 export class OpenAiSttProvider implements SpeechToTextProvider {
   private settings: SttSettings;
@@ -11,15 +13,20 @@ export class OpenAiSttProvider implements SpeechToTextProvider {
 
   async transcribe(
     input: ArrayBuffer | Buffer | string, 
-    options: { format: 'verbose_json' | 'text'; language?: string; model?: string }
+    options: { format: 'verbose_json' | 'text'; language?: string; model?: string; fileName?: string; signal?: AbortSignal }
   ): Promise<VerboseTranscriptionResult> {
-    const apiKey = this.settings.apiKey || this.getApiKeyFromEnv();
-    if (!apiKey) {
+    // Self-hosted OpenAI-compatible servers usually run without authentication
+    const isCompatible = this.settings.provider === 'openai-compatible';
+    const apiKey = this.settings.apiKey || (isCompatible ? undefined : this.getApiKeyFromEnv());
+    if (isCompatible && !this.settings.baseUrl) {
+      throw new Error('Base URL is required for OpenAI-compatible STT servers');
+    }
+    if (!apiKey && !isCompatible) {
       throw new Error('OpenAI API key is required');
     }
 
     // Convert input to File-like object for FormData
-    const audioFile = this.convertToFile(input);
+    const audioFile = this.convertToFile(input, options.fileName);
     
     const formData = new FormData();
     formData.append('file', audioFile);
@@ -32,10 +39,9 @@ export class OpenAiSttProvider implements SpeechToTextProvider {
 
     const response = await fetch(`${this.baseUrl}/audio/transcriptions`, {
       method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: formData
+      headers: buildOpenAiHeaders(apiKey, this.settings.customHeaders),
+      body: formData,
+      signal: options.signal
     });
 
     if (!response.ok) {
@@ -92,7 +98,7 @@ export class OpenAiSttProvider implements SpeechToTextProvider {
     }
   }
 
-  private convertToFile(input: ArrayBuffer | Buffer | string): File {
+  private convertToFile(input: ArrayBuffer | Buffer | string, fileName?: string): File {
     let buffer: Uint8Array;
     
     if (typeof input === 'string') {
@@ -104,6 +110,12 @@ export class OpenAiSttProvider implements SpeechToTextProvider {
       buffer = new Uint8Array(input);
     }
 
+    // Keep the original container extension so the API detects the format correctly
+    const format = fileName ? getAudioFormat(getFileExtension(fileName)) : undefined;
+    if (format && format.sttNative && format.extension !== 'm4a') {
+      return new File([buffer], `audio.${format.extension}`, { type: format.mimeType });
+    }
+
     // Use a more generic audio type for better compatibility
     return new File([buffer], 'audio.m4a', { type: 'audio/mp4' }); // More widely supported than audio/m4a
   }
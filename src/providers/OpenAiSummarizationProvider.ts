@@ -1,4 +1,5 @@
 import { SummarizationProvider, SummarySettings, VerboseTranscriptionResult } from '../types';
+import { buildOpenAiHeaders } from './openAiCompatible';
 
 export class OpenAiSummarizationProvider implements SummarizationProvider {
   private settings: SummarySettings;
@@ -15,10 +16,15 @@ export class OpenAiSummarizationProvider implements SummarizationProvider {
       segments?: VerboseTranscriptionResult['segments']; 
       language?: string; 
     }, 
-    options: { model?: string }
+    options: { model?: string; systemPrompt?: string; signal?: AbortSignal }
   ): Promise<string> {
-    const apiKey = this.settings.apiKey || this.getApiKeyFromEnv();
-    if (!apiKey) {
+    // Self-hosted OpenAI-compatible servers usually run without authentication
+    const isCompatible = this.settings.provider === 'openai-compatible';
+    const apiKey = this.settings.apiKey || (isCompatible ? undefined : this.getApiKeyFromEnv());
+    if (isCompatible && !this.settings.baseUrl) {
+      throw new Error('Base URL is required for OpenAI-compatible servers');
+    }
+    if (!apiKey && !isCompatible) {
       throw new Error('OpenAI API key is required');
     }
 
@@ -70,7 +76,9 @@ export class OpenAiSummarizationProvider implements SummarizationProvider {
       userPrompt = `다음 회의 내용을 정리해주세요 (긴 내용으로 인해 일부만 표시):\n\n${truncatedText}\n\n[회의가 계속되었지만 토큰 제한으로 인해 생략되었습니다. 위 내용을 바탕으로 회의록을 작성해주세요.]`;
     }
 
-    const systemPrompt = '당신은 회의록 정리 전문가입니다. 주어진 회의 내용을 체계적으로 정리하여 명확하고 유용한 회의록을 작성해주세요. 시간별 구간 정보가 있다면 이를 활용하여 더욱 상세하고 구조화된 회의록을 만들어주세요.';
+    // The user's configured prompt goes in the system message
+    const systemPrompt = options.systemPrompt?.trim() ||
+      '당신은 회의록 정리 전문가입니다. 주어진 회의 내용을 체계적으로 정리하여 명확하고 유용한 회의록을 작성해주세요. 시간별 구간 정보가 있다면 이를 활용하여 더욱 상세하고 구조화된 회의록을 만들어주세요.';
 
     // Calculate safe max_tokens for response
     const inputTokens = this.estimateTokens(systemPrompt + userPrompt);
@@ -100,9 +108,10 @@ export class OpenAiSummarizationProvider implements SummarizationProvider {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
+        ...buildOpenAiHeaders(apiKey, this.settings.customHeaders),
       },
-      body: JSON.stringify(requestBody)
+      body: JSON.stringify(requestBody),
+      signal: options.signal
     });
 
     if (!response.ok) {
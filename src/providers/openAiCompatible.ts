@@ -0,0 +1,89 @@
+// Helpers shared by the OpenAI providers when pointed at a self-hosted
+// OpenAI-compatible server (vLLM, LM Studio, faster-whisper-server, LocalAI, ...)
+import { SttSettings, SummarySettings } from '../types';
+
+export interface OpenAiCompatibleEndpoint {
+  baseUrl?: string;
+  apiKey?: string;
+  customHeaders?: Record<string, string>;
+}
+
+/**
+ * Address, key and headers of the configured self-hosted server. They live in their own
+ * settings fields, so the OpenAI and Gemini providers never send requests or keys to it.
+ */
+export function getCompatibleEndpoint(settings: SttSettings | SummarySettings): OpenAiCompatibleEndpoint {
+  return {
+    baseUrl: settings.compatibleBaseUrl,
+    apiKey: settings.compatibleApiKey,
+    customHeaders: settings.customHeaders
+  };
+}
+
+export function buildOpenAiHeaders(apiKey?: string, customHeaders?: Record<string, string>): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+  // Custom headers win so servers with their own auth scheme can replace Authorization
+  return { ...headers, ...(customHeaders || {}) };
+}
+
+/**
+ * Parse "Name: value" lines from the settings textarea. Blank lines and lines starting with # are ignored.
+ */
+export function parseCustomHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    const separatorIndex = trimmed.indexOf(':');
+    if (separatorIndex <= 0) {
+      throw new Error(`Invalid header line "${trimmed}". Use the format "Name: value".`);
+    }
+    headers[trimmed.substring(0, separatorIndex).trim()] = trimmed.substring(separatorIndex + 1).trim();
+  }
+  return headers;
+}
+
+export function formatCustomHeaders(headers?: Record<string, string>): string {
+  return Object.entries(headers || {})
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n');
+}
+
+/**
+ * Query GET {baseUrl}/models and return the model ids the server advertises.
+ * Doubles as a connection test for the settings tab.
+ */
+export async function listOpenAiCompatibleModels(endpoint: OpenAiCompatibleEndpoint): Promise<string[]> {
+  if (!endpoint.baseUrl) {
+    throw new Error('Base URL is required for OpenAI-compatible servers');
+  }
+
+  const response = await fetch(`${endpoint.baseUrl.replace(/\/+$/, '')}/models`, {
+    method: 'GET',
+    headers: buildOpenAiHeaders(endpoint.apiKey, endpoint.customHeaders)
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const errorMessage = errorData.error?.message || response.statusText;
+    throw new Error(`Model list request failed (${response.status}): ${errorMessage}`);
+  }
+
+  // OpenAI-style servers return { data: [{ id }] }; some return { models: [...] } of names or objects
+  const result: { data?: unknown; models?: unknown } = await response.json();
+  const models: unknown[] = Array.isArray(result?.data) ? result.data : Array.isArray(result?.models) ? result.models : [];
+  return models
+    .map(model => {
+      if (typeof model === 'string') {
+        return model;
+      }
+      const { id, name } = (model ?? {}) as { id?: unknown; name?: unknown };
+      return id || name;
+    })
+    .filter((id): id is string => typeof id === 'string' && id.length > 0)
+    .sort();
+}
@@ -3,13 +3,18 @@ import { OpenAiSttProvider } from './OpenAiSttProvider';
 import { OpenAiSummarizationProvider } from './OpenAiSummarizationProvider';
 import { GeminiSttProvider } from './GeminiSttProvider';
 import { GeminiSummarizationProvider } from './GeminiSummarizationProvider';
+import { AnthropicSummarizationProvider } from './AnthropicSummarizationProvider';
 import { LocalWhisperProvider } from './LocalWhisperProvider';
 import { LocalLlmProvider } from './LocalLlmProvider';
+import { getCompatibleEndpoint } from './openAiCompatible';
 
 export function createSttProvider(settings: SttSettings): SpeechToTextProvider {
   switch (settings.provider) {
     case 'openai':
-      return new OpenAiSttProvider(settings);
+      // Custom headers belong to the self-hosted server
+      return new OpenAiSttProvider({ ...settings, customHeaders: undefined });
+    case 'openai-compatible':
+      return new OpenAiSttProvider({ ...settings, ...getCompatibleEndpoint(settings) });
     case 'gemini':
       return new GeminiSttProvider(settings);
     case 'local-whisper':
@@ -22,9 +27,13 @@ export function createSttProvider(settings: SttSettings): SpeechToTextProvider {
 export function createSummarizationProvider(settings: SummarySettings): SummarizationProvider {
   switch (settings.provider) {
     case 'openai':
-      return new OpenAiSummarizationProvider(settings);
+      return new OpenAiSummarizationProvider({ ...settings, customHeaders: undefined });
+    case 'openai-compatible':
+      return new OpenAiSummarizationProvider({ ...settings, ...getCompatibleEndpoint(settings) });
     case 'gemini':
       return new GeminiSummarizationProvider(settings);
+    case 'anthropic':
+      return new AnthropicSummarizationProvider(settings);
     case 'local-llm':
       return new LocalLlmProvider(settings);
     default:
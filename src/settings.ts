@@ -1,11 +1,16 @@
 import { App, PluginSettingTab, Setting, Notice, SuggestModal } from 'obsidian';
-import { ATTNSettings, SttProvider, SummaryProvider, WhisperBackend, ProcessingSettings, LoggingSettings, DiarizationSettings } from './types';
+import { ATTNSettings, SttProvider, SummaryProvider, WhisperBackend, WhisperServerType, ProcessingSettings, LoggingSettings, DiarizationSettings, NoteCollisionStrategy } from './types';
 import ATTNPlugin from './main';
 import { AudioProcessor } from './audioProcessor';
 import { TemplateLoader } from './templateLoader';
+import { TemplateProcessor } from './templateProcessor';
+import { formatCustomHeaders, getCompatibleEndpoint, listOpenAiCompatibleModels, parseCustomHeaders } from './providers/openAiCompatible';
+import { LocalWhisperProvider } from './providers/LocalWhisperProvider';
 
 export class ATTNSettingTab extends PluginSettingTab {
   plugin: ATTNPlugin;
+  // Models reported by the last successful "Test connection", per section
+  private discoveredModels: { stt: string[]; summary: string[] } = { stt: [], summary: [] };
 
   constructor(app: App, plugin: ATTNPlugin) {
     super(app, plugin);
@@ -89,6 +94,61 @@ export class ATTNSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    new Setting(containerEl)
+      .setName('If the Note Already Exists')
+      .setDesc('What to do when a note with the generated name is already in the vault, e.g. when the same recording is processed twice on one day')
+      .addDropdown(dropdown => dropdown
+        .addOption('suffix', 'Create a new note with a number suffix')
+        .addOption('backup', 'Overwrite, keeping a backup of the old note')
+        .addOption('open', 'Open the existing note')
+        .addOption('merge', 'Add new sections to the existing note')
+        .setValue(this.plugin.settings.noteCollisionStrategy || 'suffix')
+        .onChange(async (value) => {
+          this.plugin.settings.noteCollisionStrategy = value as NoteCollisionStrategy;
+          await this.plugin.saveSettings();
+        }));
+
+    const frontmatter = this.plugin.settings.frontmatter ??= { enabled: true, tags: 'meeting' };
+
+    new Setting(containerEl)
+      .setName('Add Meeting Metadata')
+      .setDesc('Write source audio, duration, language, providers and models, speakers, processing date and audio hash to the note\'s frontmatter for Dataview. A template can override keys in its own frontmatter or turn this off with "attn-frontmatter: false".')
+      .addToggle(toggle => toggle
+        .setValue(frontmatter.enabled)
+        .onChange(async (value) => {
+          frontmatter.enabled = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Note Tags')
+      .setDesc('Comma-separated tags added to the frontmatter of every generated note')
+      .addText(text => text
+        .setPlaceholder('meeting')
+        .setValue(frontmatter.tags)
+        .onChange(async (value) => {
+          frontmatter.tags = value;
+          await this.plugin.saveSettings();
+        }));
+
+    const transcriptExport = this.plugin.settings.transcriptExport ??= { srt: false, vtt: false, json: false };
+    const exportFormats: Array<[keyof typeof transcriptExport, string, string]> = [
+      ['srt', 'Export SRT Subtitles', 'Write a .srt subtitle file next to each note, with speaker names when diarization ran'],
+      ['vtt', 'Export WebVTT Subtitles', 'Write a .vtt subtitle file next to each note, with speakers as voice tags'],
+      ['json', 'Export Transcript JSON', 'Write the full transcription result (segments, word timings, speakers) as .json next to each note']
+    ];
+    for (const [format, name, desc] of exportFormats) {
+      new Setting(containerEl)
+        .setName(name)
+        .setDesc(desc)
+        .addToggle(toggle => toggle
+          .setValue(transcriptExport[format])
+          .onChange(async (value) => {
+            transcriptExport[format] = value;
+            await this.plugin.saveSettings();
+          }));
+    }
+
     // Template Configuration Section
     containerEl.createEl('h3', { text: 'Template Configuration' });
 
@@ -148,6 +208,7 @@ export class ATTNSettingTab extends PluginSettingTab {
               testNotice.hide();
               if (isValid) {
                 const content = await templateLoader.loadTemplateFromFile(this.plugin.settings.noteContentTemplateFile);
+                new TemplateProcessor().validate(content);
                 new Notice(`✅ Template file loaded! (${content.length} characters)`, 3000);
               } else {
                 new Notice('❌ Template file not found. Please check the path.', 5000);
@@ -173,7 +234,7 @@ export class ATTNSettingTab extends PluginSettingTab {
     } else {
       const templateSetting = new Setting(containerEl)
         .setName('Note Content Template')
-        .setDesc('Template for note content. Available placeholders: {{filename}}, {{summary}}, {{transcript}}, {{date:format}}, {{time:format}}')
+        .setDesc('Template for note content. Available placeholders: {{filename}}, {{summary}}, {{transcript}}, {{mediaEmbed}}, {{date:format}}, {{time:format}}. Blocks: {{#if x}}…{{else}}…{{/if}}, {{#each segments}}…{{/each}}, {{#each actionItems}}{{line}}{{/each}}. Filters: {{summary | truncate:200}}, upper, lower, date:"YYYY", default:"…"')
         .addTextArea(text => text
           .setPlaceholder('# 회의록\\n\\n**원본 파일:** {{filename}}\\n**생성 날짜:** {{date:YYYY-MM-DD}}\\n\\n## 요약\\n\\n{{summary}}')
           .setValue(this.plugin.settings.noteContentTemplate)
@@ -195,6 +256,7 @@ export class ATTNSettingTab extends PluginSettingTab {
       .setDesc('Select speech-to-text service provider')
       .addDropdown(dropdown => dropdown
         .addOption('openai', 'OpenAI Whisper')
+        .addOption('openai-compatible', 'OpenAI-compatible server')
         .addOption('gemini', 'Google Gemini')
         .addOption('local-whisper', 'Local Whisper')
         .setValue(this.plugin.settings.stt.provider)
@@ -233,19 +295,38 @@ export class ATTNSettingTab extends PluginSettingTab {
           }));
 
       new Setting(containerEl)
-        .setName('Ollama Endpoint (for Local Whisper)')
-        .setDesc('Ollama server endpoint URL for local whisper models (if using Ollama)')
+        .setName('Whisper Server')
+        .setDesc('Local transcription server type: whisper.cpp server (/inference) or faster-whisper-server (/v1/audio/transcriptions)')
+        .addDropdown(dropdown => dropdown
+          .addOption('whisper.cpp', 'whisper.cpp server')
+          .addOption('faster-whisper-server', 'faster-whisper-server')
+          .setValue(this.plugin.settings.stt.whisperServerType || 'whisper.cpp')
+          .onChange(async (value) => {
+            this.plugin.settings.stt.whisperServerType = value as WhisperServerType;
+            await this.plugin.saveSettings();
+          }));
+
+      new Setting(containerEl)
+        .setName('Whisper Server URL')
+        .setDesc('Base URL of the running transcription server (e.g. http://127.0.0.1:8080 for whisper.cpp, http://localhost:8000 for faster-whisper-server)')
         .addText(text => text
-          .setPlaceholder('http://localhost:11434')
-          .setValue(this.plugin.settings.stt.ollamaEndpoint || '')
+          .setPlaceholder('http://127.0.0.1:8080')
+          .setValue(this.plugin.settings.stt.whisperServerUrl || '')
           .onChange(async (value) => {
-            this.plugin.settings.stt.ollamaEndpoint = value;
+            this.plugin.settings.stt.whisperServerUrl = value.trim();
             await this.plugin.saveSettings();
+          }))
+        .addButton(button => button
+          .setButtonText('Check server')
+          .onClick(async () => {
+            const provider = new LocalWhisperProvider(this.plugin.settings.stt);
+            const health = await provider.checkServerHealth();
+            new Notice(health.ok ? `✅ ${health.message}` : `❌ ${health.message}`);
           }));
 
       new Setting(containerEl)
         .setName('Whisper Binary Path (Alternative)')
-        .setDesc('Path to local whisper binary (alternative to Ollama)')
+        .setDesc('Path to local whisper binary (used when no server URL is set)')
         .addText(text => text
           .setPlaceholder('/path/to/whisper or /path/to/faster-whisper')
           .setValue(this.plugin.settings.stt.whisperBinaryPath || '')
@@ -276,7 +357,9 @@ export class ATTNSettingTab extends PluginSettingTab {
       .setDesc('Select summarization service provider')
       .addDropdown(dropdown => dropdown
         .addOption('openai', 'OpenAI GPT')
+        .addOption('openai-compatible', 'OpenAI-compatible server')
         .addOption('gemini', 'Google Gemini')
+        .addOption('anthropic', 'Anthropic Claude')
         .addOption('local-llm', 'Local LLM (Ollama)')
         .setValue(this.plugin.settings.summary.provider)
         .onChange(async (value) => {
@@ -299,6 +382,53 @@ export class ATTNSettingTab extends PluginSettingTab {
             this.plugin.settings.summary.ollamaEndpoint = value;
             await this.plugin.saveSettings();
           }));
+
+      new Setting(containerEl)
+        .setName('Context Window (num_ctx)')
+        .setDesc('Tokens of context for the Ollama model. Long meetings need 16384 or more; leave empty for the model default')
+        .addText(text => text
+          .setPlaceholder('16384')
+          .setValue(this.plugin.settings.summary.ollamaNumCtx?.toString() || '')
+          .onChange(async (value) => {
+            const numValue = parseInt(value);
+            if (value.trim() === '') {
+              this.plugin.settings.summary.ollamaNumCtx = undefined;
+              await this.plugin.saveSettings();
+            } else if (!isNaN(numValue) && numValue >= 512) {
+              this.plugin.settings.summary.ollamaNumCtx = numValue;
+              await this.plugin.saveSettings();
+            }
+          }));
+
+      new Setting(containerEl)
+        .setName('Temperature')
+        .setDesc('Sampling temperature for the Ollama model (0 - 2, lower is more deterministic)')
+        .addText(text => text
+          .setPlaceholder('0.3')
+          .setValue(this.plugin.settings.summary.ollamaTemperature?.toString() || '')
+          .onChange(async (value) => {
+            const numValue = parseFloat(value);
+            if (value.trim() === '') {
+              this.plugin.settings.summary.ollamaTemperature = undefined;
+              await this.plugin.saveSettings();
+            } else if (!isNaN(numValue) && numValue >= 0 && numValue <= 2) {
+              this.plugin.settings.summary.ollamaTemperature = numValue;
+              await this.plugin.saveSettings();
+            }
+          }));
+    }
+
+    if (this.plugin.settings.summary.provider === 'anthropic') {
+      new Setting(containerEl)
+        .setName('Summary API Key')
+        .setDesc('Anthropic API key (required; the OpenAI API Key above is not used for Claude)')
+        .addText(text => text
+          .setPlaceholder('sk-ant-...')
+          .setValue(this.plugin.settings.summary.apiKey || '')
+          .onChange(async (value) => {
+            this.plugin.settings.summary.apiKey = value;
+            await this.plugin.saveSettings();
+          }));
     }
 
     if (this.plugin.settings.summary.provider === 'openai' || this.plugin.settings.summary.provider === 'gemini') {
@@ -327,6 +457,62 @@ export class ATTNSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    new Setting(containerEl)
+      .setName('Concurrent Jobs')
+      .setDesc('How many queued files are processed at the same time. Keep at 1 to avoid API rate limits.')
+      .addText(text => text
+        .setPlaceholder('1')
+        .setValue(this.plugin.settings.processing.maxConcurrentJobs?.toString() || '1')
+        .onChange(async (value) => {
+          const numValue = parseInt(value);
+          if (!isNaN(numValue) && numValue > 0) {
+            this.plugin.settings.processing.maxConcurrentJobs = numValue;
+            this.plugin.jobQueue.setConcurrency(numValue);
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Extract Action Items')
+      .setDesc('After the summary, ask the summary model for action items with owner and due date, and list them as Tasks plugin tasks ({{#each actionItems}}{{line}}{{/each}} in templates). Uses one extra request per note.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.processing.extractActionItems !== false)
+        .onChange(async (value) => {
+          this.plugin.settings.processing.extractActionItems = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Transcription Cache')
+      .setDesc('Reuse transcripts of recordings that were already transcribed with the same STT settings, so regenerating a note only re-runs the summary')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.processing.enableTranscriptionCache !== false)
+        .onChange(async (value) => {
+          this.plugin.settings.processing.enableTranscriptionCache = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Cache Size Limit (MB)')
+      .setDesc('Least recently used transcripts are removed once the cache grows past this size')
+      .addText(text => text
+        .setPlaceholder('500')
+        .setValue(this.plugin.settings.processing.transcriptionCacheMaxMB?.toString() || '500')
+        .onChange(async (value) => {
+          const numValue = parseFloat(value);
+          if (!isNaN(numValue) && numValue > 0) {
+            this.plugin.settings.processing.transcriptionCacheMaxMB = numValue;
+            await this.plugin.transcriptionCache?.setMaxSizeMB(numValue);
+            await this.plugin.saveSettings();
+          }
+        }))
+      .addButton(button => button
+        .setButtonText('Clear cache')
+        .setTooltip('Delete all cached transcripts and segments')
+        .onClick(async () => {
+          await this.plugin.clearTranscriptionCache();
+        }));
+
     new Setting(containerEl)
       .setName('Max Upload Size (MB)')
       .setDesc('Maximum file size before automatic chunking (leave empty for provider defaults)')
@@ -433,6 +619,102 @@ export class ATTNSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    // Watch Folder Section
+    containerEl.createEl('h3', { text: 'Watch Folder' });
+    const watchFolder = this.plugin.settings.watchFolder ??= { enabled: false, folderPath: 'Recordings' };
+
+    new Setting(containerEl)
+      .setName('Process New Recordings Automatically')
+      .setDesc('Queue supported audio files as soon as they appear in the watched folder (e.g. synced from a phone)')
+      .addToggle(toggle => toggle
+        .setValue(watchFolder.enabled)
+        .onChange(async (value) => {
+          watchFolder.enabled = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Watched Folder')
+      .setDesc('Vault folder to watch, including its subfolders')
+      .addText(text => text
+        .setPlaceholder('Recordings')
+        .setValue(watchFolder.folderPath)
+        .onChange(async (value) => {
+          watchFolder.folderPath = value.trim();
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Include Pattern')
+      .setDesc('Only process files whose name matches one of these comma-separated globs (leave empty for all)')
+      .addText(text => text
+        .setPlaceholder('*.m4a, call-*')
+        .setValue(watchFolder.includePattern || '')
+        .onChange(async (value) => {
+          watchFolder.includePattern = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Exclude Pattern')
+      .setDesc('Skip files whose name matches one of these comma-separated globs')
+      .addText(text => text
+        .setPlaceholder('*.tmp, draft-*')
+        .setValue(watchFolder.excludePattern || '')
+        .onChange(async (value) => {
+          watchFolder.excludePattern = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Wait Until File Stops Growing (seconds)')
+      .setDesc('A synced file is queued once its size has not changed for this long')
+      .addText(text => text
+        .setPlaceholder('10')
+        .setValue(watchFolder.stableDelaySec?.toString() || '10')
+        .onChange(async (value) => {
+          const numValue = parseInt(value);
+          if (!isNaN(numValue) && numValue >= 0) {
+            watchFolder.stableDelaySec = numValue;
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    // Meeting Recorder Section
+    containerEl.createEl('h3', { text: 'Meeting Recorder' });
+    const recording = this.plugin.settings.recording ??= { folderPath: 'Recordings', processOnStop: true };
+
+    new Setting(containerEl)
+      .setName('Recordings Folder')
+      .setDesc('Vault folder that recordings made with the "Start meeting recording" command are saved to')
+      .addText(text => text
+        .setPlaceholder('Recordings')
+        .setValue(recording.folderPath)
+        .onChange(async (value) => {
+          recording.folderPath = value.trim();
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Summarize When Recording Stops')
+      .setDesc('Queue the recording for transcription and summarization as soon as it is stopped')
+      .addToggle(toggle => toggle
+        .setValue(recording.processOnStop)
+        .onChange(async (value) => {
+          recording.processOnStop = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Transcribe While Recording')
+      .setDesc('Transcribe the recording minute by minute while the meeting is going, so only the summary is left when it stops. Not used when speaker diarization is enabled.')
+      .addToggle(toggle => toggle
+        .setValue(recording.liveTranscription ?? true)
+        .onChange(async (value) => {
+          recording.liveTranscription = value;
+          await this.plugin.saveSettings();
+        }));
+
     // Speaker Diarization Configuration Section
     containerEl.createEl('h3', { text: 'Speaker Diarization Configuration' });
 
@@ -771,10 +1053,12 @@ export class ATTNSettingTab extends PluginSettingTab {
     } else if (provider === 'gemini') {
       new Setting(containerEl)
         .setName('STT Model')
-        .setDesc('Google Gemini model for speech-to-text')
+        .setDesc('Google Gemini model for speech-to-text (returns timestamped segments)')
         .addDropdown(dropdown => dropdown
           .addOption('gemini-1.5-flash', 'gemini-1.5-flash')
           .addOption('gemini-1.5-pro', 'gemini-1.5-pro')
+          .addOption('gemini-2.0-flash', 'gemini-2.0-flash')
+          .addOption('gemini-2.5-flash', 'gemini-2.5-flash')
           .setValue(this.plugin.settings.stt.model || 'gemini-1.5-flash')
           .onChange(async (value) => {
             this.plugin.settings.stt.model = value;
@@ -801,6 +1085,8 @@ export class ATTNSettingTab extends PluginSettingTab {
             this.plugin.settings.stt.model = value;
             await this.plugin.saveSettings();
           }));
+    } else if (provider === 'openai-compatible') {
+      this.createOpenAiCompatibleSettings(containerEl, 'stt');
     }
   }
 
@@ -830,12 +1116,29 @@ export class ATTNSettingTab extends PluginSettingTab {
         .addDropdown(dropdown => dropdown
           .addOption('gemini-1.5-flash', 'gemini-1.5-flash')
           .addOption('gemini-1.5-pro', 'gemini-1.5-pro')
+          .addOption('gemini-2.0-flash', 'gemini-2.0-flash')
+          .addOption('gemini-2.5-flash', 'gemini-2.5-flash')
+          .addOption('gemini-2.5-pro', 'gemini-2.5-pro')
           .addOption('gemini-pro', 'gemini-pro')
           .setValue(this.plugin.settings.summary.model || 'gemini-1.5-flash')
           .onChange(async (value) => {
             this.plugin.settings.summary.model = value;
             await this.plugin.saveSettings();
           }));
+    } else if (provider === 'anthropic') {
+      new Setting(containerEl)
+        .setName('Summary Model')
+        .setDesc('Anthropic Claude model for summarization (200K context, long meetings fit in one request)')
+        .addDropdown(dropdown => dropdown
+          .addOption('claude-sonnet-4-5', 'claude-sonnet-4-5 (Recommended)')
+          .addOption('claude-opus-4-1', 'claude-opus-4-1')
+          .addOption('claude-3-7-sonnet-latest', 'claude-3-7-sonnet-latest')
+          .addOption('claude-3-5-haiku-latest', 'claude-3-5-haiku-latest')
+          .setValue(this.plugin.settings.summary.model || 'claude-sonnet-4-5')
+          .onChange(async (value) => {
+            this.plugin.settings.summary.model = value;
+            await this.plugin.saveSettings();
+          }));
     } else if (provider === 'local-llm') {
       new Setting(containerEl)
         .setName('Summary Model')
@@ -847,9 +1150,105 @@ export class ATTNSettingTab extends PluginSettingTab {
             this.plugin.settings.summary.model = value;
             await this.plugin.saveSettings();
           }));
+    } else if (provider === 'openai-compatible') {
+      this.createOpenAiCompatibleSettings(containerEl, 'summary');
     }
   }
 
+  private createOpenAiCompatibleSettings(containerEl: HTMLElement, section: 'stt' | 'summary'): void {
+    const providerSettings = this.plugin.settings[section];
+    const label = section === 'stt' ? 'STT' : 'Summary';
+
+    new Setting(containerEl)
+      .setName(`${label} Base URL`)
+      .setDesc('Base URL of the OpenAI-compatible API, including the version path (vLLM, LM Studio, faster-whisper-server, LocalAI)')
+      .addText(text => text
+        .setPlaceholder(section === 'stt' ? 'http://localhost:8000/v1' : 'http://localhost:1234/v1')
+        .setValue(providerSettings.compatibleBaseUrl || '')
+        .onChange(async (value) => {
+          providerSettings.compatibleBaseUrl = value.trim();
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName(`${label} API Key (optional)`)
+      .setDesc('Leave empty if the server does not require authentication. The OpenAI API Key above is never sent to this server.')
+      .addText(text => text
+        .setPlaceholder('Enter API key...')
+        .setValue(providerSettings.compatibleApiKey || '')
+        .onChange(async (value) => {
+          providerSettings.compatibleApiKey = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName(`${label} Custom Headers`)
+      .setDesc('Extra HTTP headers sent with every request, one "Name: value" per line')
+      .addTextArea(text => text
+        .setPlaceholder('X-Api-Key: secret')
+        .setValue(formatCustomHeaders(providerSettings.customHeaders))
+        .onChange(async (value) => {
+          try {
+            providerSettings.customHeaders = parseCustomHeaders(value);
+            await this.plugin.saveSettings();
+          } catch (error) {
+            // Keep the last valid headers while the user is still typing
+          }
+        }));
+
+    const models = this.discoveredModels[section];
+    if (models.length > 0) {
+      new Setting(containerEl)
+        .setName(`${label} Model`)
+        .setDesc(`Models reported by the server (${models.length})`)
+        .addDropdown(dropdown => {
+          // Keep a manually entered model selectable even if the server no longer lists it
+          if (providerSettings.model && !models.includes(providerSettings.model)) {
+            dropdown.addOption(providerSettings.model, providerSettings.model);
+          }
+          models.forEach(model => dropdown.addOption(model, model));
+          dropdown
+            .setValue(providerSettings.model || models[0])
+            .onChange(async (value) => {
+              providerSettings.model = value;
+              await this.plugin.saveSettings();
+            });
+        });
+    } else {
+      new Setting(containerEl)
+        .setName(`${label} Model`)
+        .setDesc('Model name as served by the server. Use "Test connection" to list available models.')
+        .addText(text => text
+          .setPlaceholder(section === 'stt' ? 'Systran/faster-whisper-small' : 'llama-3.1-8b-instruct')
+          .setValue(providerSettings.model || '')
+          .onChange(async (value) => {
+            providerSettings.model = value.trim();
+            await this.plugin.saveSettings();
+          }));
+    }
+
+    new Setting(containerEl)
+      .setName('Test Connection')
+      .setDesc('Check that the server is reachable and fetch its model list from /models')
+      .addButton(button => button
+        .setButtonText('Test connection')
+        .onClick(async () => {
+          const testNotice = new Notice('Testing connection...', 0);
+          try {
+            const discovered = await listOpenAiCompatibleModels(getCompatibleEndpoint(providerSettings));
+            testNotice.hide();
+            this.discoveredModels[section] = discovered;
+            new Notice(`✅ Connected! ${discovered.length} model(s) available`, 3000);
+            if (discovered.length > 0) {
+              this.display(); // Refresh to offer the discovered models
+            }
+          } catch (error) {
+            testNotice.hide();
+            new Notice('❌ Connection failed: ' + (error instanceof Error ? error.message : 'Unknown error'), 5000);
+          }
+        }));
+  }
+
   private getAllFolders(): string[] {
     const folders: string[] = ['/']; // Include root folder
     
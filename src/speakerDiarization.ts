@@ -10,6 +10,7 @@ import {
   DiarizationSettings, 
   TranscriptionSegment 
 } from './types';
+import { isAbortError } from './cancellation';
 
 const execAsync = promisify(exec);
 
@@ -46,16 +47,16 @@ export class SpeakerDiarizationService {
     return null;
   }
 
-  async diarizeAudio(audioFile: File | Buffer | string): Promise<SpeakerSegment[]> {
+  async diarizeAudio(audioFile: File | Buffer | string, signal?: AbortSignal): Promise<SpeakerSegment[]> {
     if (!this.settings.enabled) {
       return [];
     }
 
     switch (this.settings.provider) {
       case 'pyannote':
-        return this.diarizeWithPyannote(audioFile);
+        return this.diarizeWithPyannote(audioFile, signal);
       case 'whisperx':
-        return this.diarizeWithWhisperX(audioFile);
+        return this.diarizeWithWhisperX(audioFile, signal);
       case 'local':
         return this.diarizeWithLocal(audioFile);
       default:
@@ -66,7 +67,8 @@ export class SpeakerDiarizationService {
 
   async enhanceTranscriptionWithSpeakers(
     transcription: VerboseTranscriptionResult,
-    audioFile: File | Buffer | string
+    audioFile: File | Buffer | string,
+    signal?: AbortSignal
   ): Promise<VerboseTranscriptionResult> {
     if (!this.settings.enabled) {
       return transcription;
@@ -74,7 +76,7 @@ export class SpeakerDiarizationService {
 
     try {
       console.log('Starting speaker diarization...');
-      const speakerSegments = await this.diarizeAudio(audioFile);
+      const speakerSegments = await this.diarizeAudio(audioFile, signal);
       
       if (speakerSegments.length === 0) {
         console.warn('No speaker segments detected');
@@ -99,12 +101,15 @@ export class SpeakerDiarizationService {
         speakerSegments
       };
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('Speaker diarization failed:', error);
       return transcription;
     }
   }
 
-  private async diarizeWithPyannote(audioFile: File | Buffer | string): Promise<SpeakerSegment[]> {
+  private async diarizeWithPyannote(audioFile: File | Buffer | string, signal?: AbortSignal): Promise<SpeakerSegment[]> {
     // Check if Python and pyannote are available before proceeding
     const pythonCommand = await this.findPythonCommand();
     if (!pythonCommand) {
@@ -124,6 +129,7 @@ export class SpeakerDiarizationService {
     console.log(`Using Python command: ${pythonCommand}`);
     
     const audioPath = await this.prepareAudioFile(audioFile);
+    const scriptPath = join(this.tempDir, `diarize_${Date.now()}.py`);
     
     try {
       // Example Python script call to pyannote
@@ -156,10 +162,10 @@ except Exception as e:
     sys.exit(1)
       `;
       
-      const scriptPath = join(this.tempDir, `diarize_${Date.now()}.py`);
       writeFileSync(scriptPath, pythonScript);
       
-      const { stdout, stderr } = await execAsync(`${pythonCommand} "${scriptPath}"`);
+      // Aborting kills the python process; the model can take minutes on long recordings
+      const { stdout, stderr } = await execAsync(`${pythonCommand} "${scriptPath}"`, { signal });
       
       if (stderr && stderr.includes('error')) {
         console.warn('Pyannote script error:', stderr);
@@ -180,12 +186,6 @@ except Exception as e:
         return [];
       }
       
-      // Clean up
-      unlinkSync(scriptPath);
-      if (typeof audioFile !== 'string') {
-        unlinkSync(audioPath);
-      }
-      
       return segments.map((seg: any, index: number) => ({
         start: seg.start,
         end: seg.end,
@@ -195,8 +195,14 @@ except Exception as e:
         }
       }));
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('Pyannote diarization failed:', error);
       return [];
+    } finally {
+      // Clean up
+      this.cleanupTempFiles(typeof audioFile !== 'string' ? [scriptPath, audioPath] : [scriptPath]);
     }
   }
 
@@ -209,26 +215,29 @@ except Exception as e:
     }
   }
 
-  private async diarizeWithWhisperX(audioFile: File | Buffer | string): Promise<SpeakerSegment[]> {
+  private async diarizeWithWhisperX(audioFile: File | Buffer | string, signal?: AbortSignal): Promise<SpeakerSegment[]> {
     // Implementation for WhisperX diarization
     const audioPath = await this.prepareAudioFile(audioFile);
     
     try {
       const command = `whisperx "${audioPath}" --diarize --hf_token ${this.settings.apiKey} --output_format json`;
-      const { stdout } = await execAsync(command);
+      const { stdout } = await execAsync(command, { signal });
       
       // Parse WhisperX output and convert to our format
       const result = JSON.parse(stdout);
       
-      // Clean up temp file
-      if (typeof audioFile !== 'string') {
-        unlinkSync(audioPath);
-      }
-      
       return this.parseWhisperXOutput(result);
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('WhisperX diarization failed:', error);
       return [];
+    } finally {
+      // Clean up temp file
+      if (typeof audioFile !== 'string') {
+        this.cleanupTempFiles([audioPath]);
+      }
     }
   }
 
@@ -247,6 +256,18 @@ except Exception as e:
     }];
   }
 
+  private cleanupTempFiles(filePaths: string[]): void {
+    for (const filePath of filePaths) {
+      try {
+        if (existsSync(filePath)) {
+          unlinkSync(filePath);
+        }
+      } catch (error) {
+        console.warn(`Failed to cleanup temp file ${filePath}:`, error);
+      }
+    }
+  }
+
   private async prepareAudioFile(audioFile: File | Buffer | string): Promise<string> {
     if (typeof audioFile === 'string') {
       return audioFile;
@@ -0,0 +1,94 @@
+import { JobState } from './types';
+import { JobQueue } from './jobQueue';
+import { STATE_LABELS } from './jobQueueView';
+import { MeetingRecorder } from './meetingRecorder';
+import { formatTimestamp } from './mediaTimestamps';
+
+const RUNNING_STATES: JobState[] = ['segmenting', 'transcribing', 'summarizing'];
+
+/**
+ * Status bar item showing the running ATTN job and how many are waiting.
+ * Hidden while the queue is idle.
+ */
+export class JobStatusBar {
+  private el: HTMLElement;
+  private queue: JobQueue;
+  private unsubscribe: () => void;
+
+  constructor(el: HTMLElement, queue: JobQueue, onClick: () => void) {
+    this.el = el;
+    this.queue = queue;
+    this.el.addClass('attn-status-bar');
+    this.el.addEventListener('click', onClick);
+    this.unsubscribe = queue.subscribe(() => this.render());
+    this.render();
+  }
+
+  destroy(): void {
+    this.unsubscribe();
+  }
+
+  private render(): void {
+    const jobs = this.queue.getJobs();
+    const running = jobs.filter(job => RUNNING_STATES.includes(job.state));
+    const queuedCount = jobs.filter(job => job.state === 'queued').length;
+
+    if (running.length === 0 && queuedCount === 0) {
+      this.el.setText('');
+      this.el.toggle(false);
+      return;
+    }
+
+    let text: string;
+    if (running.length > 0) {
+      const job = running[0];
+      const name = job.filePath.split('/').pop() || job.filePath;
+      text = `ATTN ${STATE_LABELS[job.state]} ${Math.round(job.progress)}% · ${name}`;
+      if (running.length > 1) {
+        text += ` 외 ${running.length - 1}개`;
+      }
+    } else {
+      text = `ATTN ${STATE_LABELS.queued}`;
+    }
+    if (queuedCount > 0 && running.length > 0) {
+      text += ` (대기 ${queuedCount})`;
+    } else if (queuedCount > 0) {
+      text += ` ${queuedCount}개`;
+    }
+
+    this.el.setText(text);
+    this.el.setAttr('aria-label', '처리 대기열 보기');
+    this.el.toggle(true);
+  }
+}
+
+/**
+ * Status bar item with the elapsed time of the meeting recording. Clicking it pauses or
+ * resumes; `update()` is called every second while the plugin is loaded.
+ */
+export class RecordingStatusBar {
+  private el: HTMLElement;
+  private recorder: MeetingRecorder;
+
+  constructor(el: HTMLElement, recorder: MeetingRecorder, onClick: () => void) {
+    this.el = el;
+    this.recorder = recorder;
+    this.el.addClass('attn-recording-status');
+    this.el.addEventListener('click', onClick);
+    this.update();
+  }
+
+  update(): void {
+    const state = this.recorder.getState();
+    if (state === 'idle') {
+      this.el.setText('');
+      this.el.toggle(false);
+      return;
+    }
+
+    const elapsed = formatTimestamp(this.recorder.getElapsedMs() / 1000);
+    this.el.setText(state === 'paused' ? `⏸️ 일시정지 ${elapsed}` : `🔴 녹음 중 ${elapsed}`);
+    this.el.setAttr('aria-label', state === 'paused' ? '클릭하여 녹음 재개' : '클릭하여 녹음 일시정지');
+    this.el.toggle(true);
+  }
+}
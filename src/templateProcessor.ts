@@ -1,4 +1,5 @@
 import moment from 'moment';
+import { formatTimestamp } from './mediaTimestamps';
 
 export interface TemplateData {
   filename?: string;
@@ -7,6 +8,35 @@ export interface TemplateData {
   [key: string]: any;
 }
 
+// Parsed template tree
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; expression: string; raw: string }
+  | { type: 'if'; expression: string; body: TemplateNode[]; elseBody: TemplateNode[] }
+  | { type: 'each'; expression: string; body: TemplateNode[]; elseBody: TemplateNode[] };
+
+type TemplateToken =
+  | { type: 'text'; value: string }
+  | { type: 'tag'; content: string; raw: string; line: number };
+
+interface OpenBlock {
+  node: Extract<TemplateNode, { type: 'if' | 'each' }>;
+  inElse: boolean;
+  line: number;
+}
+
+// Lookup scope: the innermost #each item first, then its parents, then the root data
+interface Scope {
+  data: unknown;
+  locals: Record<string, unknown>;
+  parent?: Scope;
+}
+
+const TAG_PATTERN = /\{\{([^{}]*)\}\}/g;
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const FRONTMATTER_OPT_OUT = /^attn-frontmatter:\s*false\s*$/i;
+const BUILTIN_DATE_PATTERN = /^(date|time)(?::(.+))?$/;
+
 export class TemplateProcessor {
   constructor() {}
 
@@ -19,40 +49,389 @@ export class TemplateProcessor {
       data = {};
     }
 
-    let result = template;
+    const nodes = this.parse(template);
+    return this.renderNodes(nodes, { data, locals: {} });
+  }
+
+  /**
+   * Put generated metadata into the note's YAML frontmatter. Keys the template's own
+   * frontmatter defines are kept as written, and a template opts out of the generated
+   * keys with `attn-frontmatter: false`.
+   */
+  addFrontmatter(content: string, metadata: Record<string, unknown>): string {
+    const match = content.match(FRONTMATTER_PATTERN);
+    const body = match ? content.substring(match[0].length) : content;
+    const templateLines = match ? match[1].split(/\r?\n/) : [];
+
+    let lines: string[];
+    if (templateLines.some(line => FRONTMATTER_OPT_OUT.test(line))) {
+      lines = templateLines.filter(line => !FRONTMATTER_OPT_OUT.test(line));
+    } else {
+      const templateKeys = new Set(templateLines.map(line => line.match(/^([^\s#:-][^:]*):/)?.[1].trim()));
+      const generated = Object.entries(metadata)
+        .filter(([key, value]) => !templateKeys.has(key) && (typeof value === 'number' || this.isTruthy(value)))
+        .map(([key, value]) => this.toYamlEntry(key, value));
+      lines = [...templateLines, ...generated];
+    }
+
+    return lines.length > 0 ? `---\n${lines.join('\n')}\n---\n${body}` : body;
+  }
 
-    // Replace basic placeholders
-    const basicPlaceholders = ['filename', 'summary', 'transcript'];
-    
-    for (const placeholder of basicPlaceholders) {
-      if (data[placeholder] !== undefined) {
-        const regex = new RegExp(`\\{\\{${placeholder}\\}\\}`, 'g');
-        result = result.replace(regex, String(data[placeholder]));
+  /**
+   * Parse the template without rendering it. Throws on unbalanced or misplaced blocks.
+   */
+  validate(template: string): void {
+    if (typeof template !== 'string') {
+      throw new Error('Template must be a string');
+    }
+    this.parse(template);
+  }
+
+  private parse(template: string): TemplateNode[] {
+    const root: TemplateNode[] = [];
+    const stack: OpenBlock[] = [];
+
+    const currentBody = (): TemplateNode[] => {
+      const top = stack[stack.length - 1];
+      if (!top) return root;
+      return top.inElse ? top.node.elseBody : top.node.body;
+    };
+
+    for (const token of this.tokenize(template)) {
+      if (token.type === 'text') {
+        if (token.value) {
+          currentBody().push({ type: 'text', value: token.value });
+        }
+        continue;
+      }
+
+      const content = token.content.trim();
+      const openMatch = content.match(/^#(if|each)\s+(.+)$/);
+      const closeMatch = content.match(/^\/(if|each)$/);
+
+      if (openMatch) {
+        const node = {
+          type: openMatch[1] as 'if' | 'each',
+          expression: openMatch[2].trim(),
+          body: [],
+          elseBody: []
+        };
+        currentBody().push(node);
+        stack.push({ node, inElse: false, line: token.line });
+      } else if (content === 'else') {
+        const top = stack[stack.length - 1];
+        if (!top) {
+          throw new Error(`Template syntax error: {{else}} outside of an {{#if}} or {{#each}} block (line ${token.line})`);
+        }
+        if (top.inElse) {
+          throw new Error(`Template syntax error: duplicate {{else}} in {{#${top.node.type} ${top.node.expression}}} (line ${token.line})`);
+        }
+        top.inElse = true;
+      } else if (closeMatch) {
+        const top = stack.pop();
+        if (!top) {
+          throw new Error(`Template syntax error: unexpected {{/${closeMatch[1]}}} without a matching {{#${closeMatch[1]}}} (line ${token.line})`);
+        }
+        if (top.node.type !== closeMatch[1]) {
+          throw new Error(`Template syntax error: {{/${closeMatch[1]}}} closes {{#${top.node.type} ${top.node.expression}}} opened on line ${top.line} (line ${token.line})`);
+        }
+      } else if (/^[#/]/.test(content)) {
+        throw new Error(`Template syntax error: unknown block tag {{${content}}} (line ${token.line})`);
+      } else {
+        currentBody().push({ type: 'variable', expression: content, raw: token.raw });
       }
     }
 
-    // Replace date placeholders with format
-    result = result.replace(/\{\{date(?::([^}]+))?\}\}/g, (match, format) => {
-      const dateFormat = format || 'YYYY-MM-DD';
-      try {
-        return moment().format(dateFormat);
-      } catch (error) {
-        // If format is invalid, return the format string itself
-        return dateFormat;
+    const unclosed = stack.pop();
+    if (unclosed) {
+      throw new Error(`Template syntax error: unclosed {{#${unclosed.node.type} ${unclosed.node.expression}}} opened on line ${unclosed.line}`);
+    }
+
+    return root;
+  }
+
+  private tokenize(template: string): TemplateToken[] {
+    const tokens: TemplateToken[] = [];
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    TAG_PATTERN.lastIndex = 0;
+    while ((match = TAG_PATTERN.exec(template)) !== null) {
+      let textBefore = template.substring(lastIndex, match.index);
+      let tagEnd = match.index + match[0].length;
+      const content = match[1].trim();
+      const line = template.substring(0, match.index).split('\n').length;
+
+      // Block tags on a line of their own swallow that line, so they don't leave blank lines behind
+      if (/^([#/]|else$)/.test(content)) {
+        const lineStart = template.lastIndexOf('\n', match.index - 1) + 1;
+        const lineEndIndex = template.indexOf('\n', tagEnd);
+        const lineEnd = lineEndIndex === -1 ? template.length : lineEndIndex;
+        const before = template.substring(lineStart, match.index);
+        const after = template.substring(tagEnd, lineEnd);
+
+        if (lineStart >= lastIndex && before.trim() === '' && after.trim() === '') {
+          textBefore = template.substring(lastIndex, lineStart);
+          tagEnd = lineEndIndex === -1 ? template.length : lineEndIndex + 1;
+        }
       }
-    });
 
-    // Replace time placeholders with format
-    result = result.replace(/\{\{time(?::([^}]+))?\}\}/g, (match, format) => {
-      const timeFormat = format || 'HH:mm';
+      tokens.push({ type: 'text', value: textBefore });
+      tokens.push({ type: 'tag', content: match[1], raw: match[0], line });
+      lastIndex = tagEnd;
+      TAG_PATTERN.lastIndex = tagEnd;
+    }
+
+    tokens.push({ type: 'text', value: template.substring(lastIndex) });
+    return tokens;
+  }
+
+  private renderNodes(nodes: TemplateNode[], scope: Scope): string {
+    let output = '';
+
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          output += node.value;
+          break;
+        case 'variable':
+          output += this.renderVariable(node.expression, node.raw, scope);
+          break;
+        case 'if': {
+          const value = this.evaluate(node.expression, scope);
+          output += this.renderNodes(this.isTruthy(value) ? node.body : node.elseBody, scope);
+          break;
+        }
+        case 'each': {
+          const items = this.evaluate(node.expression, scope);
+          if (!Array.isArray(items) || items.length === 0) {
+            output += this.renderNodes(node.elseBody, scope);
+            break;
+          }
+          items.forEach((item, index) => {
+            output += this.renderNodes(node.body, {
+              data: item,
+              locals: {
+                '@index': index,
+                '@number': index + 1,
+                '@first': index === 0,
+                '@last': index === items.length - 1
+              },
+              parent: scope
+            });
+          });
+          break;
+        }
+      }
+    }
+
+    return output;
+  }
+
+  private renderVariable(expression: string, raw: string, scope: Scope): string {
+    const [path, ...filterExpressions] = this.splitOutsideQuotes(expression, '|').map(part => part.trim());
+
+    // Built-in current date/time, e.g. {{date}}, {{date:YYYY-MM-DD}}, {{time:HH-mm}}
+    const builtinMatch = path.match(BUILTIN_DATE_PATTERN);
+    let value: unknown;
+    if (builtinMatch && (builtinMatch[2] !== undefined || this.lookup(path, scope) === undefined)) {
+      const format = builtinMatch[2] || (builtinMatch[1] === 'date' ? 'YYYY-MM-DD' : 'HH:mm');
       try {
-        return moment().format(timeFormat);
+        value = moment().format(format);
       } catch (error) {
         // If format is invalid, return the format string itself
-        return timeFormat;
+        value = format;
+      }
+    } else {
+      value = this.lookup(path, scope);
+    }
+
+    const hasDefault = filterExpressions.some(filter => filter.split(':')[0].trim() === 'default');
+    if (value === undefined && !hasDefault) {
+      // Unknown placeholders are left untouched so typos stay visible in the note
+      return raw;
+    }
+
+    for (const filterExpression of filterExpressions) {
+      value = this.applyFilter(value, filterExpression);
+    }
+
+    return this.stringify(value);
+  }
+
+  private evaluate(expression: string, scope: Scope): unknown {
+    const [path, ...filterExpressions] = this.splitOutsideQuotes(expression, '|').map(part => part.trim());
+    let value = this.lookup(path, scope);
+    for (const filterExpression of filterExpressions) {
+      value = this.applyFilter(value, filterExpression);
+    }
+    return value;
+  }
+
+  private lookup(path: string, scope: Scope): unknown {
+    if (path === 'this' || path === '.') {
+      return scope.data;
+    }
+
+    if (path.startsWith('@root.')) {
+      let root = scope;
+      while (root.parent) root = root.parent;
+      return this.resolvePath(root.data, path.substring('@root.'.length).split('.'));
+    }
+
+    if (path.startsWith('@')) {
+      for (let current: Scope | undefined = scope; current; current = current.parent) {
+        if (path in current.locals) return current.locals[path];
+      }
+      return undefined;
+    }
+
+    if (path.startsWith('this.')) {
+      return this.resolvePath(scope.data, path.substring('this.'.length).split('.'));
+    }
+
+    const parts = path.split('.');
+    // Walk outwards so {{filename}} still resolves inside an {{#each}} block
+    for (let current: Scope | undefined = scope; current; current = current.parent) {
+      if (current.data !== null && typeof current.data === 'object' && parts[0] in current.data) {
+        return this.resolvePath(current.data, parts);
+      }
+    }
+    return undefined;
+  }
+
+  private resolvePath(data: unknown, parts: string[]): unknown {
+    let value = data;
+    for (const part of parts) {
+      if (value === null || value === undefined) {
+        return undefined;
+      }
+      value = (value as Record<string, unknown>)[part];
+    }
+    return value;
+  }
+
+  private applyFilter(value: unknown, filterExpression: string): unknown {
+    const separatorIndex = filterExpression.indexOf(':');
+    const name = (separatorIndex === -1 ? filterExpression : filterExpression.substring(0, separatorIndex)).trim();
+    const args = separatorIndex === -1
+      ? []
+      : this.splitOutsideQuotes(filterExpression.substring(separatorIndex + 1), ',').map(arg => this.parseArgument(arg));
+
+    switch (name) {
+      case 'upper':
+        return this.stringify(value).toUpperCase();
+      case 'lower':
+        return this.stringify(value).toLowerCase();
+      case 'trim':
+        return this.stringify(value).trim();
+      case 'truncate': {
+        const maxLength = Number(args[0]);
+        if (isNaN(maxLength)) {
+          throw new Error(`Template filter "truncate" requires a numeric length, e.g. {{summary | truncate:200}}`);
+        }
+        const text = this.stringify(value);
+        return text.length > maxLength ? text.substring(0, maxLength) + '...' : text;
+      }
+      case 'date': {
+        const format = args[0] !== undefined ? String(args[0]) : 'YYYY-MM-DD';
+        const date = value === undefined || value === null || value === '' ? moment() : moment(value as moment.MomentInput);
+        return date.format(format);
       }
-    });
+      case 'timestamp':
+        return formatTimestamp(Number(value) || 0);
+      case 'default':
+        return value === undefined || value === null || value === '' ? (args[0] ?? '') : value;
+      case 'join':
+        return Array.isArray(value)
+          ? value.map(item => this.stringify(item)).join(args[0] !== undefined ? String(args[0]) : ', ')
+          : value;
+      case 'length':
+        return Array.isArray(value) || typeof value === 'string' ? value.length : 0;
+      default:
+        throw new Error(`Unknown template filter: "${name}"`);
+    }
+  }
 
-    return result;
+  private parseArgument(arg: string): string | number {
+    const trimmed = arg.trim();
+    const quoted = trimmed.match(/^"(.*)"$/) || trimmed.match(/^'(.*)'$/);
+    if (quoted) {
+      return quoted[1];
+    }
+    const numeric = Number(trimmed);
+    return trimmed !== '' && !isNaN(numeric) ? numeric : trimmed;
   }
-}
\ No newline at end of file
+
+  private splitOutsideQuotes(input: string, separator: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+
+    for (const char of input) {
+      if (quote) {
+        if (char === quote) quote = null;
+        current += char;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+        current += char;
+      } else if (char === separator) {
+        parts.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current);
+    return parts;
+  }
+
+  private isTruthy(value: unknown): boolean {
+    if (Array.isArray(value)) {
+      return value.length > 0;
+    }
+    if (typeof value === 'string') {
+      return value.trim() !== '';
+    }
+    return !!value;
+  }
+
+  private stringify(value: unknown): string {
+    if (value === undefined || value === null) {
+      return '';
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.stringify(item)).join(', ');
+    }
+    if (typeof value === 'object') {
+      const labelled = value as { label?: unknown; text?: unknown };
+      if (labelled.label !== undefined) return String(labelled.label);
+      if (labelled.text !== undefined) return String(labelled.text);
+      return JSON.stringify(value);
+    }
+    return String(value);
+  }
+
+  private toYamlEntry(key: string, value: unknown): string {
+    if (Array.isArray(value)) {
+      return `${key}:\n${value.map(item => `  - ${this.toYamlScalar(item)}`).join('\n')}`;
+    }
+    return `${key}: ${this.toYamlScalar(value)}`;
+  }
+
+  private toYamlScalar(value: unknown): string {
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      return String(value);
+    }
+    const text = this.stringify(value);
+    // Dates stay unquoted so Obsidian and Dataview read them as dates
+    if (/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2})?)?$/.test(text)) {
+      return text;
+    }
+    // Quote anything YAML would read as another type or as syntax
+    const needsQuotes = text === ''
+      || /[:#[\]{},&*!|>'"%@`\n]|^[\s\-?]|\s$/.test(text)
+      || /^(true|false|yes|no|on|off|null|~|[-+]?[\d.]+(e[-+]?\d+)?)$/i.test(text);
+    return needsQuotes ? JSON.stringify(text) : text;
+  }
+}
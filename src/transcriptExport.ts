@@ -0,0 +1,177 @@
+import { TranscriptionSegment, VerboseTranscriptionResult } from './types';
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: string[];
+  speaker?: string; // Speaker label when diarization ran
+}
+
+// Readability limits for subtitle cues
+export interface SubtitleRules {
+  maxLineLength: number; // Characters per line
+  maxLines: number; // Lines per cue
+  maxDurationSec: number; // Longer segments are split into several cues
+  minDurationSec: number; // Short cues stay up this long unless the next cue starts earlier
+}
+
+// Common broadcast guidelines: two lines of 42 characters, on screen for 1-7 seconds
+export const DEFAULT_SUBTITLE_RULES: SubtitleRules = {
+  maxLineLength: 42,
+  maxLines: 2,
+  maxDurationSec: 7,
+  minDurationSec: 1
+};
+
+/**
+ * Break text into lines of at most `maxLength` characters, on word boundaries where possible.
+ */
+export function wrapSubtitleText(text: string, maxLength: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    // Words longer than a line (or text without spaces) are cut by character
+    const pieces = Array.from(word).length > maxLength
+      ? (word.match(new RegExp(`.{1,${maxLength}}`, 'gu')) || [])
+      : [word];
+
+    for (const piece of pieces) {
+      if (!current) {
+        current = piece;
+      } else if (Array.from(`${current} ${piece}`).length <= maxLength) {
+        current = `${current} ${piece}`;
+      } else {
+        lines.push(current);
+        current = piece;
+      }
+    }
+  }
+
+  if (current) {
+    lines.push(current);
+  }
+  return lines;
+}
+
+function segmentCues(segment: TranscriptionSegment, timeScale: number, rules: SubtitleRules): SubtitleCue[] {
+  const lines = wrapSubtitleText(segment.text.trim(), rules.maxLineLength);
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const start = segment.start * timeScale;
+  const duration = Math.max(0, segment.end * timeScale - start);
+  // Enough cues to respect both the line limit and the duration limit, but at least one line each
+  const cueCount = Math.min(
+    lines.length,
+    Math.max(Math.ceil(lines.length / rules.maxLines), Math.ceil(duration / rules.maxDurationSec))
+  );
+  const linesPerCue = Math.ceil(lines.length / cueCount);
+  const groups: string[][] = [];
+  for (let index = 0; index < lines.length; index += linesPerCue) {
+    groups.push(lines.slice(index, index + linesPerCue));
+  }
+
+  // Share the segment's time between its cues by how much text each one shows
+  const totalLength = lines.join('').length;
+  const cues: SubtitleCue[] = [];
+  let cueStart = start;
+  for (const group of groups) {
+    const cueEnd = cueStart + duration * (group.join('').length / totalLength);
+    cues.push({ start: cueStart, end: cueEnd, lines: group, speaker: segment.speaker?.label });
+    cueStart = cueEnd;
+  }
+  return cues;
+}
+
+/**
+ * Turn transcript segments into subtitle cues. `timeScale` maps times back onto the original
+ * recording when it was sped up before transcription.
+ */
+export function buildSubtitleCues(
+  result: VerboseTranscriptionResult,
+  timeScale = 1,
+  rules: SubtitleRules = DEFAULT_SUBTITLE_RULES
+): SubtitleCue[] {
+  const cues = ([] as SubtitleCue[]).concat(...(result.segments || []).map(segment => segmentCues(segment, timeScale, rules)));
+
+  cues.forEach((cue, index) => {
+    const next = cues[index + 1];
+    if (cue.end - cue.start < rules.minDurationSec) {
+      cue.end = cue.start + rules.minDurationSec;
+    }
+    if (next && cue.end > next.start) {
+      cue.end = Math.max(cue.start, next.start);
+    }
+  });
+  return cues;
+}
+
+function formatCueTime(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+}
+
+/**
+ * SubRip subtitles. The speaker is named at the start of a cue whenever the speaker changes.
+ */
+export function toSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, index) => {
+      const lines = [...cue.lines];
+      if (cue.speaker && cue.speaker !== cues[index - 1]?.speaker) {
+        lines[0] = `${cue.speaker}: ${lines[0]}`;
+      }
+      return `${index + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${lines.join('\n')}\n`;
+    })
+    .join('\n');
+}
+
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * WebVTT subtitles. Speakers are marked with voice spans, which players can style or show.
+ */
+export function toVtt(cues: SubtitleCue[]): string {
+  const body = cues
+    .map(cue => {
+      const text = escapeVtt(cue.lines.join('\n'));
+      const payload = cue.speaker ? `<v ${escapeVtt(cue.speaker)}>${text}` : text;
+      return `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${payload}\n`;
+    })
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+/**
+ * The transcription result as JSON, with every time mapped onto the original recording.
+ */
+export function toTranscriptJson(result: VerboseTranscriptionResult, timeScale = 1): string {
+  const scale = (value: number) => value * timeScale;
+  const scaled: VerboseTranscriptionResult = {
+    ...result,
+    duration: result.duration === undefined ? undefined : scale(result.duration),
+    segments: (result.segments || []).map(segment => ({
+      ...segment,
+      start: scale(segment.start),
+      end: scale(segment.end),
+      words: segment.words?.map(word => ({ ...word, start: scale(word.start), end: scale(word.end) }))
+    })),
+    speakerSegments: result.speakerSegments?.map(item => ({ ...item, start: scale(item.start), end: scale(item.end) }))
+  };
+  return JSON.stringify(scaled, null, 2);
+}
+
+/**
+ * Path of a file that sits next to the note, e.g. "Notes/standup.md" -> "Notes/standup.srt".
+ */
+export function sidecarPath(notePath: string, extension: string): string {
+  return `${notePath.replace(/\.md$/, '')}.${extension}`;
+}
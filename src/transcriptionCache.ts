@@ -0,0 +1,296 @@
+import { createHash } from 'crypto';
+import { DataAdapter } from 'obsidian';
+import { SegmentResult, VerboseTranscriptionResult } from './types';
+
+const CACHE_VERSION = 1;
+export const DEFAULT_CACHE_MAX_MB = 500;
+
+type CacheEntryKind = 'transcription' | 'segments';
+
+interface CacheEntry {
+  kind: CacheEntryKind;
+  sizeBytes: number;
+  lastUsed: number;
+  files: string[]; // Paths relative to the cache directory
+}
+
+interface CacheIndex {
+  version: number;
+  entries: Record<string, CacheEntry>;
+}
+
+interface StoredSegment {
+  file: string;
+  startSec: number;
+  endSec: number;
+  sizeBytes: number;
+}
+
+/**
+ * What a transcript depends on besides the audio itself.
+ */
+export interface TranscriptionCacheKey {
+  provider: string;
+  model: string;
+  language?: string;
+  endpoint?: string;
+  diarization?: string;
+}
+
+// Transcripts made while recording don't depend on the STT settings in use later on
+const RECORDING_TRANSCRIPT_KEY: TranscriptionCacheKey = { provider: 'live-recording', model: '' };
+
+/**
+ * Transcripts and segmentation results stored in the plugin's data folder, keyed by
+ * the hash of the audio content (see CheckpointStore.hashContent). Least recently
+ * used entries are evicted once the cache grows past its size limit.
+ */
+export class TranscriptionCache {
+  private adapter: DataAdapter;
+  private directory: string;
+  private maxSizeBytes: number;
+  private index?: Promise<CacheIndex>;
+
+  constructor(adapter: DataAdapter, directory: string, maxSizeMB: number = DEFAULT_CACHE_MAX_MB) {
+    this.adapter = adapter;
+    this.directory = directory.replace(/\/+$/, '');
+    this.maxSizeBytes = maxSizeMB * 1024 * 1024;
+  }
+
+  async setMaxSizeMB(maxSizeMB: number): Promise<void> {
+    this.maxSizeBytes = maxSizeMB * 1024 * 1024;
+    await this.evict();
+  }
+
+  async getTranscription(audioHash: string, key: TranscriptionCacheKey): Promise<VerboseTranscriptionResult | null> {
+    const id = this.transcriptionId(audioHash, key);
+    const entry = (await this.loadIndex()).entries[id];
+    if (!entry) {
+      return null;
+    }
+
+    try {
+      const result = JSON.parse(await this.adapter.read(this.path(entry.files[0])));
+      await this.touch(id);
+      return result;
+    } catch (error) {
+      console.warn('Dropping unreadable transcription cache entry:', error);
+      await this.removeEntry(id);
+      return null;
+    }
+  }
+
+  async setTranscription(audioHash: string, key: TranscriptionCacheKey, result: VerboseTranscriptionResult): Promise<void> {
+    const id = this.transcriptionId(audioHash, key);
+    const file = `transcripts/${id}.json`;
+    const content = JSON.stringify(result);
+
+    await this.store(id, 'transcription', [file], Buffer.byteLength(content), async () => {
+      await this.adapter.write(this.path(file), content);
+    });
+  }
+
+  /**
+   * Transcript made chunk by chunk while the audio was recorded, keyed by the saved recording.
+   */
+  async getRecordingTranscript(audioHash: string): Promise<VerboseTranscriptionResult | null> {
+    return this.getTranscription(audioHash, RECORDING_TRANSCRIPT_KEY);
+  }
+
+  async setRecordingTranscript(audioHash: string, result: VerboseTranscriptionResult): Promise<void> {
+    await this.setTranscription(audioHash, RECORDING_TRANSCRIPT_KEY, result);
+  }
+
+  async getSegments(segmentKey: string): Promise<SegmentResult[] | null> {
+    const entry = (await this.loadIndex()).entries[segmentKey];
+    if (!entry) {
+      return null;
+    }
+
+    try {
+      const stored: StoredSegment[] = JSON.parse(await this.adapter.read(this.path(entry.files[0])));
+      const segments: SegmentResult[] = [];
+      for (const segment of stored) {
+        segments.push({
+          bufferOrPath: Buffer.from(await this.adapter.readBinary(this.path(segment.file))),
+          startSec: segment.startSec,
+          endSec: segment.endSec,
+          sizeBytes: segment.sizeBytes
+        });
+      }
+      await this.touch(segmentKey);
+      return segments;
+    } catch (error) {
+      console.warn('Dropping unreadable segmentation cache entry:', error);
+      await this.removeEntry(segmentKey);
+      return null;
+    }
+  }
+
+  /**
+   * Only in-memory segments are cached; preserved intermediate files stay where they are.
+   */
+  async setSegments(segmentKey: string, segments: SegmentResult[]): Promise<void> {
+    if (segments.some(segment => !Buffer.isBuffer(segment.bufferOrPath))) {
+      return;
+    }
+
+    const stored: StoredSegment[] = segments.map((segment, index) => ({
+      file: `segments/${segmentKey}-${index}.bin`,
+      startSec: segment.startSec,
+      endSec: segment.endSec,
+      sizeBytes: segment.sizeBytes
+    }));
+    const metaFile = `segments/${segmentKey}.json`;
+    const sizeBytes = segments.reduce((sum, segment) => sum + (segment.bufferOrPath as Buffer).length, 0);
+
+    await this.store(segmentKey, 'segments', [metaFile, ...stored.map(segment => segment.file)], sizeBytes, async () => {
+      for (let i = 0; i < segments.length; i++) {
+        const buffer = segments[i].bufferOrPath as Buffer;
+        await this.adapter.writeBinary(this.path(stored[i].file), buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer);
+      }
+      await this.adapter.write(this.path(metaFile), JSON.stringify(stored));
+    });
+  }
+
+  async getStats(): Promise<{ entryCount: number; sizeBytes: number }> {
+    const entries = Object.values((await this.loadIndex()).entries);
+    return {
+      entryCount: entries.length,
+      sizeBytes: entries.reduce((sum, entry) => sum + entry.sizeBytes, 0)
+    };
+  }
+
+  /**
+   * Delete every cached transcript and segment. Returns the number of bytes freed.
+   */
+  async clear(): Promise<number> {
+    const { sizeBytes } = await this.getStats();
+    if (await this.adapter.exists(this.directory)) {
+      await this.adapter.rmdir(this.directory, true);
+    }
+    this.index = Promise.resolve({ version: CACHE_VERSION, entries: {} });
+    return sizeBytes;
+  }
+
+  private async store(id: string, kind: CacheEntryKind, files: string[], sizeBytes: number, write: () => Promise<void>): Promise<void> {
+    if (sizeBytes > this.maxSizeBytes) {
+      console.log(`Skipping cache for ${kind}: ${(sizeBytes / 1024 / 1024).toFixed(1)}MB exceeds the cache limit`);
+      return;
+    }
+
+    try {
+      await this.ensureDirectories();
+      await write();
+
+      const index = await this.loadIndex();
+      index.entries[id] = { kind, sizeBytes, lastUsed: Date.now(), files };
+      await this.evict(id);
+      await this.saveIndex();
+    } catch (error) {
+      // Caching is an optimisation; a full disk must not fail the job
+      console.warn(`Failed to cache ${kind}:`, error);
+    }
+  }
+
+  private async evict(keepId?: string): Promise<void> {
+    const index = await this.loadIndex();
+    let total = Object.values(index.entries).reduce((sum, entry) => sum + entry.sizeBytes, 0);
+    if (total <= this.maxSizeBytes) {
+      return;
+    }
+
+    const oldestFirst = Object.entries(index.entries)
+      .filter(([id]) => id !== keepId)
+      .sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+
+    for (const [id, entry] of oldestFirst) {
+      if (total <= this.maxSizeBytes) {
+        break;
+      }
+      await this.deleteFiles(entry.files);
+      delete index.entries[id];
+      total -= entry.sizeBytes;
+    }
+    await this.saveIndex();
+  }
+
+  private async touch(id: string): Promise<void> {
+    const index = await this.loadIndex();
+    if (index.entries[id]) {
+      index.entries[id].lastUsed = Date.now();
+      await this.saveIndex();
+    }
+  }
+
+  private async removeEntry(id: string): Promise<void> {
+    const index = await this.loadIndex();
+    const entry = index.entries[id];
+    if (entry) {
+      await this.deleteFiles(entry.files);
+      delete index.entries[id];
+      await this.saveIndex();
+    }
+  }
+
+  private async deleteFiles(files: string[]): Promise<void> {
+    for (const file of files) {
+      try {
+        if (await this.adapter.exists(this.path(file))) {
+          await this.adapter.remove(this.path(file));
+        }
+      } catch (error) {
+        console.warn(`Failed to remove cache file ${file}:`, error);
+      }
+    }
+  }
+
+  private loadIndex(): Promise<CacheIndex> {
+    if (!this.index) {
+      this.index = this.readIndex();
+    }
+    return this.index;
+  }
+
+  private async readIndex(): Promise<CacheIndex> {
+    try {
+      if (await this.adapter.exists(this.path('index.json'))) {
+        const index = JSON.parse(await this.adapter.read(this.path('index.json')));
+        if (index?.version === CACHE_VERSION && index.entries) {
+          return index;
+        }
+      }
+    } catch (error) {
+      console.warn('Transcription cache index is unreadable, starting empty:', error);
+    }
+    return { version: CACHE_VERSION, entries: {} };
+  }
+
+  private async saveIndex(): Promise<void> {
+    await this.ensureDirectories();
+    await this.adapter.write(this.path('index.json'), JSON.stringify(await this.loadIndex()));
+  }
+
+  private async ensureDirectories(): Promise<void> {
+    for (const dir of [this.directory, this.path('transcripts'), this.path('segments')]) {
+      if (!(await this.adapter.exists(dir))) {
+        await this.adapter.mkdir(dir);
+      }
+    }
+  }
+
+  private transcriptionId(audioHash: string, key: TranscriptionCacheKey): string {
+    const keyHash = createHash('sha256').update(JSON.stringify({
+      provider: key.provider,
+      model: key.model,
+      language: key.language || '',
+      endpoint: key.endpoint || '',
+      diarization: key.diarization || ''
+    })).digest('hex');
+    return `${audioHash}-${keyHash.substring(0, 16)}`;
+  }
+
+  private path(relativePath: string): string {
+    return `${this.directory}/${relativePath}`;
+  }
+}
@@ -1,7 +1,8 @@
 // Provider Types
-export type SttProvider = 'openai' | 'gemini' | 'local-whisper';
-export type SummaryProvider = 'openai' | 'gemini' | 'local-llm';
+export type SttProvider = 'openai' | 'openai-compatible' | 'gemini' | 'local-whisper';
+export type SummaryProvider = 'openai' | 'openai-compatible' | 'gemini' | 'anthropic' | 'local-llm';
 export type WhisperBackend = 'faster-whisper-cpp' | 'whisper.cpp';
+export type WhisperServerType = 'whisper.cpp' | 'faster-whisper-server';
 
 // Performance monitoring and streaming interfaces
 export interface ProcessingProgress {
@@ -10,7 +11,7 @@ export interface ProcessingProgress {
   currentStep: string;
   completedSteps: number;
   totalSteps: number;
-  estimatedTimeRemaining?: number;
+  estimatedTimeRemaining?: number; // Seconds
   performanceMetrics?: PerformanceMetrics;
 }
 
@@ -37,9 +38,19 @@ export interface StreamingResult {
   }>;
 }
 
+// A transcribed chunk of a long recording, reported in chunk order
+export interface ChunkProgress {
+  chunkIndex: number;
+  completedChunks: number;
+  totalChunks: number;
+  transcription: string;
+  timestamp: { start: number; end: number }; // Position of the chunk in the full recording
+}
+
 // Streaming callback types for progress updates
 export type ProgressCallback = (progress: ProcessingProgress) => void;
 export type StreamingCallback = (result: StreamingResult) => void;
+export type ChunkProgressCallback = (progress: ChunkProgress) => void;
 
 // Speaker diarization result
 export interface Speaker {
@@ -84,6 +95,13 @@ export interface VerboseTranscriptionResult {
   raw?: unknown; // Original API response
 }
 
+// Action item extracted from a meeting, rendered as a Tasks plugin line
+export interface ActionItem {
+  task: string;
+  owner?: string; // Speaker label or a name mentioned in the meeting
+  due?: string; // YYYY-MM-DD
+}
+
 // Provider Interfaces
 export interface SpeechToTextProvider {
   transcribe(
@@ -92,6 +110,8 @@ export interface SpeechToTextProvider {
       format: 'verbose_json' | 'text'; 
       language?: string; 
       model?: string; 
+      fileName?: string; // Original file name, used to pick the upload MIME type
+      signal?: AbortSignal; // Aborts in-flight requests and local transcription processes
     }
   ): Promise<VerboseTranscriptionResult>;
 }
@@ -105,6 +125,9 @@ export interface SummarizationProvider {
     }, 
     options: { 
       model?: string; 
+      systemPrompt?: string; // Sent as the system message (Gemini: systemInstruction); unset falls back to the default summary prompt
+      onToken?: (token: string, textSoFar: string) => void; // Called by streaming providers as text is generated
+      signal?: AbortSignal;
     }
   ): Promise<string>;
 }
@@ -115,11 +138,16 @@ export interface SttSettings {
   model: string;
   baseUrl?: string;
   apiKey?: string;
+  customHeaders?: Record<string, string>; // Extra request headers for OpenAI-compatible servers
+  compatibleBaseUrl?: string; // OpenAI-compatible server; kept apart from baseUrl so other providers never use it
+  compatibleApiKey?: string;
   language?: string;
   ollamaEndpoint?: string;
   whisperBinaryPath?: string;
   whisperModelPathOrName?: string;
   whisperBackend?: WhisperBackend;
+  whisperServerUrl?: string; // Local transcription server, e.g. http://127.0.0.1:8080
+  whisperServerType?: WhisperServerType;
 }
 
 export interface SummarySettings {
@@ -127,7 +155,12 @@ export interface SummarySettings {
   model: string;
   baseUrl?: string;
   apiKey?: string;
+  customHeaders?: Record<string, string>; // Extra request headers for OpenAI-compatible servers
+  compatibleBaseUrl?: string; // OpenAI-compatible server; kept apart from baseUrl so other providers never use it
+  compatibleApiKey?: string;
   ollamaEndpoint?: string;
+  ollamaNumCtx?: number; // Context window passed to Ollama as num_ctx
+  ollamaTemperature?: number;
 }
 
 export interface DiarizationSettings {
@@ -152,6 +185,10 @@ export interface ProcessingSettings {
   preserveIntermediates?: boolean;
   contextOverlapSec?: number; // New: Context overlap for better continuity
   diarization?: DiarizationSettings;
+  maxConcurrentJobs?: number; // How many queued files are processed at the same time
+  enableTranscriptionCache?: boolean; // Reuse transcripts of audio that was already transcribed
+  extractActionItems?: boolean; // Ask the summary model for action items as structured data after the summary
+  transcriptionCacheMaxMB?: number;
 }
 
 export interface LoggingSettings {
@@ -198,10 +235,40 @@ export interface SegmentResult {
   sizeBytes: number;
 }
 
+export interface WatchFolderSettings {
+  enabled: boolean;
+  folderPath: string;
+  includePattern?: string; // Comma-separated filename globs, e.g. "*.m4a, call-*"
+  excludePattern?: string;
+  stableDelaySec?: number; // How long a file must stop growing before it is queued
+}
+
+export interface FrontmatterSettings {
+  enabled: boolean; // Write meeting metadata (source, duration, models, ...) to the note's frontmatter
+  tags: string; // Comma-separated tags added to every generated note
+}
+
+// Files written next to each generated note
+export interface TranscriptExportSettings {
+  srt: boolean; // SubRip subtitles
+  vtt: boolean; // WebVTT subtitles
+  json: boolean; // The full transcription result, including word timings and speakers
+}
+
+export interface RecordingSettings {
+  folderPath: string; // Vault folder new recordings are saved to
+  processOnStop: boolean; // Queue the recording for transcription as soon as it is stopped
+  liveTranscription?: boolean; // Transcribe each minute while recording so only the summary is left at the end
+}
+
+// What happens when the generated note's path is already taken
+export type NoteCollisionStrategy = 'suffix' | 'backup' | 'open' | 'merge';
+
 export interface ATTNSettings {
   openaiApiKey: string; // Legacy field for backward compatibility
   saveFolderPath: string;
   noteFilenameTemplate: string;
+  noteCollisionStrategy?: NoteCollisionStrategy;
   noteContentTemplate: string;
   noteContentTemplateFile: string;
   useTemplateFile: boolean;
@@ -212,6 +279,35 @@ export interface ATTNSettings {
   summary: SummarySettings;
   processing: ProcessingSettings;
   logging: LoggingSettings;
+  watchFolder?: WatchFolderSettings;
+  recording?: RecordingSettings;
+  frontmatter?: FrontmatterSettings;
+  transcriptExport?: TranscriptExportSettings;
+}
+
+export type AudioSpeedOption = 1 | 2 | 3;
+// Background processing queue
+export type JobState = 'queued' | 'segmenting' | 'transcribing' | 'summarizing' | 'done' | 'failed' | 'cancelled';
+
+// How a job writes its result; a plain job creates a new note from the configured template
+export interface JobOptions {
+  notePath?: string; // Rewrite this existing note instead of creating a new one
+  summaryOnly?: boolean; // Reuse the stored transcript and fail rather than transcribe again
+  templateFile?: string; // Use this template file instead of the configured template
+  automatic?: boolean; // Queued by the folder watcher or a batch; runs without opening the progress window
+  batchId?: string; // Folder batch this job belongs to; reported together once all of them finish
 }
 
-export type AudioSpeedOption = 1 | 2 | 3;
\ No newline at end of file
+export interface ProcessingJob {
+  id: string;
+  filePath: string;
+  options?: JobOptions;
+  state: JobState;
+  progress: number; // 0-100
+  message?: string;
+  error?: string;
+  notePath?: string;
+  attempts: number;
+  createdAt: number;
+  updatedAt: number;
+}
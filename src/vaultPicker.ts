@@ -0,0 +1,28 @@
+import { App, FuzzySuggestModal, TAbstractFile } from 'obsidian';
+
+/**
+ * Fuzzy picker over a fixed list of vault files or folders, shown in the given order.
+ */
+export class VaultPickerModal<T extends TAbstractFile> extends FuzzySuggestModal<T> {
+  private items: T[];
+  private onChoose: (item: T) => void;
+
+  constructor(app: App, items: T[], placeholder: string, onChoose: (item: T) => void) {
+    super(app);
+    this.items = items;
+    this.onChoose = onChoose;
+    this.setPlaceholder(placeholder);
+  }
+
+  getItems(): T[] {
+    return this.items;
+  }
+
+  getItemText(item: T): string {
+    return item.path;
+  }
+
+  onChooseItem(item: T): void {
+    this.onChoose(item);
+  }
+}
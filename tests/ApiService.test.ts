@@ -1,4 +1,5 @@
 import { ApiService } from '../src/apiService';
+import { OpenAiSummarizationProvider } from '../src/providers/OpenAiSummarizationProvider';
 import { ATTNSettings } from '../src/types';
 
 // Mock providers
@@ -112,11 +113,24 @@ describe('ApiService', () => {
         {
           format: 'verbose_json',
           language: 'ko',
-          model: 'whisper-1'
+          model: 'whisper-1',
+          fileName: 'test.m4a'
         }
       );
     });
 
+    test('should reject audio files with unsupported extensions', async () => {
+      const unsupportedFile = {
+        name: 'notes.txt',
+        type: 'text/plain',
+        arrayBuffer: jest.fn().mockResolvedValue(new ArrayBuffer(1024))
+      } as unknown as File;
+
+      await expect(apiService.processAudioFile(unsupportedFile))
+        .rejects.toThrow('지원하지 않는 오디오 형식입니다: .txt');
+      expect(mockSttProvider.transcribe).not.toHaveBeenCalled();
+    });
+
     test('should call Summary provider for summarization', async () => {
       await apiService.processAudioFile(mockAudioFile);
 
@@ -132,7 +146,8 @@ describe('ApiService', () => {
           language: mockVerboseResult.language
         },
         {
-          model: 'gpt-4'
+          model: 'gpt-4',
+          systemPrompt: expect.any(String)
         }
       );
     });
@@ -192,6 +207,159 @@ describe('ApiService', () => {
       const summaryCallTime = mockSummaryProvider.summarize.mock.invocationCallOrder[0];
       expect(transcriptionCallTime).toBeLessThan(summaryCallTime);
     });
+
+    test('should forward streamed summary tokens as partialSummary', async () => {
+      mockSummaryProvider.summarize.mockImplementation(async (input: any, options: any) => {
+        options.onToken('This is', 'This is');
+        options.onToken(' a summary', 'This is a summary');
+        return 'This is a summary';
+      });
+      const streamingCallback = jest.fn();
+      apiService.setStreamingCallback(streamingCallback);
+
+      await apiService.processAudioFile(mockAudioFile);
+
+      const partials = streamingCallback.mock.calls
+        .map(([result]) => result)
+        .filter(result => result.progress.stage === 'summarization')
+        .map(result => result.partialSummary);
+      expect(partials).toEqual(['This is', 'This is a summary']);
+    });
+
+    test('should reuse a cached transcription instead of calling STT', async () => {
+      const cache = {
+        getTranscription: jest.fn().mockResolvedValue(mockVerboseResult),
+        setTranscription: jest.fn()
+      };
+      apiService.setTranscriptionCache(cache as any);
+
+      const result = await apiService.processAudioFile(mockAudioFile);
+
+      expect(cache.getTranscription).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({
+        provider: 'openai',
+        model: 'whisper-1',
+        language: 'ko'
+      }));
+      expect(mockSttProvider.transcribe).not.toHaveBeenCalled();
+      expect(cache.setTranscription).not.toHaveBeenCalled();
+      expect(result.summary).toBe(mockSummaryText);
+    });
+
+    test('should store a fresh transcription in the cache', async () => {
+      const cache = {
+        getTranscription: jest.fn().mockResolvedValue(null),
+        setTranscription: jest.fn()
+      };
+      apiService.setTranscriptionCache(cache as any);
+
+      await apiService.processAudioFile(mockAudioFile);
+
+      expect(mockSttProvider.transcribe).toHaveBeenCalled();
+      expect(cache.setTranscription).toHaveBeenCalledWith(
+        cache.getTranscription.mock.calls[0][0],
+        cache.getTranscription.mock.calls[0][1],
+        mockVerboseResult
+      );
+    });
+
+    test('should fail instead of calling STT when a required cached transcription is missing', async () => {
+      apiService.setTranscriptionCache({ getTranscription: jest.fn().mockResolvedValue(null), setTranscription: jest.fn() } as any);
+      apiService.requireCachedTranscription();
+
+      await expect(apiService.processAudioFile(mockAudioFile)).rejects.toThrow('저장된 전사 결과가 없어 다시 요약할 수 없습니다');
+      expect(mockSttProvider.transcribe).not.toHaveBeenCalled();
+    });
+
+    test('should summarize a transcript made during recording without calling STT', async () => {
+      const liveTranscript = { text: '녹음 중 전사된 내용', segments: [{ id: 0, start: 0, end: 5, text: '녹음 중 전사된 내용' }] };
+      apiService.setLiveTranscript(liveTranscript);
+
+      const result = await apiService.processAudioFile(mockAudioFile);
+
+      expect(mockSttProvider.transcribe).not.toHaveBeenCalled();
+      expect(result.transcriptionResult).toBe(liveTranscript);
+      expect(result.summary).toBe(mockSummaryText);
+    });
+
+    test('should extract action items in a second pass after the summary', async () => {
+      mockSummaryProvider.summarize
+        .mockResolvedValueOnce(mockSummaryText)
+        .mockResolvedValueOnce('[{"task": "견적서 보내기", "owner": "Speaker 1", "due": "2024-05-10"}]');
+
+      const result = await apiService.processAudioFile(mockAudioFile);
+
+      expect(mockSummaryProvider.summarize).toHaveBeenLastCalledWith(
+        expect.objectContaining({ text: expect.stringContaining('This is the transcribed text from the audio file.') }),
+        expect.objectContaining({ systemPrompt: expect.stringContaining('액션 아이템') })
+      );
+      expect(result.summary).toBe(mockSummaryText);
+      expect(result.actionItems).toEqual([{ task: '견적서 보내기', owner: 'Speaker 1', due: '2024-05-10' }]);
+    });
+
+    test('should ask a real provider for action items in JSON', async () => {
+      (createSummarizationProvider as jest.Mock).mockImplementation(settings => new OpenAiSummarizationProvider(settings));
+      const completion = (content: string) => ({ ok: true, json: async () => ({ choices: [{ message: { content } }] }) });
+      const mockFetch = (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(completion(mockSummaryText))
+        .mockResolvedValueOnce(completion('[{"task": "견적서 보내기", "owner": "Speaker 1", "due": null}]'));
+
+      const result = await apiService.processAudioFile(mockAudioFile);
+
+      const { messages } = JSON.parse(mockFetch.mock.calls[1][1].body);
+      expect(messages[0].content).toContain('JSON만 출력합니다');
+      expect(messages[1].content).toContain('JSON 배열로만 답하세요');
+      expect(messages[1].content).toContain('형식: [{"task"');
+      expect(result.actionItems).toEqual([{ task: '견적서 보내기', owner: 'Speaker 1' }]);
+    });
+
+    test('should date the action item request with the recording date', async () => {
+      mockSummaryProvider.summarize
+        .mockResolvedValueOnce(mockSummaryText)
+        .mockResolvedValueOnce('[]');
+      apiService.setRecordedAt(new Date(2024, 4, 3, 10, 0).getTime());
+
+      await apiService.processAudioFile(mockAudioFile);
+
+      expect(mockSummaryProvider.summarize).toHaveBeenLastCalledWith(
+        expect.objectContaining({ text: expect.stringContaining('회의 날짜: 2024-05-03') }),
+        expect.any(Object)
+      );
+    });
+
+    test('should keep the note when action items cannot be read', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockSummaryProvider.summarize
+        .mockResolvedValueOnce(mockSummaryText)
+        .mockResolvedValueOnce('액션 아이템이 없습니다.');
+
+      const result = await apiService.processAudioFile(mockAudioFile);
+
+      expect(result.summary).toBe(mockSummaryText);
+      expect(result.actionItems).toBeUndefined();
+    });
+
+    test('should skip action item extraction when it is turned off', async () => {
+      testSettings.processing = { enableChunking: false, extractActionItems: false };
+      apiService = new ApiService(testSettings);
+
+      const result = await apiService.processAudioFile(mockAudioFile);
+
+      expect(mockSummaryProvider.summarize).toHaveBeenCalledTimes(1);
+      expect(result.actionItems).toBeUndefined();
+    });
+  });
+
+  describe('summary strategy', () => {
+    // About 60k tokens at ~2 characters per token
+    const longMeeting = { text: '회의'.repeat(60000), segments: [] };
+
+    test('should use the model\'s own context window to decide on a single summary request', () => {
+      testSettings.summary = { provider: 'gemini', model: 'gemini-2.5-flash', apiKey: 'key' };
+      expect((new ApiService(testSettings) as any).fitsInSingleSummaryCall(longMeeting)).toBe(true);
+
+      testSettings.summary = { provider: 'gemini', model: 'gemini-pro', apiKey: 'key' };
+      expect((new ApiService(testSettings) as any).fitsInSingleSummaryCall(longMeeting)).toBe(false);
+    });
   });
 
   describe('settings handling', () => {
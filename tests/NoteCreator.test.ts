@@ -1,8 +1,12 @@
-import { NoteCreator } from '../src/noteCreator';
+import { TFile } from 'obsidian';
+import { mergeNoteSections, NoteCreator } from '../src/noteCreator';
 
 // Mock Obsidian Vault
 class MockVault {
   create = jest.fn();
+  modify = jest.fn();
+  read = jest.fn();
+  getAbstractFileByPath = jest.fn();
   
   constructor() {
     this.create.mockResolvedValue(undefined);
@@ -187,4 +191,93 @@ const result = processData();
         .rejects.toThrow('노트 생성 실패: Unknown error');
     });
   });
-});
\ No newline at end of file
+
+  describe('overwriteNote', () => {
+    test('should replace the content of an existing note', async () => {
+      const existing = new TFile('meeting.md');
+      mockVault.getAbstractFileByPath.mockReturnValue(existing);
+
+      await noteCreator.overwriteNote('Notes/meeting.md', 'new content');
+
+      expect(mockVault.modify).toHaveBeenCalledWith(existing, 'new content');
+      expect(mockVault.create).not.toHaveBeenCalled();
+    });
+
+    test('should create the note if it no longer exists', async () => {
+      mockVault.getAbstractFileByPath.mockReturnValue(null);
+
+      await noteCreator.overwriteNote('Notes/meeting.md', 'new content');
+
+      expect(mockVault.create).toHaveBeenCalledWith('Notes/meeting.md', 'new content');
+    });
+
+    test('should wrap vault errors', async () => {
+      mockVault.getAbstractFileByPath.mockReturnValue(new TFile('meeting.md'));
+      mockVault.modify.mockRejectedValue(new Error('File is locked'));
+
+      await expect(noteCreator.overwriteNote('Notes/meeting.md', 'content'))
+        .rejects.toThrow('노트 수정 실패: File is locked');
+    });
+  });
+
+  describe('saveNote', () => {
+    const existingPaths = (paths: string[]) => {
+      mockVault.getAbstractFileByPath.mockImplementation((path: string) => paths.includes(path) ? new TFile(path) : null);
+    };
+
+    test('should create the note when the path is free', async () => {
+      existingPaths([]);
+
+      await expect(noteCreator.saveNote('Notes/meeting.md', 'content')).resolves.toEqual({ path: 'Notes/meeting.md', action: 'created' });
+      expect(mockVault.create).toHaveBeenCalledWith('Notes/meeting.md', 'content');
+    });
+
+    test('should add a numeric suffix to a taken name', async () => {
+      existingPaths(['Notes/meeting.md', 'Notes/meeting-2.md']);
+
+      const saved = await noteCreator.saveNote('Notes/meeting.md', 'content', 'suffix');
+
+      expect(saved).toEqual({ path: 'Notes/meeting-3.md', action: 'renamed' });
+      expect(mockVault.create).toHaveBeenCalledWith('Notes/meeting-3.md', 'content');
+    });
+
+    test('should back up the existing note before overwriting it', async () => {
+      existingPaths(['Notes/meeting.md']);
+      mockVault.read.mockResolvedValue('old content');
+
+      const saved = await noteCreator.saveNote('Notes/meeting.md', 'new content', 'backup');
+
+      expect(saved.action).toBe('overwritten');
+      expect(saved.backupPath).toMatch(/^Notes\/meeting \(backup \d{4}-\d{2}-\d{2} \d{6}\)\.md$/);
+      expect(mockVault.create).toHaveBeenCalledWith(saved.backupPath, 'old content');
+      expect(mockVault.modify).toHaveBeenCalledWith(expect.any(TFile), 'new content');
+    });
+
+    test('should leave the existing note alone when opening it', async () => {
+      existingPaths(['Notes/meeting.md']);
+
+      await expect(noteCreator.saveNote('Notes/meeting.md', 'content', 'open')).resolves.toEqual({ path: 'Notes/meeting.md', action: 'opened' });
+      expect(mockVault.create).not.toHaveBeenCalled();
+      expect(mockVault.modify).not.toHaveBeenCalled();
+    });
+
+    test('should merge new sections into the existing note', async () => {
+      existingPaths(['Notes/meeting.md']);
+      mockVault.read.mockResolvedValue('# 회의록\n\n## 요약\n직접 고친 요약\n');
+
+      await noteCreator.saveNote('Notes/meeting.md', '# 회의록\n\n## 요약\n새 요약\n\n## 액션 아이템\n- 할 일', 'merge');
+
+      expect(mockVault.modify).toHaveBeenCalledWith(
+        expect.any(TFile),
+        '# 회의록\n\n## 요약\n직접 고친 요약\n\n## 액션 아이템\n- 할 일\n'
+      );
+    });
+  });
+
+  describe('mergeNoteSections', () => {
+    test('should keep the existing note when there is nothing new', () => {
+      const existing = '## 요약\n내용';
+      expect(mergeNoteSections(existing, '## 요약\n다른 내용')).toBe(existing);
+    });
+  });
+});
@@ -569,18 +569,65 @@ describe('ATTNSettingTab', () => {
     test('should show local whisper options when local-whisper provider is selected', () => {
       const { Setting } = require('obsidian');
       mockPlugin.settings.stt.provider = 'local-whisper';
-      mockPlugin.settings.stt.ollamaEndpoint = 'http://localhost:11434';
+      mockPlugin.settings.stt.whisperServerUrl = 'http://127.0.0.1:8080';
       mockPlugin.settings.stt.whisperBinaryPath = '';
       
       settingTab.display();
 
       const settingInstances = Setting.mock.instances;
-      const ollamaEndpointSetting = settingInstances.find((instance: any) => 
-        instance.setName.mock.calls.some((call: any) => call[0] === 'Ollama Endpoint (for Local Whisper)')
+      const serverTypeSetting = settingInstances.find((instance: any) => 
+        instance.setName.mock.calls.some((call: any) => call[0] === 'Whisper Server')
+      );
+      const serverUrlSetting = settingInstances.find((instance: any) => 
+        instance.setName.mock.calls.some((call: any) => call[0] === 'Whisper Server URL')
       );
       
-      expect(ollamaEndpointSetting).toBeDefined();
-      expect(ollamaEndpointSetting.setDesc).toHaveBeenCalledWith('Ollama server endpoint URL for local whisper models (if using Ollama)');
+      expect(serverTypeSetting).toBeDefined();
+      expect(serverTypeSetting.addDropdown).toHaveBeenCalled();
+      expect(serverUrlSetting).toBeDefined();
+      expect(serverUrlSetting.addButton).toHaveBeenCalled();
+    });
+
+    test('should show base URL, optional key and headers for OpenAI-compatible servers', async () => {
+      const { Setting } = require('obsidian');
+      mockPlugin.settings.stt.provider = 'openai-compatible';
+
+      settingTab.display();
+
+      const settingNames = Setting.mock.instances.map((instance: any) => instance.getName());
+      expect(settingNames).toEqual(expect.arrayContaining([
+        'STT Base URL', 'STT API Key (optional)', 'STT Custom Headers', 'STT Model', 'Test Connection'
+      ]));
+
+      const headersSetting = Setting.mock.instances.find((instance: any) => instance.getName() === 'STT Custom Headers');
+      const onChange = headersSetting.getTextComponent().onChange.mock.calls[0][0];
+      await onChange('X-Tenant: team-a');
+
+      expect(mockPlugin.settings.stt.customHeaders).toEqual({ 'X-Tenant': 'team-a' });
+      expect(mockPlugin.saveSettings).toHaveBeenCalled();
+    });
+
+    test('should list discovered models after a successful connection test', async () => {
+      const { Setting, Notice } = require('obsidian');
+      Notice.mockImplementation(() => ({ hide: jest.fn() }));
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ data: [{ id: 'whisper-large-v3' }] })
+      });
+      mockPlugin.settings.stt.provider = 'openai-compatible';
+      mockPlugin.settings.stt.compatibleBaseUrl = 'http://localhost:8000/v1';
+
+      settingTab.display();
+      const testSetting = Setting.mock.instances.find((instance: any) => instance.getName() === 'Test Connection');
+      Setting.mockClear();
+      await testSetting.getButtonComponent().onClick.mock.calls[0][0]();
+
+      expect(global.fetch).toHaveBeenCalledWith('http://localhost:8000/v1/models', expect.objectContaining({ method: 'GET' }));
+      expect(Notice).toHaveBeenCalledWith('✅ Connected! 1 model(s) available', 3000);
+
+      const modelSetting = Setting.mock.instances.find((instance: any) => instance.getName() === 'STT Model');
+      expect(modelSetting.addDropdown).toHaveBeenCalled();
+      expect(modelSetting.getDropdownComponent().addOption).toHaveBeenCalledWith('whisper-large-v3', 'whisper-large-v3');
     });
   });
 
@@ -230,6 +230,163 @@ describe('TemplateProcessor', () => {
     });
   });
 
+  describe('conditionals', () => {
+    test('should render {{#if}} body when value is truthy', () => {
+      const template = '{{#if summary}}요약 있음{{/if}}';
+      expect(templateProcessor.process(template, mockData)).toBe('요약 있음');
+    });
+
+    test('should render {{else}} branch for empty strings and empty arrays', () => {
+      const template = '{{#if speakers}}있음{{else}}없음{{/if}}/{{#if items}}있음{{else}}없음{{/if}}';
+      expect(templateProcessor.process(template, { speakers: '', items: [] })).toBe('없음/없음');
+    });
+
+    test('should render {{else}} branch for missing values', () => {
+      const template = '{{#if missing}}A{{else}}B{{/if}}';
+      expect(templateProcessor.process(template, mockData)).toBe('B');
+    });
+
+    test('should not leave blank lines for block tags on their own line', () => {
+      const template = '# 제목\n{{#if speakers}}\n- 참석자: {{speakers}}\n{{/if}}\n본문';
+      expect(templateProcessor.process(template, { speakers: 'A, B' })).toBe('# 제목\n- 참석자: A, B\n본문');
+      expect(templateProcessor.process(template, { speakers: '' })).toBe('# 제목\n본문');
+    });
+
+    test('should support nested blocks', () => {
+      const template = '{{#if meeting}}{{#if meeting.title}}{{meeting.title}}{{else}}무제{{/if}}{{/if}}';
+      expect(templateProcessor.process(template, { meeting: { title: '주간 회의' } })).toBe('주간 회의');
+      expect(templateProcessor.process(template, { meeting: {} })).toBe('무제');
+    });
+  });
+
+  describe('loops', () => {
+    const loopData = {
+      filename: 'meeting.m4a',
+      segments: [
+        { speaker: { label: 'Speaker 1' }, text: '안녕하세요', start: 0 },
+        { speaker: { label: 'Speaker 2' }, text: '반갑습니다', start: 65 },
+      ],
+      tags: ['회의', '주간'],
+    };
+
+    test('should iterate arrays with {{#each}} and resolve item fields', () => {
+      const template = '{{#each segments}}[{{start | timestamp}}] {{speaker.label}}: {{text}}\n{{/each}}';
+      expect(templateProcessor.process(template, loopData)).toBe(
+        '[00:00] Speaker 1: 안녕하세요\n[01:05] Speaker 2: 반갑습니다\n'
+      );
+    });
+
+    test('should expose this, @index and parent data inside loops', () => {
+      const template = '{{#each tags}}{{@index}}:{{this}}@{{filename}}{{#if @last}}.{{else}}, {{/if}}{{/each}}';
+      expect(templateProcessor.process(template, loopData)).toBe('0:회의@meeting.m4a, 1:주간@meeting.m4a.');
+    });
+
+    test('should render {{else}} branch of {{#each}} for empty arrays', () => {
+      const template = '{{#each tags}}- {{this}}{{else}}태그 없음{{/each}}';
+      expect(templateProcessor.process(template, { tags: [] })).toBe('태그 없음');
+    });
+  });
+
+  describe('filters', () => {
+    test('should apply upper and lower filters', () => {
+      expect(templateProcessor.process('{{name | upper}}/{{name | lower}}', { name: 'Ab' })).toBe('AB/ab');
+    });
+
+    test('should truncate long values', () => {
+      const result = templateProcessor.process('{{summary | truncate:5}}', { summary: '1234567890' });
+      expect(result).toBe('12345...');
+    });
+
+    test('should format values with the date filter', () => {
+      const result = templateProcessor.process('{{recordedAt | date:"YYYY/MM/DD"}}', { recordedAt: '2025-09-02T10:00:00Z' });
+      expect(result).toBe('2025/09/02');
+    });
+
+    test('should chain filters and keep quoted separators', () => {
+      const result = templateProcessor.process('{{tags | join:" | " | upper}}', { tags: ['a', 'b'] });
+      expect(result).toBe('A | B');
+    });
+
+    test('should fall back to default for missing values', () => {
+      expect(templateProcessor.process('{{title | default:"무제"}}', {})).toBe('무제');
+    });
+
+    test('should throw on unknown filters', () => {
+      expect(() => templateProcessor.process('{{summary | shout}}', mockData)).toThrow('Unknown template filter: "shout"');
+    });
+  });
+
+  describe('syntax errors', () => {
+    test('should report unclosed blocks with their line', () => {
+      expect(() => templateProcessor.process('a\n{{#if summary}}\nb', mockData))
+        .toThrow('Template syntax error: unclosed {{#if summary}} opened on line 2');
+    });
+
+    test('should report unexpected closing tags', () => {
+      expect(() => templateProcessor.process('{{/each}}', mockData))
+        .toThrow('Template syntax error: unexpected {{/each}} without a matching {{#each}} (line 1)');
+    });
+
+    test('should report mismatched closing tags', () => {
+      expect(() => templateProcessor.process('{{#each tags}}{{/if}}', mockData))
+        .toThrow('Template syntax error: {{/if}} closes {{#each tags}} opened on line 1 (line 1)');
+    });
+
+    test('should report stray {{else}}', () => {
+      expect(() => templateProcessor.validate('{{else}}')).toThrow('{{else}} outside of an {{#if}} or {{#each}} block');
+    });
+  });
+
+  describe('frontmatter', () => {
+    const metadata = {
+      source: '[[Recordings/meeting.m4a]]',
+      duration_sec: 0,
+      language: 'ko',
+      stt_model: 'whisper-1',
+      speakers: ['Speaker 1', 'Speaker 2'],
+      processed: '2025-09-02T14:30:00',
+      summary_model: '',
+      tags: ['meeting']
+    };
+
+    test('should write metadata as YAML frontmatter', () => {
+      expect(templateProcessor.addFrontmatter('# 회의록\n', metadata)).toBe([
+        '---',
+        'source: "[[Recordings/meeting.m4a]]"',
+        'duration_sec: 0',
+        'language: ko',
+        'stt_model: whisper-1',
+        'speakers:',
+        '  - Speaker 1',
+        '  - Speaker 2',
+        'processed: 2025-09-02T14:30:00',
+        'tags:',
+        '  - meeting',
+        '---',
+        '# 회의록',
+        ''
+      ].join('\n'));
+    });
+
+    test('should keep keys defined by the template frontmatter', () => {
+      const content = '---\ntags: [project-x]\nstatus: draft\n---\n# 회의록';
+
+      const result = templateProcessor.addFrontmatter(content, { language: 'ko', tags: ['meeting'] });
+
+      expect(result).toBe('---\ntags: [project-x]\nstatus: draft\nlanguage: ko\n---\n# 회의록');
+    });
+
+    test('should let a template opt out of generated metadata', () => {
+      expect(templateProcessor.addFrontmatter('---\nattn-frontmatter: false\n---\n# 회의록', metadata)).toBe('# 회의록');
+    });
+
+    test('should quote values YAML would misread', () => {
+      const result = templateProcessor.addFrontmatter('', { title: 'Q3: 예산', flag: 'yes', version: '1.0' });
+
+      expect(result).toBe('---\ntitle: "Q3: 예산"\nflag: "yes"\nversion: "1.0"\n---\n');
+    });
+  });
+
   describe('error handling', () => {
     test('should handle null template', () => {
       expect(() => templateProcessor.process(null as any, mockData)).toThrow('Template must be a string');
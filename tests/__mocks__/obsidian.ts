@@ -2,6 +2,10 @@ export class App {
   workspace = {
     on: jest.fn(),
     off: jest.fn(),
+    onLayoutReady: jest.fn(),
+    getLeavesOfType: jest.fn().mockReturnValue([]),
+    getRightLeaf: jest.fn(),
+    revealLeaf: jest.fn(),
   };
   vault = {
     create: jest.fn(),
@@ -24,7 +28,19 @@ export class Plugin {
   }
 
   addSettingTab = jest.fn();
+  addCommand = jest.fn();
+  addRibbonIcon = jest.fn();
+  addStatusBarItem = jest.fn(() => ({
+    addClass: jest.fn(),
+    addEventListener: jest.fn(),
+    setText: jest.fn(),
+    setAttr: jest.fn(),
+    toggle: jest.fn(),
+  }));
+  registerView = jest.fn();
   registerEvent = jest.fn();
+  registerInterval = jest.fn((id: number) => id);
+  registerDomEvent = jest.fn();
   loadData = jest.fn();
   saveData = jest.fn();
 }
@@ -61,6 +77,11 @@ export class Setting {
 
 export class Notice {
   constructor(message: string, timeout?: number) {}
+  containerEl = {
+    createEl: jest.fn().mockReturnValue({
+      addEventListener: jest.fn(),
+    }),
+  };
   hide = jest.fn();
   setMessage = jest.fn();
 }
@@ -70,6 +91,7 @@ export class TFile {
   basename: string;
   extension: string;
   path: string;
+  stat = { ctime: 0, mtime: 0, size: 0 };
 
   constructor(name: string) {
     this.name = name;
@@ -79,6 +101,21 @@ export class TFile {
   }
 }
 
+export class TFolder {
+  name: string;
+  path: string;
+  children: any[] = [];
+
+  constructor(path: string) {
+    this.path = path;
+    this.name = path.split('/').pop() || '';
+  }
+
+  isRoot(): boolean {
+    return this.path === '/';
+  }
+}
+
 export class Vault {
   create = jest.fn();
   exists = jest.fn();
@@ -87,6 +124,20 @@ export class Vault {
 
 export class Component {}
 
+export class WorkspaceLeaf {
+  setViewState = jest.fn();
+}
+
+export class ItemView extends Component {
+  leaf: WorkspaceLeaf;
+  contentEl: any;
+
+  constructor(leaf: WorkspaceLeaf) {
+    super();
+    this.leaf = leaf;
+  }
+}
+
 export class SuggestModal<T> {
   app: App;
   
@@ -102,6 +153,31 @@ export class SuggestModal<T> {
   onChooseSuggestion = jest.fn();
 }
 
+export class FuzzySuggestModal<T> {
+  app: App;
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  setPlaceholder = jest.fn();
+  open = jest.fn();
+  close = jest.fn();
+}
+
+export class Modal {
+  app: App;
+  titleEl: any = { setText: jest.fn() };
+  contentEl: any = {};
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  open = jest.fn();
+  close = jest.fn();
+}
+
 export default {
   App,
   Plugin,
@@ -111,5 +187,9 @@ export default {
   TFile,
   Vault,
   Component,
+  WorkspaceLeaf,
+  ItemView,
   SuggestModal,
+  Modal,
+  FuzzySuggestModal,
 };
\ No newline at end of file
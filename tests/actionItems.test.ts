@@ -0,0 +1,47 @@
+import moment from 'moment';
+import { buildActionItemInput, formatTaskLine, parseActionItems } from '../src/actionItems';
+
+describe('actionItems', () => {
+  test('should read JSON wrapped in a code block and drop what does not validate', () => {
+    const response = '```json\n' + JSON.stringify([
+      { task: '- [ ] 견적서 보내기', owner: '@Speaker 1', due: '2024-05-10' },
+      { task: '회의실 예약', owner: null, due: '다음 주' },
+      { task: '일정 공유', due: '2024-02-30' },
+      { task: '   ', owner: 'Speaker 2' },
+      'not an object'
+    ]) + '\n```';
+
+    expect(parseActionItems(response)).toEqual([
+      { task: '견적서 보내기', owner: 'Speaker 1', due: '2024-05-10' },
+      { task: '회의실 예약' },
+      { task: '일정 공유' }
+    ]);
+  });
+
+  test('should accept a list wrapped in an object and reject answers without JSON', () => {
+    expect(parseActionItems('{"actionItems": [{"task": "배포"}]}')).toEqual([{ task: '배포' }]);
+    expect(parseActionItems('[]')).toEqual([]);
+    expect(() => parseActionItems('액션 아이템이 없습니다.')).toThrow('올바른 JSON이 아닙니다');
+    expect(() => parseActionItems('{"summary": "없음"}')).toThrow('목록이 없습니다');
+  });
+
+  test('should format Tasks plugin lines', () => {
+    expect(formatTaskLine({ task: '견적서 보내기', owner: 'Speaker 1', due: '2024-05-10' })).toBe('- [ ] 견적서 보내기 @Speaker-1 📅 2024-05-10');
+    expect(formatTaskLine({ task: '회의실 예약' })).toBe('- [ ] 회의실 예약');
+  });
+
+  test('should state the format, label each line with its speaker and date the meeting', () => {
+    const input = buildActionItemInput({
+      text: '보낼게요 확인했습니다',
+      segments: [
+        { id: 0, start: 0, end: 2, text: ' 보낼게요', speaker: { id: '1', label: 'Speaker 1' } },
+        { id: 1, start: 2, end: 4, text: '확인했습니다', speaker: { id: '2', label: 'Speaker 2' } }
+      ]
+    }, moment('2024-05-03'));
+
+    expect(input).toMatch(/^아래 회의에서 .* JSON 배열로만 답하세요/);
+    expect(input).toContain('형식: [{"task": "할 일"');
+    expect(input).toContain('\n회의 날짜: 2024-05-03');
+    expect(input).toContain('Speaker 1: 보낼게요\nSpeaker 2: 확인했습니다');
+  });
+});
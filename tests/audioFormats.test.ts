@@ -0,0 +1,81 @@
+import {
+  getFileExtension,
+  getAudioFormat,
+  getAudioMimeType,
+  isSupportedAudioExtension,
+  needsTranscoding,
+  getSupportedAudioExtensions,
+  isSupportedVideoExtension,
+  isSupportedMediaExtension,
+} from '../src/audioFormats';
+
+describe('audioFormats', () => {
+  describe('getFileExtension', () => {
+    test('should return lowercase extension', () => {
+      expect(getFileExtension('Meeting.MP3')).toBe('mp3');
+      expect(getFileExtension('folder/recording.m4a')).toBe('m4a');
+    });
+
+    test('should return empty string when there is no extension', () => {
+      expect(getFileExtension('recording')).toBe('');
+      expect(getFileExtension('recording.')).toBe('');
+    });
+  });
+
+  describe('registry lookups', () => {
+    test('should recognize common recording formats', () => {
+      for (const extension of ['m4a', 'mp3', 'wav', 'webm', 'ogg', 'opus', 'flac']) {
+        expect(isSupportedAudioExtension(extension)).toBe(true);
+      }
+      expect(isSupportedAudioExtension('MP3')).toBe(true);
+    });
+
+    test('should reject unknown extensions', () => {
+      expect(isSupportedAudioExtension('txt')).toBe(false);
+      expect(getAudioFormat('mid')).toBeUndefined();
+    });
+
+    test('should map file names to MIME types', () => {
+      expect(getAudioMimeType('a.m4a')).toBe('audio/m4a');
+      expect(getAudioMimeType('a.mp3')).toBe('audio/mpeg');
+      expect(getAudioMimeType('a.webm')).toBe('audio/webm');
+      expect(getAudioMimeType('a.unknown')).toBe('application/octet-stream');
+    });
+
+    test('should list all supported extensions', () => {
+      expect(getSupportedAudioExtensions()).toEqual(expect.arrayContaining(['m4a', 'mp3', 'flac']));
+    });
+  });
+
+  describe('needsTranscoding', () => {
+    test('should not transcode formats accepted by STT APIs', () => {
+      expect(needsTranscoding('a.m4a')).toBe(false);
+      expect(needsTranscoding('a.mp3')).toBe(false);
+      expect(needsTranscoding('a.flac')).toBe(false);
+    });
+
+    test('should transcode opus and raw aac', () => {
+      expect(needsTranscoding('voice-memo.opus')).toBe(true);
+      expect(needsTranscoding('clip.aac')).toBe(true);
+    });
+
+    test('should not transcode unknown formats', () => {
+      expect(needsTranscoding('notes.txt')).toBe(false);
+    });
+  });
+
+  describe('video formats', () => {
+    test('should recognize screen recording containers', () => {
+      for (const extension of ['mp4', 'mov', 'mkv', 'MOV']) {
+        expect(isSupportedVideoExtension(extension)).toBe(true);
+        expect(isSupportedMediaExtension(extension)).toBe(true);
+      }
+    });
+
+    test('should keep audio and video registries separate', () => {
+      expect(isSupportedVideoExtension('m4a')).toBe(false);
+      expect(isSupportedAudioExtension('mp4')).toBe(false);
+      expect(isSupportedMediaExtension('txt')).toBe(false);
+    });
+  });
+});
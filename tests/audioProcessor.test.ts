@@ -306,7 +306,7 @@ describe('AudioProcessor', () => {
         enablePreprocessing: true,
         audioCodec: 'aac',
         audioBitrate: '128k'
-      });
+      }, undefined);
 
       expect(mockSttProvider.transcribe).toHaveBeenCalledTimes(3);
       
@@ -317,6 +317,84 @@ describe('AudioProcessor', () => {
       expect(result.segments[2].start).toBe(80); // Third chunk offset by 80 seconds
     });
 
+    test('should resume from checkpointed chunks and save the missing ones', async () => {
+      const largeAudioFile = {
+        name: 'large-audio.m4a',
+        type: 'audio/m4a',
+        size: 30 * 1024 * 1024,
+        arrayBuffer: jest.fn().mockResolvedValue(new ArrayBuffer(30 * 1024 * 1024))
+      } as any as File;
+
+      mockSegmenterInstance.segmentAudio.mockResolvedValue([
+        { bufferOrPath: Buffer.from('chunk1'), startSec: 0, endSec: 40, sizeBytes: 10 * 1024 * 1024 },
+        { bufferOrPath: Buffer.from('chunk2'), startSec: 40, endSec: 80, sizeBytes: 10 * 1024 * 1024 },
+        { bufferOrPath: Buffer.from('chunk3'), startSec: 80, endSec: 120, sizeBytes: 10 * 1024 * 1024 }
+      ]);
+      mockSttProvider.transcribe.mockResolvedValue({
+        text: 'Third chunk transcript',
+        segments: [{ id: 0, start: 0, end: 40, text: 'Third chunk transcript' }]
+      });
+      jest.spyOn(audioProcessor as any, 'segmentToFile').mockImplementation((segment: any, filename: any) => Promise.resolve({
+        name: filename,
+        arrayBuffer: jest.fn().mockResolvedValue(new ArrayBuffer(8))
+      }));
+
+      (Logger.createLogger as jest.Mock).mockReturnValue(mockLoggerInstance);
+
+      // The first attempt got through two of the three chunks
+      const saved: Record<number, VerboseTranscriptionResult> = {
+        0: { text: 'First chunk transcript', segments: [{ id: 0, start: 0, end: 40, text: 'First chunk transcript' }] },
+        1: { text: 'Second chunk transcript', segments: [{ id: 0, start: 0, end: 40, text: 'Second chunk transcript' }] }
+      };
+      const checkpoint = {
+        useTranscription: jest.fn().mockReturnValue(2),
+        getChunk: jest.fn((index: number) => saved[index]),
+        saveChunk: jest.fn()
+      };
+
+      const result = await audioProcessor.transcribeWithChunking(largeAudioFile, mockSettings, undefined, checkpoint as any);
+
+      expect(mockSttProvider.transcribe).toHaveBeenCalledTimes(1);
+      expect(checkpoint.saveChunk).toHaveBeenCalledTimes(1);
+      expect(checkpoint.saveChunk).toHaveBeenCalledWith(2, expect.objectContaining({ text: 'Third chunk transcript' }));
+      expect(JSON.parse(checkpoint.useTranscription.mock.calls[0][0])).toEqual(expect.objectContaining({
+        boundaries: [[0, 40], [40, 80], [80, 120]]
+      }));
+      expect(result.text).toBe('First chunk transcript Second chunk transcript Third chunk transcript');
+      expect(result.segments[2].start).toBe(80);
+    });
+
+    test('should report each transcribed chunk in order', async () => {
+      const largeAudioFile = {
+        name: 'large-audio.m4a',
+        type: 'audio/m4a',
+        size: 30 * 1024 * 1024,
+        arrayBuffer: jest.fn().mockResolvedValue(new ArrayBuffer(30 * 1024 * 1024))
+      } as any as File;
+
+      mockSegmenterInstance.segmentAudio.mockResolvedValue([
+        { bufferOrPath: Buffer.from('chunk1'), startSec: 0, endSec: 40, sizeBytes: 10 * 1024 * 1024 },
+        { bufferOrPath: Buffer.from('chunk2'), startSec: 40, endSec: 80, sizeBytes: 10 * 1024 * 1024 }
+      ]);
+      mockSttProvider.transcribe
+        .mockResolvedValueOnce({ text: 'First', segments: [{ id: 0, start: 0, end: 40, text: 'First' }] })
+        .mockResolvedValueOnce({ text: 'Second', segments: [{ id: 0, start: 0, end: 40, text: 'Second' }] });
+      jest.spyOn(audioProcessor as any, 'segmentToFile').mockImplementation((segment: any, filename: any) => Promise.resolve({
+        name: filename,
+        arrayBuffer: jest.fn().mockResolvedValue(new ArrayBuffer(8))
+      }));
+      (Logger.createLogger as jest.Mock).mockReturnValue(mockLoggerInstance);
+
+      const onChunk = jest.fn();
+      audioProcessor.setChunkProgressCallback(onChunk);
+      await audioProcessor.transcribeWithChunking(largeAudioFile, mockSettings);
+
+      expect(onChunk.mock.calls.map(([chunk]) => chunk)).toEqual([
+        { chunkIndex: 0, completedChunks: 1, totalChunks: 2, transcription: 'First', timestamp: { start: 0, end: 40 } },
+        { chunkIndex: 1, completedChunks: 2, totalChunks: 2, transcription: 'Second', timestamp: { start: 40, end: 80 } }
+      ]);
+    });
+
     test('should handle 400 error from STT provider and retry with chunking', async () => {
       const audioFile = {
         name: 'audio.m4a',
@@ -0,0 +1,99 @@
+// Mock UUID to prevent ES module issues
+let uuidCounter = 0;
+jest.mock('uuid', () => ({
+  v4: () => `id-${++uuidCounter}`
+}));
+
+import { BatchTracker, estimateBatch } from '../src/batchProcessor';
+import { JobContext, JobQueue, JobRunner } from '../src/jobQueue';
+import { ProcessingJob, SttSettings } from '../src/types';
+
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+const MB = 1024 * 1024;
+
+function createControlledRunner() {
+  const pending = new Map<string, { resolve: (notePath: string) => void; reject: (error: Error) => void; context: JobContext }>();
+  const runner: JobRunner = jest.fn((job: ProcessingJob, context: JobContext) => new Promise<string>((resolve, reject) => {
+    pending.set(job.filePath, { resolve, reject, context });
+  }));
+  return { runner, pending };
+}
+
+describe('estimateBatch', () => {
+  const stt = (provider: SttSettings['provider'], model: string): SttSettings => ({ provider, model } as SttSettings);
+
+  test('should estimate duration and OpenAI transcription cost from file sizes', () => {
+    const estimate = estimateBatch([10 * MB, 20 * MB], stt('openai', 'whisper-1'));
+
+    expect(estimate).toEqual(expect.objectContaining({ fileCount: 2, totalBytes: 30 * MB, durationSec: 1800 }));
+    expect(estimate.sttCostUsd).toBeCloseTo(0.18);
+  });
+
+  test('should treat local whisper as free and unknown prices as null', () => {
+    expect(estimateBatch([MB], stt('local-whisper', 'base')).sttCostUsd).toBe(0);
+    expect(estimateBatch([MB], stt('gemini', 'gemini-2.0-flash')).sttCostUsd).toBeNull();
+  });
+});
+
+describe('BatchTracker', () => {
+  beforeEach(() => {
+    uuidCounter = 0;
+  });
+
+  test('should report once every job of the batch has finished', async () => {
+    const { runner, pending } = createControlledRunner();
+    const queue = new JobQueue({ concurrency: 2, runner, persist: jest.fn().mockResolvedValue(undefined) });
+    const tracker = new BatchTracker(queue);
+    const onComplete = jest.fn();
+
+    expect(tracker.enqueueBatch(['a.m4a', 'b.m4a', 'c.m4a'], onComplete)).toBe(3);
+
+    pending.get('a.m4a')!.resolve('Notes/a.md');
+    await flushPromises();
+    pending.get('b.m4a')!.reject(new Error('API 오류'));
+    await flushPromises();
+    expect(onComplete).not.toHaveBeenCalled();
+
+    queue.cancel(queue.getJobs().find(job => job.filePath === 'c.m4a')!.id);
+
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(onComplete).toHaveBeenCalledWith({
+      succeeded: [{ filePath: 'a.m4a', notePath: 'Notes/a.md' }],
+      failed: [{ filePath: 'b.m4a', error: 'API 오류' }],
+      cancelled: ['c.m4a']
+    });
+    tracker.destroy();
+  });
+
+  test('should keep outcomes of jobs cleared from the queue before the batch finished', async () => {
+    const { runner, pending } = createControlledRunner();
+    const queue = new JobQueue({ concurrency: 1, runner, persist: jest.fn().mockResolvedValue(undefined) });
+    const tracker = new BatchTracker(queue);
+    const onComplete = jest.fn();
+    tracker.enqueueBatch(['a.m4a', 'b.m4a'], onComplete);
+
+    pending.get('a.m4a')!.reject(new Error('API 오류'));
+    await flushPromises();
+    queue.clearFinished();
+    pending.get('b.m4a')!.resolve('Notes/b.md');
+    await flushPromises();
+
+    expect(onComplete).toHaveBeenCalledWith({
+      succeeded: [{ filePath: 'b.m4a', notePath: 'Notes/b.md' }],
+      failed: [{ filePath: 'a.m4a', error: 'API 오류' }],
+      cancelled: []
+    });
+    tracker.destroy();
+  });
+
+  test('should leave files that already have a pending job out of the batch', () => {
+    const { runner } = createControlledRunner();
+    const queue = new JobQueue({ concurrency: 1, runner, persist: jest.fn().mockResolvedValue(undefined) });
+    const tracker = new BatchTracker(queue);
+    queue.enqueue('a.m4a');
+
+    expect(tracker.enqueueBatch(['a.m4a'], jest.fn())).toBe(0);
+    expect(tracker.enqueueBatch(['a.m4a', 'b.m4a'], jest.fn())).toBe(1);
+    tracker.destroy();
+  });
+});
@@ -0,0 +1,46 @@
+import { createAbortError, isAbortError, sleepWithSignal, throwIfAborted } from '../src/cancellation';
+
+describe('cancellation helpers', () => {
+  test('should recognise our own, fetch and child process abort errors', () => {
+    expect(isAbortError(createAbortError())).toBe(true);
+    expect(isAbortError(Object.assign(new Error('The operation was aborted'), { code: 'ABORT_ERR' }))).toBe(true);
+    expect(isAbortError(new Error('Network error'))).toBe(false);
+    expect(isAbortError(undefined)).toBe(false);
+  });
+
+  test('should throw only once the signal is aborted', () => {
+    const controller = new AbortController();
+
+    expect(() => throwIfAborted(controller.signal)).not.toThrow();
+    expect(() => throwIfAborted(undefined)).not.toThrow();
+
+    controller.abort();
+    expect(() => throwIfAborted(controller.signal)).toThrow('작업이 취소되었습니다.');
+  });
+
+  test('should cut a sleep short when the signal is aborted', async () => {
+    jest.useFakeTimers();
+    try {
+      const controller = new AbortController();
+      const sleeping = sleepWithSignal(60000, controller.signal);
+
+      controller.abort();
+
+      await expect(sleeping).rejects.toMatchObject({ name: 'AbortError' });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('should resolve after the delay without a signal', async () => {
+    jest.useFakeTimers();
+    try {
+      const sleeping = sleepWithSignal(1000);
+      jest.advanceTimersByTime(1000);
+
+      await expect(sleeping).resolves.toBeUndefined();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
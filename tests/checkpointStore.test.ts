@@ -0,0 +1,81 @@
+import { existsSync, mkdtempSync, readdirSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { CheckpointStore } from '../src/checkpointStore';
+
+describe('CheckpointStore', () => {
+  let directory: string;
+  let store: CheckpointStore;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'attn-checkpoint-test-'));
+    store = new CheckpointStore(directory);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  test('should hash identical audio to the same key', () => {
+    const first = CheckpointStore.hashContent(Buffer.from('audio bytes'));
+    const second = CheckpointStore.hashContent(new Uint8Array(Buffer.from('audio bytes')).buffer);
+
+    expect(first).toBe(second);
+    expect(first).not.toBe(CheckpointStore.hashContent(Buffer.from('other audio')));
+  });
+
+  test('should restore saved chunks and partial summaries from disk', () => {
+    const checkpoint = store.open('abc');
+    checkpoint.useTranscription('stt-v1');
+    checkpoint.saveChunk(0, { text: 'first', segments: [] });
+    checkpoint.saveChunk(2, { text: 'third', segments: [] });
+    checkpoint.usePartialSummaries('summary-v1');
+    checkpoint.savePartialSummary(0, 'summary of group 1');
+
+    const reopened = new CheckpointStore(directory).open('abc');
+
+    expect(reopened.useTranscription('stt-v1')).toBe(2);
+    expect(reopened.getChunk(0)).toEqual({ text: 'first', segments: [] });
+    expect(reopened.getChunk(1)).toBeUndefined();
+    expect(reopened.usePartialSummaries('summary-v1')).toBe(1);
+    expect(reopened.getPartialSummary(0)).toBe('summary of group 1');
+  });
+
+  test('should discard a section saved with a different signature', () => {
+    const checkpoint = store.open('abc');
+    checkpoint.useTranscription('whisper-1');
+    checkpoint.saveChunk(0, { text: 'first', segments: [] });
+
+    const reopened = store.open('abc');
+
+    expect(reopened.useTranscription('gpt-4o-transcribe')).toBe(0);
+    expect(reopened.getChunk(0)).toBeUndefined();
+  });
+
+  test('should remove the checkpoint file when cleared', () => {
+    const checkpoint = store.open('abc');
+    checkpoint.useTranscription('stt-v1');
+    checkpoint.saveChunk(0, { text: 'first', segments: [] });
+    expect(existsSync(join(directory, 'abc.json'))).toBe(true);
+
+    checkpoint.clear();
+
+    expect(existsSync(join(directory, 'abc.json'))).toBe(false);
+    expect(store.open('abc').useTranscription('stt-v1')).toBe(0);
+  });
+
+  test('should ignore unreadable checkpoints and prune old ones', () => {
+    writeFileSync(join(directory, 'broken.json'), '{not json');
+    const stalePath = join(directory, 'stale.json');
+    writeFileSync(stalePath, '{}');
+    const eightDaysAgo = (Date.now() - 8 * 24 * 60 * 60 * 1000) / 1000;
+    utimesSync(stalePath, eightDaysAgo, eightDaysAgo);
+
+    const checkpoint = store.open('broken');
+
+    expect(checkpoint.useTranscription('stt-v1')).toBe(0);
+    expect(readdirSync(directory)).toEqual(['broken.json']);
+  });
+});
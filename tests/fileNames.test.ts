@@ -0,0 +1,23 @@
+import { sanitizeFileName } from '../src/fileNames';
+
+describe('sanitizeFileName', () => {
+  test('should replace characters that are illegal in file names or Obsidian links', () => {
+    expect(sanitizeFileName('2024-05-01 회의: 예산/일정 [초안]?')).toBe('2024-05-01 회의- 예산-일정 -초안--');
+    expect(sanitizeFileName('a#b^c|d')).toBe('a-b-c-d');
+  });
+
+  test('should trim whitespace and dots that break file names', () => {
+    expect(sanitizeFileName('  .hidden  note. ')).toBe('hidden note');
+    expect(sanitizeFileName('line\nbreak')).toBe('line break');
+  });
+
+  test('should fall back when nothing usable is left', () => {
+    expect(sanitizeFileName(' ... ')).toBe('회의록');
+    expect(sanitizeFileName('', 'untitled')).toBe('untitled');
+  });
+
+  test('should avoid reserved Windows names and overly long names', () => {
+    expect(sanitizeFileName('CON')).toBe('CON-');
+    expect(Buffer.byteLength(sanitizeFileName('회'.repeat(200)))).toBeLessThanOrEqual(200);
+  });
+});
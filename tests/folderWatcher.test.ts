@@ -0,0 +1,86 @@
+import { FolderWatcher } from '../src/folderWatcher';
+import { WatchFolderSettings } from '../src/types';
+
+describe('FolderWatcher', () => {
+  let settings: WatchFolderSettings;
+  let sizes: Map<string, number>;
+  let processed: Set<string>;
+  let onFileReady: jest.Mock;
+  let watcher: FolderWatcher;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    settings = { enabled: true, folderPath: 'Recordings', stableDelaySec: 5 };
+    sizes = new Map();
+    processed = new Set();
+    onFileReady = jest.fn();
+    watcher = new FolderWatcher({
+      getSettings: () => settings,
+      getFileSize: (path) => sizes.get(path) ?? null,
+      isProcessed: (path) => processed.has(path),
+      onFileReady
+    });
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('should queue a file once its size stops changing', () => {
+    sizes.set('Recordings/standup.m4a', 100);
+    watcher.handleFile('Recordings/standup.m4a');
+
+    sizes.set('Recordings/standup.m4a', 200);
+    jest.advanceTimersByTime(5000);
+    expect(onFileReady).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(5000);
+    expect(onFileReady).toHaveBeenCalledWith('Recordings/standup.m4a');
+    expect(onFileReady).toHaveBeenCalledTimes(1);
+  });
+
+  test('should ignore files outside the folder, unsupported files and processed files', () => {
+    for (const path of ['Inbox/standup.m4a', 'Recordings/notes.md', 'Recordings/done.m4a']) {
+      sizes.set(path, 100);
+      watcher.handleFile(path);
+    }
+    processed.add('Recordings/done.m4a');
+
+    jest.advanceTimersByTime(20000);
+
+    expect(onFileReady).not.toHaveBeenCalled();
+  });
+
+  test('should do nothing while disabled', () => {
+    settings.enabled = false;
+    sizes.set('Recordings/standup.m4a', 100);
+
+    watcher.handleFile('Recordings/standup.m4a');
+    jest.advanceTimersByTime(20000);
+
+    expect(onFileReady).not.toHaveBeenCalled();
+  });
+
+  test('should apply include and exclude patterns to the file name', () => {
+    settings.includePattern = 'call-*, *.wav';
+    settings.excludePattern = '*-draft.*';
+
+    expect(watcher.matches('Recordings/call-monday.m4a')).toBe(true);
+    expect(watcher.matches('Recordings/sub/memo.WAV')).toBe(true);
+    expect(watcher.matches('Recordings/memo.m4a')).toBe(false);
+    expect(watcher.matches('Recordings/call-monday-draft.m4a')).toBe(false);
+  });
+
+  test('should drop files deleted before they finished syncing', () => {
+    sizes.set('Recordings/standup.m4a', 100);
+    watcher.handleFile('Recordings/standup.m4a');
+    sizes.delete('Recordings/standup.m4a');
+
+    jest.advanceTimersByTime(20000);
+
+    expect(onFileReady).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,323 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import nodeFetch from 'node-fetch';
+import { GeminiSttProvider } from '../src/providers/GeminiSttProvider';
+import { GeminiSummarizationProvider } from '../src/providers/GeminiSummarizationProvider';
+
+// Talk to a real local HTTP server instead of a mocked fetch
+global.fetch = nodeFetch as unknown as typeof fetch;
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+type Handler = (req: RecordedRequest, res: http.ServerResponse) => void;
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function geminiText(text: string) {
+  return { candidates: [{ content: { parts: [{ text }], role: 'model' }, finishReason: 'STOP' }] };
+}
+
+let server: http.Server;
+let baseUrl: string;
+let requests: RecordedRequest[];
+let handler: Handler;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const recorded = {
+        method: req.method || '',
+        url: req.url || '',
+        headers: req.headers,
+        body: Buffer.concat(chunks).toString()
+      };
+      requests.push(recorded);
+      handler(recorded, res);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('Gemini STT Provider', () => {
+  const createProvider = (overrides = {}) => new GeminiSttProvider({
+    provider: 'gemini',
+    model: 'gemini-1.5-flash',
+    apiKey: 'test-gemini-key',
+    baseUrl,
+    ...overrides
+  });
+
+  test('should send inline audio and map timestamped segments', async () => {
+    handler = (req, res) => sendJson(res, 200, geminiText(JSON.stringify({
+      segments: [
+        { start: 0, end: 2.5, text: ' 안녕하세요 ' },
+        { start: '00:02.5', end: '0:05', text: '회의를 시작합니다' }
+      ]
+    })));
+
+    const result = await createProvider().transcribe(Buffer.from('fake audio'), {
+      format: 'verbose_json',
+      language: 'ko',
+      fileName: 'meeting.mp3'
+    });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/v1beta/models/gemini-1.5-flash:generateContent');
+    expect(requests[0].headers['x-goog-api-key']).toBe('test-gemini-key');
+
+    const body = JSON.parse(requests[0].body);
+    const audioPart = body.contents[0].parts[1];
+    expect(audioPart.inline_data).toEqual({
+      mime_type: 'audio/mpeg',
+      data: Buffer.from('fake audio').toString('base64')
+    });
+    expect(body.contents[0].parts[0].text).toContain('"ko"');
+    expect(body.generationConfig.response_mime_type).toBe('application/json');
+
+    expect(result.text).toBe('안녕하세요 회의를 시작합니다');
+    expect(result.segments).toEqual([
+      { id: 0, start: 0, end: 2.5, text: '안녕하세요' },
+      { id: 1, start: 2.5, end: 5, text: '회의를 시작합니다' }
+    ]);
+    expect(result.duration).toBe(5);
+    expect(result.language).toBe('ko');
+  });
+
+  test('should return plain text for text format', async () => {
+    handler = (req, res) => sendJson(res, 200, geminiText('plain transcript\n'));
+
+    const result = await createProvider().transcribe(Buffer.from('audio'), { format: 'text' });
+
+    expect(result.text).toBe('plain transcript');
+    expect(result.segments).toEqual([]);
+  });
+
+  test('should keep the transcript when the model does not return JSON', async () => {
+    handler = (req, res) => sendJson(res, 200, geminiText('not json at all'));
+
+    const result = await createProvider().transcribe(Buffer.from('audio'), { format: 'verbose_json' });
+
+    expect(result.segments).toEqual([{ id: 0, start: 0, end: 0, text: 'not json at all' }]);
+  });
+
+  test('should upload large audio through the Files API', async () => {
+    handler = (req, res) => {
+      if (req.url === '/upload/v1beta/files') {
+        sendJson(res, 200, {}, { 'X-Goog-Upload-URL': `${baseUrl}/upload-session/1` });
+      } else if (req.url === '/upload-session/1') {
+        sendJson(res, 200, { file: { uri: 'https://files.example/audio-1' } });
+      } else {
+        sendJson(res, 200, geminiText('{"segments": []}'));
+      }
+    };
+
+    const largeAudio = Buffer.alloc(16 * 1024 * 1024);
+    await createProvider().transcribe(largeAudio, { format: 'verbose_json', fileName: 'long.wav' });
+
+    expect(requests.map(req => req.url)).toEqual([
+      '/upload/v1beta/files',
+      '/upload-session/1',
+      '/v1beta/models/gemini-1.5-flash:generateContent'
+    ]);
+    expect(requests[0].headers['x-goog-upload-header-content-type']).toBe('audio/wav');
+    expect(requests[1].headers['x-goog-upload-command']).toBe('upload, finalize');
+    const audioPart = JSON.parse(requests[2].body).contents[0].parts[1];
+    expect(audioPart.file_data).toEqual({ mime_type: 'audio/wav', file_uri: 'https://files.example/audio-1' });
+  });
+
+  test('should throw error with status and message from API errors', async () => {
+    handler = (req, res) => sendJson(res, 400, {
+      error: { code: 400, message: 'API key not valid.', status: 'INVALID_ARGUMENT' }
+    });
+
+    await expect(createProvider().transcribe(Buffer.from('audio'), { format: 'verbose_json' }))
+      .rejects.toMatchObject({
+        message: 'Gemini STT API error (400): API key not valid.',
+        status: 400,
+        response: { status: 400, data: { error: { status: 'INVALID_ARGUMENT' } } }
+      });
+  });
+
+  test('should mark server errors with an HTTP error code for retries', async () => {
+    handler = (req, res) => {
+      res.writeHead(503);
+      res.end('Service Unavailable');
+    };
+
+    await expect(createProvider().transcribe(Buffer.from('audio'), { format: 'verbose_json' }))
+      .rejects.toMatchObject({ status: 503, code: 'HTTP_503' });
+  });
+
+  test('should reject blocked prompts', async () => {
+    handler = (req, res) => sendJson(res, 200, { promptFeedback: { blockReason: 'SAFETY' } });
+
+    await expect(createProvider().transcribe(Buffer.from('audio'), { format: 'verbose_json' }))
+      .rejects.toThrow('Gemini STT request was blocked: SAFETY');
+  });
+
+  test('should require an API key', async () => {
+    const originalGeminiKey = process.env.GEMINI_API_KEY;
+    const originalGoogleKey = process.env.GOOGLE_API_KEY;
+    delete process.env.GEMINI_API_KEY;
+    delete process.env.GOOGLE_API_KEY;
+
+    try {
+      await expect(createProvider({ apiKey: '' }).transcribe(Buffer.from('audio'), { format: 'text' }))
+        .rejects.toThrow('Gemini API key is required');
+      expect(requests).toHaveLength(0);
+    } finally {
+      if (originalGeminiKey !== undefined) process.env.GEMINI_API_KEY = originalGeminiKey;
+      if (originalGoogleKey !== undefined) process.env.GOOGLE_API_KEY = originalGoogleKey;
+    }
+  });
+});
+
+describe('Gemini Summarization Provider', () => {
+  const createProvider = (model = 'gemini-1.5-flash') => {
+    const provider = new GeminiSummarizationProvider({
+      provider: 'gemini',
+      model,
+      apiKey: 'test-gemini-key',
+      baseUrl
+    });
+    // Skip real backoff delays
+    jest.spyOn(provider as any, 'sleep').mockResolvedValue(undefined);
+    return provider;
+  };
+
+  test('should send system prompt and segment timing hints', async () => {
+    handler = (req, res) => sendJson(res, 200, geminiText('## 회의 요약\n- 결정사항'));
+
+    const summary = await createProvider().summarize({
+      text: '첫 번째 안건을 논의했습니다.',
+      segments: [
+        { id: 0, start: 0, end: 12, text: '첫 번째 안건' },
+        { id: 1, start: 75, end: 90, text: '결정사항 정리' }
+      ]
+    }, { model: 'gemini-1.5-pro' });
+
+    expect(summary).toBe('## 회의 요약\n- 결정사항');
+    expect(requests[0].url).toBe('/v1beta/models/gemini-1.5-pro:generateContent');
+
+    const body = JSON.parse(requests[0].body);
+    expect(body.systemInstruction.parts[0].text).toContain('회의록 정리 전문가');
+    const userPrompt = body.contents[0].parts[0].text;
+    expect(userPrompt).toContain('다음 회의 내용을 정리해주세요:\n\n첫 번째 안건을 논의했습니다.');
+    expect(userPrompt).toContain('0:00-0:12: 첫 번째 안건');
+    expect(userPrompt).toContain('1:15-1:30: 결정사항 정리');
+    expect(body.generationConfig.maxOutputTokens).toBe(8192);
+  });
+
+  test('should send the configured system prompt as the system instruction', async () => {
+    handler = (req, res) => sendJson(res, 200, geminiText('summary'));
+
+    await createProvider().summarize({ text: '회의 내용' }, { systemPrompt: '결정사항만 정리하세요.' });
+
+    expect(JSON.parse(requests[0].body).systemInstruction).toEqual({ parts: [{ text: '결정사항만 정리하세요.' }] });
+  });
+
+  test('should keep an hour-long transcript intact for long-context models', async () => {
+    handler = (req, res) => sendJson(res, 200, geminiText('summary'));
+    const longText = '가'.repeat(200000);
+
+    await createProvider('gemini-1.5-flash').summarize({ text: longText }, {});
+
+    expect(JSON.parse(requests[0].body).contents[0].parts[0].text).toContain(longText);
+  });
+
+  test('should truncate input that exceeds the model context limit', async () => {
+    handler = (req, res) => sendJson(res, 200, geminiText('summary'));
+    const longText = '가'.repeat(200000);
+
+    await createProvider('gemini-pro').summarize({ text: longText }, {});
+
+    const body = JSON.parse(requests[0].body);
+    expect(body.contents[0].parts[0].text).toContain('토큰 제한으로 인해 생략되었습니다');
+    expect(body.contents[0].parts[0].text.length).toBeLessThan(60000);
+    expect(body.generationConfig.maxOutputTokens).toBe(2048);
+  });
+
+  test('should retry on 429 and 5xx responses', async () => {
+    const statuses = [429, 503];
+    handler = (req, res) => {
+      const status = statuses.shift();
+      if (status) {
+        sendJson(res, status, { error: { code: status, message: 'Try again later' } });
+      } else {
+        sendJson(res, 200, geminiText('recovered summary'));
+      }
+    };
+
+    const provider = createProvider();
+    const summary = await provider.summarize({ text: '회의 내용' }, {});
+
+    expect(summary).toBe('recovered summary');
+    expect(requests).toHaveLength(3);
+    expect((provider as any).sleep).toHaveBeenCalledTimes(2);
+  });
+
+  test('should honor the retry delay suggested by the API', async () => {
+    let attempts = 0;
+    handler = (req, res) => {
+      attempts++;
+      if (attempts === 1) {
+        sendJson(res, 429, {
+          error: {
+            code: 429,
+            message: 'Resource has been exhausted',
+            details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '7s' }]
+          }
+        });
+      } else {
+        sendJson(res, 200, geminiText('ok'));
+      }
+    };
+
+    const provider = createProvider();
+    await provider.summarize({ text: '회의 내용' }, {});
+
+    expect((provider as any).sleep).toHaveBeenCalledWith(7000, undefined);
+  });
+
+  test('should give up after the maximum number of retries', async () => {
+    handler = (req, res) => sendJson(res, 500, { error: { code: 500, message: 'Internal error' } });
+
+    await expect(createProvider().summarize({ text: '회의 내용' }, {}))
+      .rejects.toMatchObject({ message: 'Gemini API error (500): Internal error', status: 500, code: 'HTTP_500' });
+    expect(requests).toHaveLength(3);
+  });
+
+  test('should not retry client errors', async () => {
+    handler = (req, res) => sendJson(res, 400, { error: { code: 400, message: 'Invalid model' } });
+
+    await expect(createProvider().summarize({ text: '회의 내용' }, {}))
+      .rejects.toThrow('Gemini API error (400): Invalid model');
+    expect(requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,180 @@
+// Mock UUID to prevent ES module issues
+let uuidCounter = 0;
+jest.mock('uuid', () => ({
+  v4: () => `job-${++uuidCounter}`
+}));
+
+import { JobContext, JobQueue, JobRunner } from '../src/jobQueue';
+import { ProcessingJob } from '../src/types';
+
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Runner whose jobs stay open until the test resolves or rejects them
+function createControlledRunner() {
+  const pending = new Map<string, { resolve: (notePath: string) => void; reject: (error: Error) => void; context: JobContext }>();
+  const runner: JobRunner = jest.fn((job: ProcessingJob, context: JobContext) => new Promise<string>((resolve, reject) => {
+    pending.set(job.filePath, { resolve, reject, context });
+  }));
+  return { runner, pending };
+}
+
+describe('JobQueue', () => {
+  let persist: jest.Mock;
+
+  beforeEach(() => {
+    uuidCounter = 0;
+    persist = jest.fn().mockResolvedValue(undefined);
+  });
+
+  test('should respect the concurrency limit', async () => {
+    const { runner, pending } = createControlledRunner();
+    const queue = new JobQueue({ concurrency: 2, runner, persist });
+
+    queue.enqueue('a.m4a');
+    queue.enqueue('b.m4a');
+    queue.enqueue('c.m4a');
+
+    expect(runner).toHaveBeenCalledTimes(2);
+    expect(queue.getJobs().map(job => job.state)).toEqual(['segmenting', 'segmenting', 'queued']);
+
+    pending.get('a.m4a')!.resolve('Notes/a.md');
+    await flushPromises();
+
+    expect(runner).toHaveBeenCalledTimes(3);
+    expect(queue.getJobs()[0]).toEqual(expect.objectContaining({ state: 'done', progress: 100, notePath: 'Notes/a.md' }));
+  });
+
+  test('should track stage updates reported by the runner', async () => {
+    const { runner, pending } = createControlledRunner();
+    const queue = new JobQueue({ concurrency: 1, runner, persist });
+    const listener = jest.fn();
+    queue.subscribe(listener);
+
+    const job = queue.enqueue('a.m4a');
+    pending.get('a.m4a')!.context.update({ state: 'transcribing', progress: 40, message: 'Chunk 2/5' });
+
+    expect(queue.getJob(job.id)).toEqual(expect.objectContaining({ state: 'transcribing', progress: 40, message: 'Chunk 2/5' }));
+    expect(listener).toHaveBeenCalled();
+
+    // Progress-only updates do not rewrite plugin data
+    const persistCalls = persist.mock.calls.length;
+    pending.get('a.m4a')!.context.update({ progress: 60 });
+    expect(persist).toHaveBeenCalledTimes(persistCalls);
+    expect(queue.getJob(job.id)!.state).toBe('transcribing');
+  });
+
+  test('should mark failed jobs and retry them', async () => {
+    const { runner, pending } = createControlledRunner();
+    const onJobFinished = jest.fn();
+    const queue = new JobQueue({ concurrency: 1, runner, persist, onJobFinished });
+
+    const job = queue.enqueue('a.m4a');
+    const error = new Error('STT failed');
+    pending.get('a.m4a')!.reject(error);
+    await flushPromises();
+
+    expect(queue.getJob(job.id)).toEqual(expect.objectContaining({ state: 'failed', error: 'STT failed', attempts: 1 }));
+    expect(onJobFinished).toHaveBeenCalledWith(expect.objectContaining({ id: job.id }), error);
+
+    queue.retry(job.id);
+    expect(runner).toHaveBeenCalledTimes(2);
+    expect(queue.getJob(job.id)).toEqual(expect.objectContaining({ state: 'segmenting', attempts: 2 }));
+    expect(queue.getJob(job.id)!.error).toBeUndefined();
+  });
+
+  test('should cancel queued jobs before they start', async () => {
+    const { runner } = createControlledRunner();
+    const queue = new JobQueue({ concurrency: 1, runner, persist });
+
+    queue.enqueue('a.m4a');
+    const waiting = queue.enqueue('b.m4a');
+    queue.cancel(waiting.id);
+
+    expect(queue.getJob(waiting.id)!.state).toBe('cancelled');
+    expect(runner).toHaveBeenCalledTimes(1);
+  });
+
+  test('should stop a running job at its next checkpoint and ignore its result', async () => {
+    const { runner, pending } = createControlledRunner();
+    const onJobFinished = jest.fn();
+    const queue = new JobQueue({ concurrency: 1, runner, persist, onJobFinished });
+
+    const job = queue.enqueue('a.m4a');
+    queue.cancel(job.id);
+
+    const { context, resolve } = pending.get('a.m4a')!;
+    expect(() => context.throwIfCancelled()).toThrow('작업이 취소되었습니다.');
+    resolve('Notes/a.md');
+    await flushPromises();
+
+    expect(queue.getJob(job.id)!.state).toBe('cancelled');
+    expect(onJobFinished).not.toHaveBeenCalled();
+  });
+
+  test('should abort the signal of a running job when it is cancelled', async () => {
+    const { runner, pending } = createControlledRunner();
+    const onJobFinished = jest.fn();
+    const queue = new JobQueue({ concurrency: 1, runner, persist, onJobFinished });
+
+    const job = queue.enqueue('a.m4a');
+    queue.enqueue('b.m4a');
+    const { context, reject } = pending.get('a.m4a')!;
+    expect(context.signal.aborted).toBe(false);
+
+    queue.cancel(job.id);
+    expect(context.signal.aborted).toBe(true);
+
+    // The aborted pipeline rejects; the slot frees up for the next job
+    reject(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+    await flushPromises();
+
+    expect(queue.getJob(job.id)!.state).toBe('cancelled');
+    expect(onJobFinished).not.toHaveBeenCalled();
+    expect(pending.get('b.m4a')!.context.signal.aborted).toBe(false);
+  });
+
+  test('should not queue the same file twice while it is pending', () => {
+    const { runner } = createControlledRunner();
+    const queue = new JobQueue({ concurrency: 1, runner, persist });
+
+    const first = queue.enqueue('a.m4a');
+    const second = queue.enqueue('a.m4a');
+
+    expect(second.id).toBe(first.id);
+    expect(queue.getJobs()).toHaveLength(1);
+  });
+
+  test('should persist jobs and requeue interrupted ones after a restart', async () => {
+    const { runner } = createControlledRunner();
+    const stored: ProcessingJob[] = [
+      { id: 'old-1', filePath: 'a.m4a', state: 'transcribing', progress: 50, attempts: 1, createdAt: 1, updatedAt: 2 },
+      { id: 'old-2', filePath: 'b.m4a', state: 'done', progress: 100, attempts: 1, createdAt: 1, updatedAt: 2, notePath: 'b.md' }
+    ];
+    const queue = new JobQueue({ concurrency: 1, runner, persist }, stored);
+
+    expect(queue.getJob('old-1')).toEqual(expect.objectContaining({ state: 'queued', progress: 0 }));
+    expect(runner).not.toHaveBeenCalled();
+
+    queue.start();
+
+    expect(runner).toHaveBeenCalledWith(expect.objectContaining({ id: 'old-1' }), expect.any(Object));
+    expect(persist).toHaveBeenLastCalledWith(expect.arrayContaining([
+      expect.objectContaining({ id: 'old-1', state: 'segmenting' }),
+      expect.objectContaining({ id: 'old-2', state: 'done' })
+    ]));
+  });
+
+  test('should remove finished jobs', async () => {
+    const { runner, pending } = createControlledRunner();
+    const queue = new JobQueue({ concurrency: 1, runner, persist });
+
+    queue.enqueue('a.m4a');
+    queue.enqueue('b.m4a');
+    pending.get('a.m4a')!.resolve('a.md');
+    await flushPromises();
+
+    queue.clearFinished();
+
+    expect(queue.getJobs().map(job => job.filePath)).toEqual(['b.m4a']);
+  });
+});
@@ -0,0 +1,76 @@
+jest.mock('uuid', () => ({
+  v4: () => 'test-uuid-1234'
+}));
+
+import { AudioProcessor } from '../src/audioProcessor';
+import { LiveTranscriber } from '../src/liveTranscriber';
+import { RecordedSegment } from '../src/meetingRecorder';
+import { ATTNSettings, VerboseTranscriptionResult } from '../src/types';
+
+function segment(index: number, startSec: number, endSec: number): RecordedSegment {
+  return { index, data: new Blob([new Uint8Array([index])], { type: 'audio/webm' }), extension: 'webm', startSec, endSec };
+}
+
+function transcript(text: string): VerboseTranscriptionResult {
+  return { text, segments: [{ id: 0, start: 1, end: 4, text }] };
+}
+
+describe('LiveTranscriber', () => {
+  let processor: AudioProcessor;
+  let transcribeLiveChunk: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    processor = new AudioProcessor();
+    transcribeLiveChunk = jest.spyOn(processor, 'transcribeLiveChunk');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should merge chunks onto the recording timeline as they finish', async () => {
+    transcribeLiveChunk
+      .mockResolvedValueOnce(transcript('첫 번째 구간'))
+      .mockResolvedValueOnce(transcript('두 번째 구간'));
+    const transcriber = new LiveTranscriber(processor, () => ({} as ATTNSettings));
+    const listener = jest.fn();
+    transcriber.subscribe(listener);
+
+    transcriber.begin();
+    transcriber.addSegment(segment(0, 0, 60));
+    transcriber.addSegment(segment(1, 60, 95));
+    const result = await transcriber.finish();
+
+    expect(transcribeLiveChunk).toHaveBeenCalledTimes(2);
+    expect(transcribeLiveChunk.mock.calls[0][0].name).toBe('live-0.webm');
+    expect(result!.text).toBe('첫 번째 구간 두 번째 구간');
+    expect(result!.segments.map(item => item.start)).toEqual([1, 61]);
+    expect(transcriber.getState()).toEqual(expect.objectContaining({ active: false, completedChunks: 2, pendingChunks: 0 }));
+    expect(listener).toHaveBeenCalled();
+  });
+
+  test('should give up the live transcript when a chunk fails', async () => {
+    transcribeLiveChunk
+      .mockResolvedValueOnce(transcript('첫 번째 구간'))
+      .mockRejectedValueOnce(new Error('Network error'));
+    const transcriber = new LiveTranscriber(processor, () => ({} as ATTNSettings));
+
+    transcriber.begin();
+    transcriber.addSegment(segment(0, 0, 60));
+    transcriber.addSegment(segment(1, 60, 120));
+
+    expect(await transcriber.finish()).toBeNull();
+    expect(transcriber.getState().failedChunks).toBe(1);
+  });
+
+  test('should ignore segments when no recording is being transcribed', async () => {
+    const transcriber = new LiveTranscriber(processor, () => ({} as ATTNSettings));
+
+    transcriber.addSegment(segment(0, 0, 60));
+
+    expect(transcribeLiveChunk).not.toHaveBeenCalled();
+    expect(transcriber.getState().pendingChunks).toBe(0);
+  });
+});
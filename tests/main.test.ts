@@ -11,17 +11,21 @@ jest.mock('../src/apiService');
 jest.mock('../src/noteCreator');
 jest.mock('../src/templateProcessor');
 jest.mock('../src/configLoader');
+jest.mock('../src/audioSegmenter');
 
 import ATTNPlugin from '../src/main';
 import { ApiService } from '../src/apiService';
 import { NoteCreator } from '../src/noteCreator';
 import { TemplateProcessor } from '../src/templateProcessor';
 import { ConfigLoader } from '../src/configLoader';
+import { AudioSegmenter } from '../src/audioSegmenter';
+import { CheckpointStore } from '../src/checkpointStore';
 
 // Mock Obsidian classes
 class MockWorkspace {
   on = jest.fn();
   off = jest.fn();
+  onLayoutReady = jest.fn((callback: () => void) => callback());
 }
 
 class MockApp {
@@ -31,9 +35,23 @@ class MockApp {
     closeActiveTab: jest.fn(),
   };
   vault = {
+    adapter: {
+      exists: jest.fn().mockResolvedValue(false),
+    },
+    on: jest.fn(),
     create: jest.fn(),
     exists: jest.fn(),
     readBinary: jest.fn().mockResolvedValue(new ArrayBuffer(1024)),
+    getAbstractFileByPath: jest.fn((path: string) => {
+      const name = path.replace(/^\//, '');
+      return new MockTFile(name, name.split('.').pop() || '');
+    }),
+    getMarkdownFiles: jest.fn().mockReturnValue([]),
+  };
+  metadataCache = {
+    resolvedLinks: {} as Record<string, Record<string, number>>,
+    getFileCache: jest.fn().mockReturnValue(null),
+    getFirstLinkpathDest: jest.fn().mockReturnValue(null),
   };
 }
 
@@ -121,14 +139,27 @@ describe('ATTNPlugin Integration', () => {
     // Mock the constructors
     mockApiService = {
       processAudioFile: jest.fn(),
+      setProgressCallback: jest.fn(),
+      setStreamingCallback: jest.fn(),
+      setTranscriptionCache: jest.fn(),
+      setLiveTranscript: jest.fn(),
+      requireCachedTranscription: jest.fn(),
+      setRecordedAt: jest.fn(),
     } as any;
     
     mockNoteCreator = {
       createNote: jest.fn(),
+      overwriteNote: jest.fn(),
+      // No existing note at the generated path
+      saveNote: jest.fn(async (path: string, content: string) => {
+        await mockNoteCreator.createNote(path, content);
+        return { path, action: 'created' };
+      }),
     } as any;
     
     mockTemplateProcessor = {
       process: jest.fn(),
+      addFrontmatter: jest.fn((content: string) => content),
     } as any;
     
     mockConfigLoader = {
@@ -187,6 +218,98 @@ describe('ATTNPlugin Integration', () => {
       expect(plugin.addSettingTab).toHaveBeenCalled();
     });
 
+    test('should handle timestamp link clicks before Obsidian does', async () => {
+      await plugin.onload();
+
+      expect(plugin.registerDomEvent).toHaveBeenCalledWith(document, 'click', expect.any(Function), { capture: true });
+    });
+
+    test('should register hotkey-bindable commands for every action', async () => {
+      await plugin.onload();
+
+      const commandIds = (plugin.addCommand as jest.Mock).mock.calls.map(([command]) => command.id);
+      expect(commandIds).toEqual(expect.arrayContaining([
+        'process-active-file',
+        'process-embedded-audio',
+        'resummarize-note',
+        'regenerate-note-with-template',
+        'process-folder',
+        'start-meeting-recording',
+        'toggle-meeting-recording-pause',
+        'stop-meeting-recording',
+        'open-job-queue'
+      ]));
+    });
+
+    test('should re-summarize the active note from the recording that produced it', async () => {
+      await plugin.onload();
+      const note = new MockTFile('meeting-note.md', 'md');
+      (mockApp.workspace as any).getActiveFile = jest.fn().mockReturnValue(note);
+      jest.spyOn(plugin.jobQueue, 'getJobs').mockReturnValue([
+        { filePath: '/meeting.m4a', state: 'done', notePath: '/meeting-note.md' }
+      ] as any);
+      const processSpy = jest.spyOn(plugin, 'processAudioFile').mockResolvedValue();
+      const command = (plugin.addCommand as jest.Mock).mock.calls
+        .map(([command]) => command)
+        .find(command => command.id === 'resummarize-note');
+
+      expect(command.checkCallback(true)).toBe(true);
+      command.checkCallback(false);
+
+      expect(processSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ path: '/meeting.m4a' }),
+        { notePath: '/meeting-note.md', summaryOnly: true }
+      );
+    });
+
+    test('should find the source recording of a generated note through its frontmatter', async () => {
+      await plugin.onload();
+      const recording = new MockTFile('meeting.m4a', 'm4a');
+      (mockApp as any).metadataCache = {
+        getFileCache: jest.fn().mockReturnValue({ frontmatter: { source: '[[meeting.m4a]]' } }),
+        getFirstLinkpathDest: jest.fn().mockReturnValue(recording)
+      };
+
+      expect(plugin.findSourceMedia(new MockTFile('meeting-note.md', 'md') as any)).toBe(recording);
+      expect((mockApp as any).metadataCache.getFirstLinkpathDest).toHaveBeenCalledWith('meeting.m4a', '/meeting-note.md');
+    });
+
+    test('should not offer to regenerate notes that only embed a recording', async () => {
+      await plugin.onload();
+      (mockApp.workspace as any).getActiveFile = jest.fn().mockReturnValue(new MockTFile('my-notes.md', 'md'));
+      (mockApp as any).metadataCache = {
+        getFileCache: jest.fn().mockReturnValue({ embeds: [{ link: 'meeting.m4a' }] }),
+        getFirstLinkpathDest: jest.fn().mockReturnValue(new MockTFile('meeting.m4a', 'm4a'))
+      };
+      const commands = (plugin.addCommand as jest.Mock).mock.calls.map(([command]) => command);
+
+      expect(commands.find(command => command.id === 'resummarize-note').checkCallback(true)).toBe(false);
+      expect(commands.find(command => command.id === 'regenerate-note-with-template').checkCallback(true)).toBe(false);
+    });
+
+    test('should add a ribbon icon and a status bar item', async () => {
+      await plugin.onload();
+
+      expect(plugin.addRibbonIcon).toHaveBeenCalledWith('file-audio', expect.any(String), expect.any(Function));
+      expect(plugin.addStatusBarItem).toHaveBeenCalled();
+    });
+
+    test('should offer only media files without a finished or pending job', async () => {
+      await plugin.onload();
+      (mockApp.vault as any).getFiles = jest.fn().mockReturnValue([
+        new MockTFile('done.m4a', 'm4a'),
+        new MockTFile('failed.m4a', 'm4a'),
+        new MockTFile('new.mp4', 'mp4'),
+        new MockTFile('notes.md', 'md')
+      ]);
+      jest.spyOn(plugin.jobQueue, 'getJobs').mockReturnValue([
+        { filePath: '/done.m4a', state: 'done' },
+        { filePath: '/failed.m4a', state: 'failed' }
+      ] as any);
+
+      expect(plugin.getUnprocessedMediaFiles().map(file => file.path)).toEqual(['/failed.m4a', '/new.mp4']);
+    });
+
     test('should load settings on startup', async () => {
       await plugin.onload();
 
@@ -251,11 +374,62 @@ describe('ATTNPlugin Integration', () => {
       expect(items).toHaveLength(0);
     });
 
-    test('should not add menu item for mp3 files', () => {
+    test('should add menu item for other supported audio formats', () => {
+      for (const extension of ['mp3', 'wav', 'webm', 'ogg', 'opus', 'flac']) {
+        const mockMenu = new MockMenu();
+        const audioFile = new MockTFile(`recording.${extension}`, extension);
+
+        fileMenuHandler(mockMenu as any, audioFile as any);
+
+        const items = mockMenu.getItems();
+        expect(items).toHaveLength(1);
+        expect(items[0].title).toBe('ATTN: 요약 노트 생성하기');
+      }
+    });
+
+    test('should offer batch processing for folders, including subfolders', () => {
+      const { TFolder } = require('obsidian');
+      const mockMenu = new MockMenu();
+      const folder = new TFolder('Recordings');
+      const files = ['Recordings/a.m4a', 'Recordings/2024/b.mp3', 'Other/c.m4a'].map(path => {
+        const file = new MockTFile(path.split('/').pop()!, path.split('.').pop()!);
+        file.path = path;
+        return file;
+      });
+      (mockApp.vault as any).getFiles = jest.fn().mockReturnValue(files);
+
+      fileMenuHandler(mockMenu as any, folder);
+
+      expect(mockMenu.getItems().map(item => item.title)).toEqual(['ATTN: 폴더의 모든 녹음 처리하기']);
+      expect(plugin.getUnprocessedMediaFilesIn(folder).map(file => file.path))
+        .toEqual(['Recordings/2024/b.mp3', 'Recordings/a.m4a']);
+    });
+
+    test('should leave recordings that already have a note out of folder batches', () => {
+      const { TFolder } = require('obsidian');
+      const files = ['Recordings/a.m4a', 'Recordings/b.m4a', 'Recordings/c.m4a'].map(path => {
+        const file = new MockTFile(path.split('/').pop()!, 'm4a');
+        file.path = path;
+        return file;
+      });
+      const sourceNote = new MockTFile('c-note.md', 'md');
+      (mockApp.vault as any).getFiles = jest.fn().mockReturnValue(files);
+      mockApp.vault.getMarkdownFiles.mockReturnValue([sourceNote]);
+      mockApp.metadataCache.resolvedLinks = { 'Notes/a.md': { 'Recordings/a.m4a': 1 } };
+      mockApp.metadataCache.getFileCache.mockImplementation((note: MockTFile) =>
+        note === sourceNote ? { frontmatter: { source: '[[Recordings/c.m4a]]' } } : null);
+      mockApp.metadataCache.getFirstLinkpathDest.mockImplementation((linkpath: string) =>
+        files.find(file => file.path === linkpath) || null);
+
+      expect(plugin.getUnprocessedMediaFilesIn(new TFolder('Recordings')).map(file => file.path))
+        .toEqual(['Recordings/b.m4a']);
+    });
+
+    test('should not add menu item for unsupported media files', () => {
       const mockMenu = new MockMenu();
-      const mp3File = new MockTFile('song.mp3', 'mp3');
+      const midiFile = new MockTFile('song.mid', 'mid');
 
-      fileMenuHandler(mockMenu as any, mp3File as any);
+      fileMenuHandler(mockMenu as any, midiFile as any);
 
       const items = mockMenu.getItems();
       expect(items).toHaveLength(0);
@@ -319,10 +493,27 @@ describe('ATTNPlugin Integration', () => {
           name: 'meeting.m4a',
           type: 'audio/m4a'
         }), 
-        'Test prompt'
+        'Test prompt',
+        expect.any(AbortSignal)
       );
       expect(TemplateProcessor).toHaveBeenCalledTimes(1);
       expect(mockTemplateProcessor.process).toHaveBeenCalledTimes(2);
+      expect(mockTemplateProcessor.process).toHaveBeenNthCalledWith(
+        2,
+        expect.any(String),
+        expect.objectContaining({ mediaEmbed: '![[/meeting.m4a]]' })
+      );
+      expect(mockTemplateProcessor.addFrontmatter).toHaveBeenCalledWith(
+        '# Meeting\n\nTest meeting summary',
+        expect.objectContaining({
+          source: '[[/meeting.m4a]]',
+          language: 'ko',
+          stt_provider: 'openai',
+          stt_model: 'whisper-1',
+          summary_model: 'gpt-4',
+          audio_hash: expect.stringMatching(/^[0-9a-f]{64}$/)
+        })
+      );
       expect(NoteCreator).toHaveBeenCalledWith(mockApp.vault);
       expect(mockNoteCreator.createNote).toHaveBeenCalledWith(
         'Notes/Meetings/meeting-2025-09-02.md',
@@ -457,6 +648,152 @@ describe('ATTNPlugin Integration', () => {
       consoleSpy.mockRestore();
     });
 
+    test('should record processed files in plugin data', async () => {
+      await plugin.processAudioFile(new MockTFile('meeting.m4a', 'm4a') as any);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(plugin.saveData).toHaveBeenLastCalledWith(expect.objectContaining({
+        processedFiles: ['/meeting.m4a']
+      }));
+    });
+
+    test('should hand action items to templates as Tasks plugin lines', async () => {
+      mockApiService.processAudioFile.mockResolvedValue({
+        transcript: mockTranscript,
+        summary: mockSummary,
+        transcriptionResult: { text: mockTranscript, segments: [], language: 'ko' },
+        actionItems: [{ task: '견적서 보내기', owner: 'Speaker 1', due: '2024-05-10' }]
+      } as any);
+
+      await plugin.processAudioFile(new MockTFile('meeting.m4a', 'm4a') as any);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(mockTemplateProcessor.process).toHaveBeenNthCalledWith(
+        2,
+        expect.any(String),
+        expect.objectContaining({
+          actionItems: [{ task: '견적서 보내기', owner: 'Speaker 1', due: '2024-05-10', line: '- [ ] 견적서 보내기 @Speaker-1 📅 2024-05-10' }]
+        })
+      );
+    });
+
+    test('should pass the recording date of the file on for action items', async () => {
+      const file = new MockTFile('meeting.m4a', 'm4a');
+      file.stat = { ctime: 2000, mtime: 1000, size: 1024 };
+      mockApp.vault.getAbstractFileByPath.mockReturnValueOnce(file);
+
+      await plugin.processAudioFile(file as any);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(mockApiService.setRecordedAt).toHaveBeenCalledWith(1000);
+    });
+
+    test('should export subtitles and transcript JSON next to the note', async () => {
+      plugin.settings.transcriptExport = { srt: true, vtt: false, json: true };
+      mockApiService.processAudioFile.mockResolvedValue({
+        transcript: mockTranscript,
+        summary: mockSummary,
+        transcriptionResult: {
+          text: mockTranscript,
+          segments: [{ id: 0, start: 0, end: 4, text: 'Hello', speaker: { id: '1', label: 'Speaker 1' } }],
+          language: 'ko'
+        }
+      } as any);
+
+      await plugin.processAudioFile(new MockTFile('meeting.m4a', 'm4a') as any);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(mockNoteCreator.overwriteNote).toHaveBeenCalledWith(
+        'Notes/Meetings/meeting-2025-09-02.srt',
+        '1\n00:00:00,000 --> 00:00:04,000\nSpeaker 1: Hello\n'
+      );
+      expect(mockNoteCreator.overwriteNote).toHaveBeenCalledWith('Notes/Meetings/meeting-2025-09-02.json', expect.stringContaining('"text": "Hello"'));
+      expect(mockNoteCreator.overwriteNote).not.toHaveBeenCalledWith('Notes/Meetings/meeting-2025-09-02.vtt', expect.any(String));
+    });
+
+    test('should back up the note being regenerated before rewriting it', async () => {
+      await plugin.processAudioFile(new MockTFile('meeting.m4a', 'm4a') as any, { notePath: 'Notes/meeting.md' });
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(mockNoteCreator.saveNote).toHaveBeenCalledWith('Notes/meeting.md', '# Meeting\n\nTest meeting summary', 'backup');
+      expect(mockNoteCreator.overwriteNote).not.toHaveBeenCalledWith('Notes/meeting.md', expect.any(String));
+    });
+
+    test('should summarize a recording from the transcript stored while it was recorded', async () => {
+      const transcript = { text: 'Hello', segments: [{ id: 0, start: 0, end: 4, text: 'Hello' }], language: 'ko' };
+      const getRecordingTranscript = jest.spyOn(plugin.transcriptionCache, 'getRecordingTranscript').mockResolvedValue(transcript);
+
+      await plugin.processAudioFile(new MockTFile('recording.webm', 'webm') as any);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(getRecordingTranscript).toHaveBeenCalledWith(CheckpointStore.hashContent(new ArrayBuffer(1024)));
+      expect(mockApiService.setLiveTranscript).toHaveBeenCalledWith(transcript);
+    });
+
+    test('should re-summarize from the exported transcript next to the note', async () => {
+      const transcript = { text: 'Hello', segments: [{ id: 0, start: 0, end: 4, text: 'Hello' }], language: 'ko' };
+      mockApp.vault.adapter.exists.mockResolvedValueOnce(true);
+      (mockApp.vault.adapter as any).read = jest.fn().mockResolvedValue(JSON.stringify(transcript));
+
+      await plugin.processAudioFile(new MockTFile('meeting.m4a', 'm4a') as any, { notePath: 'Notes/meeting.md', summaryOnly: true });
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect((mockApp.vault.adapter as any).read).toHaveBeenCalledWith('Notes/meeting.json');
+      expect(mockApiService.setLiveTranscript).toHaveBeenCalledWith(transcript);
+      expect(mockApiService.requireCachedTranscription).not.toHaveBeenCalled();
+    });
+
+    test('should require a cached transcript when re-summarizing without an exported one', async () => {
+      await plugin.processAudioFile(new MockTFile('meeting.m4a', 'm4a') as any, { notePath: 'Notes/meeting.md', summaryOnly: true });
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(mockApiService.requireCachedTranscription).toHaveBeenCalled();
+      expect(mockApiService.setLiveTranscript).not.toHaveBeenCalled();
+    });
+
+    test('should extract the audio track from video files and link timestamps into the video', async () => {
+      const extractAudioTrack = jest.fn().mockResolvedValue(Buffer.alloc(2048));
+      (AudioSegmenter as jest.MockedClass<typeof AudioSegmenter>).mockImplementation(() => ({
+        extractAudioTrack
+      }) as any);
+      mockApiService.processAudioFile.mockResolvedValue({
+        transcript: mockTranscript,
+        summary: mockSummary,
+        transcriptionResult: {
+          text: mockTranscript,
+          segments: [
+            { id: 0, start: 0, end: 4, text: 'Hello' },
+            { id: 1, start: 95, end: 99, text: 'Wrap up' }
+          ],
+          language: 'ko'
+        }
+      } as any);
+
+      const mockMenu = new MockMenu();
+      const videoFile = new MockTFile('standup.mp4', 'mp4');
+
+      fileMenuHandler(mockMenu as any, videoFile as any);
+      expect(mockMenu.getItems()).toHaveLength(1);
+
+      await mockMenu.clickItem('ATTN: 요약 노트 생성하기');
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(extractAudioTrack).toHaveBeenCalledWith(expect.any(Buffer), expect.any(Object), 'mp4', expect.any(AbortSignal));
+      expect(mockApiService.processAudioFile).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'standup.m4a', type: 'audio/m4a' }),
+        'Test prompt',
+        expect.any(AbortSignal)
+      );
+      expect(mockTemplateProcessor.process).toHaveBeenNthCalledWith(
+        2,
+        expect.any(String),
+        expect.objectContaining({
+          mediaEmbed: '![[/standup.mp4]]',
+          speakerTranscript: '[[/standup.mp4#t=0|00:00]] Hello\n\n[[/standup.mp4#t=95|01:35]] Wrap up'
+        })
+      );
+    });
+
     test('should support both transcript and summary placeholders in note template', async () => {
       // Clear previous mocks and set up fresh state
       jest.clearAllMocks();
@@ -651,5 +988,33 @@ describe('ATTNPlugin Integration', () => {
         })
       }));
     });
+
+    test('should drop an Ollama endpoint instead of using it as a Whisper server', async () => {
+      plugin.loadData = jest.fn().mockResolvedValue({
+        stt: { provider: 'local-whisper', model: 'base', ollamaEndpoint: 'http://localhost:11434' }
+      });
+
+      await plugin.loadSettings();
+
+      expect(plugin.settings.stt.ollamaEndpoint).toBeUndefined();
+      expect(plugin.settings.stt.whisperServerUrl).toBeUndefined();
+    });
+
+    test('should move a self-hosted server out of the fields OpenAI and Gemini read', async () => {
+      plugin.loadData = jest.fn().mockResolvedValue({
+        openaiApiKey: 'existing-key',
+        stt: { provider: 'openai', model: 'whisper-1', apiKey: 'existing-key', baseUrl: 'https://proxy.example.com/v1' },
+        summary: { provider: 'openai-compatible', model: 'llama', apiKey: 'lm-studio', baseUrl: 'http://localhost:1234/v1' }
+      });
+
+      await plugin.loadSettings();
+
+      // An OpenAI base URL is that provider's own override and stays where it is
+      expect(plugin.settings.stt).toEqual(expect.objectContaining({ apiKey: 'existing-key', baseUrl: 'https://proxy.example.com/v1' }));
+      expect(plugin.settings.stt.compatibleBaseUrl).toBeUndefined();
+      expect(plugin.settings.summary.baseUrl).toBeUndefined();
+      expect(plugin.settings.summary.apiKey).toBeUndefined();
+      expect(plugin.settings.summary).toEqual(expect.objectContaining({ compatibleBaseUrl: 'http://localhost:1234/v1', compatibleApiKey: 'lm-studio' }));
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { formatTimestamp, formatTimestampLink, handleTimestampClick, parseTimestampLink } from '../src/mediaTimestamps';
+
+describe('mediaTimestamps', () => {
+  test('should format offsets as mm:ss and add hours once they are reached', () => {
+    expect(formatTimestamp(65.9)).toBe('01:05');
+    expect(formatTimestamp(3725)).toBe('1:02:05');
+    expect(formatTimestamp(-3)).toBe('00:00');
+  });
+
+  test('should format and parse timestamp links', () => {
+    expect(formatTimestampLink('Recordings/standup.m4a', 95.7)).toBe('[[Recordings/standup.m4a#t=95|01:35]]');
+    expect(formatTimestampLink('standup.m4a', 3725)).toBe('[[standup.m4a#t=3725|1:02:05]]');
+    expect(parseTimestampLink('Recordings/standup.m4a#t=95')).toEqual({ path: 'Recordings/standup.m4a', seconds: 95 });
+    expect(parseTimestampLink('Recordings/standup.m4a#Heading')).toBeNull();
+  });
+
+  describe('handleTimestampClick', () => {
+    let player: HTMLAudioElement;
+    let play: jest.Mock;
+
+    beforeEach(() => {
+      document.body.innerHTML = `
+        <div class="markdown-preview-view">
+          <span class="internal-embed media-embed" src="Recordings/standup.m4a"><audio controls></audio></span>
+          <p><a class="internal-link" data-href="Recordings/standup.m4a#t=95">01:35</a></p>
+          <p><a class="internal-link" data-href="Other/call.m4a#t=10">00:10</a></p>
+        </div>`;
+      player = document.querySelector('audio')!;
+      play = jest.fn().mockResolvedValue(undefined);
+      player.play = play;
+    });
+
+    const click = (selector: string) => {
+      const event = new MouseEvent('click', { bubbles: true, cancelable: true });
+      document.querySelector(selector)!.addEventListener('click', handleTimestampClick);
+      document.querySelector(selector)!.dispatchEvent(event);
+      return event;
+    };
+
+    test('should play the embedded recording from the clicked offset', () => {
+      const event = click('a[data-href$="#t=95"]');
+
+      expect(player.currentTime).toBe(95);
+      expect(play).toHaveBeenCalled();
+      expect(event.defaultPrevented).toBe(true);
+    });
+
+    test('should leave links to recordings the note does not embed to Obsidian', () => {
+      const event = click('a[data-href^="Other"]');
+
+      expect(play).not.toHaveBeenCalled();
+      expect(event.defaultPrevented).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { DataAdapter } from 'obsidian';
+import { MeetingRecorder, recordingFileName } from '../src/meetingRecorder';
+
+// In-memory stand-in for the vault adapter
+function createAdapter() {
+  const files = new Map<string, string | ArrayBuffer>();
+  const dirs = new Set<string>();
+  const adapter = {
+    exists: jest.fn(async (path: string) => files.has(path) || dirs.has(path)),
+    read: jest.fn(async (path: string) => files.get(path) as string),
+    write: jest.fn(async (path: string, data: string) => { files.set(path, data); }),
+    readBinary: jest.fn(async (path: string) => files.get(path) as ArrayBuffer),
+    writeBinary: jest.fn(async (path: string, data: ArrayBuffer) => { files.set(path, data); }),
+    mkdir: jest.fn(async (path: string) => { dirs.add(path); }),
+    list: jest.fn(async (path: string) => ({
+      files: [...files.keys()].filter(key => key.startsWith(`${path}/`)),
+      folders: []
+    })),
+    rmdir: jest.fn(async (path: string) => {
+      for (const key of [...files.keys(), ...dirs]) {
+        if (key === path || key.startsWith(`${path}/`)) {
+          files.delete(key);
+          dirs.delete(key);
+        }
+      }
+    })
+  };
+  return { adapter: adapter as unknown as DataAdapter, files };
+}
+
+// MediaRecorder that only emits the chunks a test hands to it
+class FakeMediaRecorder {
+  static instances: FakeMediaRecorder[] = [];
+  static isTypeSupported = jest.fn((mimeType: string) => mimeType.startsWith('audio/webm'));
+
+  state: 'inactive' | 'recording' | 'paused' = 'inactive';
+  mimeType: string;
+  private listeners = new Map<string, Array<(event: any) => void>>();
+
+  constructor(stream: unknown, options: { mimeType: string }) {
+    this.mimeType = options.mimeType;
+    FakeMediaRecorder.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (event: any) => void) {
+    this.listeners.set(type, [...(this.listeners.get(type) || []), listener]);
+  }
+
+  emit(type: string, event: any = {}) {
+    (this.listeners.get(type) || []).forEach(listener => listener(event));
+  }
+
+  emitChunk(bytes: number[]) {
+    const buffer = new Uint8Array(bytes).buffer;
+    this.emit('dataavailable', { data: { size: bytes.length, arrayBuffer: async () => buffer } });
+  }
+
+  start = jest.fn(() => { this.state = 'recording'; });
+  pause = jest.fn(() => { this.state = 'paused'; });
+  resume = jest.fn(() => { this.state = 'recording'; });
+  requestData = jest.fn();
+  stop = jest.fn(() => {
+    this.state = 'inactive';
+    this.emitChunk([9]);
+    this.emit('stop');
+  });
+}
+
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('MeetingRecorder', () => {
+  const track = { stop: jest.fn() };
+
+  beforeEach(() => {
+    FakeMediaRecorder.instances = [];
+    track.stop.mockClear();
+    (global as any).MediaRecorder = FakeMediaRecorder;
+    Object.defineProperty(navigator, 'mediaDevices', {
+      configurable: true,
+      value: { getUserMedia: jest.fn().mockResolvedValue({ getTracks: () => [track] }) }
+    });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    delete (global as any).MediaRecorder;
+    jest.restoreAllMocks();
+  });
+
+  test('should save chunks as they arrive and assemble them on stop', async () => {
+    const { adapter, files } = createAdapter();
+    const recorder = new MeetingRecorder(adapter, 'plugin/recording');
+
+    await recorder.start();
+    const mediaRecorder = FakeMediaRecorder.instances[0];
+    expect(mediaRecorder.mimeType).toBe('audio/webm;codecs=opus');
+    expect(recorder.getState()).toBe('recording');
+
+    mediaRecorder.emitChunk([1, 2]);
+    mediaRecorder.emitChunk([3]);
+    await flushPromises();
+    expect([...files.keys()].filter(path => path.endsWith('.bin'))).toHaveLength(2);
+
+    recorder.pause();
+    expect(recorder.getState()).toBe('paused');
+    expect(mediaRecorder.requestData).toHaveBeenCalled();
+    recorder.resume();
+
+    const audio = await recorder.stop();
+
+    expect(Array.from(new Uint8Array(audio.data))).toEqual([1, 2, 3, 9]);
+    expect(audio.extension).toBe('webm');
+    expect(recorder.getState()).toBe('idle');
+    expect(track.stop).toHaveBeenCalled();
+  });
+
+  test('should recover a recording that was never stopped', async () => {
+    const { adapter } = createAdapter();
+    const first = new MeetingRecorder(adapter, 'plugin/recording');
+    await first.start();
+    FakeMediaRecorder.instances[0].emitChunk([4, 5]);
+    await flushPromises();
+
+    // A new instance stands in for the plugin loading again after a crash
+    const second = new MeetingRecorder(adapter, 'plugin/recording');
+    const recovered = await second.recover();
+
+    expect(Array.from(new Uint8Array(recovered!.data))).toEqual([4, 5]);
+    await second.clearParts();
+    expect(await second.recover()).toBeNull();
+  });
+
+  test('should hand over a standalone segment every minute for live transcription', async () => {
+    jest.useFakeTimers();
+    try {
+      const { adapter } = createAdapter();
+      const recorder = new MeetingRecorder(adapter, 'plugin/recording');
+      const onSegment = jest.fn();
+
+      await recorder.start(onSegment);
+      expect(FakeMediaRecorder.instances).toHaveLength(2);
+
+      jest.advanceTimersByTime(61 * 1000);
+      expect(onSegment).toHaveBeenCalledTimes(1);
+      expect(onSegment.mock.calls[0][0]).toEqual(expect.objectContaining({ index: 0, startSec: 0, extension: 'webm' }));
+      expect(onSegment.mock.calls[0][0].endSec).toBeGreaterThanOrEqual(60);
+
+      jest.advanceTimersByTime(10 * 1000);
+      const stopping = recorder.stop();
+      await jest.runOnlyPendingTimersAsync();
+      await stopping;
+
+      expect(onSegment).toHaveBeenCalledTimes(2);
+      expect(onSegment.mock.calls[1][0].startSec).toBe(onSegment.mock.calls[0][0].endSec);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('should fail to start when recording is not available', async () => {
+    delete (global as any).MediaRecorder;
+    const { adapter } = createAdapter();
+
+    await expect(new MeetingRecorder(adapter, 'plugin/recording').start()).rejects.toThrow('녹음을 지원하지 않습니다');
+  });
+
+  test('should name recordings after their start time', () => {
+    expect(recordingFileName(new Date(2024, 4, 1, 14, 30).getTime(), 'webm')).toBe('meeting-2024-05-01-1430.webm');
+  });
+});
@@ -2,6 +2,10 @@ import { createSttProvider, createSummarizationProvider } from '../src/providers
 import { SttSettings, SummarySettings, VerboseTranscriptionResult } from '../src/types';
 import { OpenAiSttProvider } from '../src/providers/OpenAiSttProvider';
 import { OpenAiSummarizationProvider } from '../src/providers/OpenAiSummarizationProvider';
+import { AnthropicSummarizationProvider } from '../src/providers/AnthropicSummarizationProvider';
+import { LocalLlmProvider } from '../src/providers/LocalLlmProvider';
+import { LocalWhisperProvider } from '../src/providers/LocalWhisperProvider';
+import { buildOpenAiHeaders, listOpenAiCompatibleModels, parseCustomHeaders, formatCustomHeaders } from '../src/providers/openAiCompatible';
 
 // Mock fetch for testing
 global.fetch = jest.fn();
@@ -49,7 +53,7 @@ describe('Provider Factory', () => {
       const settings: SttSettings = {
         provider: 'local-whisper',
         model: 'whisper-tiny',
-        ollamaEndpoint: 'http://localhost:11434',
+        whisperServerUrl: 'http://127.0.0.1:8080',
         language: 'en'
       };
 
@@ -489,4 +493,512 @@ describe('OpenAI Summarization Provider', () => {
       expect(parsedBody.messages[1].content).toContain('0:00-0:10');
     }
   });
-});
\ No newline at end of file
+
+  test('should send the configured system prompt as the system message', async () => {
+    const completion = {
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: 'Summary' } }] })
+    } as Response;
+    mockFetch.mockClear();
+    mockFetch.mockResolvedValueOnce(completion).mockResolvedValueOnce(completion);
+
+    await provider.summarize({ text: 'Full transcript' }, { systemPrompt: '결정사항만 정리하세요.' });
+    await provider.summarize({ text: 'Full transcript' }, {});
+
+    const systemMessages = mockFetch.mock.calls.map(([, init]) => JSON.parse((init as RequestInit).body as string).messages[0]);
+    expect(systemMessages[0]).toEqual({ role: 'system', content: '결정사항만 정리하세요.' });
+    expect(systemMessages[1].content).toContain('회의록 정리 전문가');
+  });
+});
+
+describe('OpenAI-compatible Provider', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should be created by the factory for both STT and summaries', () => {
+    expect(createSttProvider({ provider: 'openai-compatible', model: 'small', compatibleBaseUrl: 'http://localhost:8000/v1' }))
+      .toBeInstanceOf(OpenAiSttProvider);
+    expect(createSummarizationProvider({ provider: 'openai-compatible', model: 'llama', compatibleBaseUrl: 'http://localhost:1234/v1' }))
+      .toBeInstanceOf(OpenAiSummarizationProvider);
+  });
+
+  test('should never send OpenAI requests or keys to the self-hosted server', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ text: 'hello', segments: [] })
+    } as Response);
+    const settings = {
+      model: 'whisper-1',
+      apiKey: 'sk-openai',
+      compatibleBaseUrl: 'http://localhost:8000/v1',
+      compatibleApiKey: 'local-key',
+      customHeaders: { 'X-Tenant': 'team-a' }
+    };
+
+    await createSttProvider({ ...settings, provider: 'openai' }).transcribe(new ArrayBuffer(8), { format: 'verbose_json' });
+    await createSttProvider({ ...settings, provider: 'openai-compatible' }).transcribe(new ArrayBuffer(8), { format: 'verbose_json' });
+
+    expect(mockFetch).toHaveBeenNthCalledWith(1, 'https://api.openai.com/v1/audio/transcriptions', expect.objectContaining({
+      headers: { 'Authorization': 'Bearer sk-openai' }
+    }));
+    expect(mockFetch).toHaveBeenNthCalledWith(2, 'http://localhost:8000/v1/audio/transcriptions', expect.objectContaining({
+      headers: { 'Authorization': 'Bearer local-key', 'X-Tenant': 'team-a' }
+    }));
+  });
+
+  test('should transcribe without an API key and send custom headers', async () => {
+    const originalKey = process.env.OPENAI_API_KEY;
+    process.env.OPENAI_API_KEY = 'env-openai-key';
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ text: 'hello', segments: [{ id: 0, start: 0, end: 1, text: 'hello' }] })
+    } as Response);
+
+    try {
+      const provider = new OpenAiSttProvider({
+        provider: 'openai-compatible',
+        model: 'Systran/faster-whisper-small',
+        baseUrl: 'http://localhost:8000/v1',
+        customHeaders: { 'X-Tenant': 'team-a' }
+      });
+      await provider.transcribe(new ArrayBuffer(8), { format: 'verbose_json' });
+    } finally {
+      if (originalKey === undefined) delete process.env.OPENAI_API_KEY;
+      else process.env.OPENAI_API_KEY = originalKey;
+    }
+
+    expect(mockFetch).toHaveBeenCalledWith('http://localhost:8000/v1/audio/transcriptions', expect.objectContaining({
+      headers: { 'X-Tenant': 'team-a' }
+    }));
+  });
+
+  test('should summarize with an optional API key', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: 'summary' } }] })
+    } as Response);
+
+    const provider = new OpenAiSummarizationProvider({
+      provider: 'openai-compatible',
+      model: 'llama-3.1-8b-instruct',
+      baseUrl: 'http://localhost:1234/v1',
+      apiKey: 'lm-studio'
+    });
+    const result = await provider.summarize({ text: 'meeting' }, {});
+
+    expect(result).toBe('summary');
+    expect(mockFetch).toHaveBeenCalledWith('http://localhost:1234/v1/chat/completions', expect.objectContaining({
+      headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer lm-studio' }
+    }));
+  });
+
+  test('should require a base URL', async () => {
+    const provider = new OpenAiSummarizationProvider({ provider: 'openai-compatible', model: 'llama' });
+
+    await expect(provider.summarize({ text: 'meeting' }, {}))
+      .rejects.toThrow('Base URL is required for OpenAI-compatible servers');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  test('should let custom headers replace the Authorization header', () => {
+    expect(buildOpenAiHeaders('key', { Authorization: 'Token abc' })).toEqual({ Authorization: 'Token abc' });
+    expect(buildOpenAiHeaders(undefined, undefined)).toEqual({});
+  });
+
+  test('should parse and format custom header lines', () => {
+    const headers = parseCustomHeaders('X-Api-Key: secret\n\n# comment\nX-Url: http://a:b');
+    expect(headers).toEqual({ 'X-Api-Key': 'secret', 'X-Url': 'http://a:b' });
+    expect(formatCustomHeaders(headers)).toBe('X-Api-Key: secret\nX-Url: http://a:b');
+    expect(() => parseCustomHeaders('no separator')).toThrow('Invalid header line "no separator"');
+  });
+
+  test('should discover models from /models', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ object: 'list', data: [{ id: 'whisper-large-v3' }, { id: 'distil-small' }] })
+    } as Response);
+
+    const models = await listOpenAiCompatibleModels({
+      baseUrl: 'http://localhost:8000/v1/',
+      customHeaders: { 'X-Tenant': 'team-a' }
+    });
+
+    expect(models).toEqual(['distil-small', 'whisper-large-v3']);
+    expect(mockFetch).toHaveBeenCalledWith('http://localhost:8000/v1/models', {
+      method: 'GET',
+      headers: { 'X-Tenant': 'team-a' }
+    });
+  });
+
+  test('should report model discovery failures', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 404,
+      statusText: 'Not Found',
+      json: async () => ({})
+    } as Response);
+
+    await expect(listOpenAiCompatibleModels({ baseUrl: 'http://localhost:8000/v1' }))
+      .rejects.toThrow('Model list request failed (404): Not Found');
+  });
+});
+
+describe('Anthropic Summarization Provider', () => {
+  let provider: AnthropicSummarizationProvider;
+
+  const anthropicResponse = (text: string, stopReason = 'end_turn') => ({
+    ok: true,
+    json: async () => ({
+      type: 'message',
+      role: 'assistant',
+      content: [{ type: 'text', text }],
+      stop_reason: stopReason
+    })
+  } as Response);
+
+  const anthropicError = (status: number, message: string, headers: Record<string, string> = {}) => ({
+    ok: false,
+    status,
+    statusText: 'Error',
+    headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    json: async () => ({ type: 'error', error: { type: 'api_error', message } })
+  } as unknown as Response);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    provider = new AnthropicSummarizationProvider({
+      provider: 'anthropic',
+      model: 'claude-sonnet-4-5',
+      apiKey: 'sk-ant-test'
+    });
+    // Skip real backoff delays
+    jest.spyOn(provider as any, 'sleep').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should be created by the factory', () => {
+    expect(createSummarizationProvider({ provider: 'anthropic', model: 'claude-sonnet-4-5', apiKey: 'key' }))
+      .toBeInstanceOf(AnthropicSummarizationProvider);
+  });
+
+  test('should call the Messages API with the system prompt as a system parameter', async () => {
+    mockFetch.mockResolvedValueOnce(anthropicResponse('## 회의 요약'));
+
+    const result = await provider.summarize({
+      text: '회의 내용',
+      segments: [{ id: 0, start: 0, end: 30, text: '안건 소개' }]
+    }, { systemPrompt: '당신은 회의록 작성자입니다.' });
+
+    expect(result).toBe('## 회의 요약');
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect((init as RequestInit).headers).toEqual({
+      'Content-Type': 'application/json',
+      'x-api-key': 'sk-ant-test',
+      'anthropic-version': '2023-06-01'
+    });
+
+    const body = JSON.parse((init as RequestInit).body as string);
+    expect(body.model).toBe('claude-sonnet-4-5');
+    expect(body.system).toBe('당신은 회의록 작성자입니다.');
+    expect(body.messages).toHaveLength(1);
+    expect(body.messages[0].role).toBe('user');
+    expect(body.messages[0].content).toContain('0:00-0:30: 안건 소개');
+  });
+
+  test('should fit an hour-long transcript without truncation', async () => {
+    mockFetch.mockResolvedValueOnce(anthropicResponse('summary'));
+    const longText = '가'.repeat(120000);
+
+    await provider.summarize({ text: longText }, {});
+
+    const body = JSON.parse((mockFetch.mock.calls[0][1] as RequestInit).body as string);
+    expect(body.messages[0].content).toContain(longText);
+    expect(body.messages[0].content).not.toContain('토큰 제한으로 인해 생략되었습니다');
+  });
+
+  test('should retry on rate limits and overload errors', async () => {
+    mockFetch
+      .mockResolvedValueOnce(anthropicError(429, 'Rate limited', { 'retry-after': '3' }))
+      .mockResolvedValueOnce(anthropicError(529, 'Overloaded'))
+      .mockResolvedValueOnce(anthropicResponse('recovered'));
+
+    const result = await provider.summarize({ text: '회의 내용' }, {});
+
+    expect(result).toBe('recovered');
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect((provider as any).sleep).toHaveBeenNthCalledWith(1, 3000, undefined);
+  });
+
+  test('should pass the abort signal to the request and the retry backoff', async () => {
+    const controller = new AbortController();
+    mockFetch
+      .mockResolvedValueOnce(anthropicError(529, 'Overloaded'))
+      .mockResolvedValueOnce(anthropicResponse('recovered'));
+
+    await provider.summarize({ text: '회의 내용' }, { signal: controller.signal });
+
+    expect((mockFetch.mock.calls[0][1] as RequestInit).signal).toBe(controller.signal);
+    expect((provider as any).sleep).toHaveBeenCalledWith(1000, controller.signal);
+  });
+
+  test('should throw enhanced errors without retrying client errors', async () => {
+    mockFetch.mockResolvedValueOnce(anthropicError(401, 'invalid x-api-key'));
+
+    await expect(provider.summarize({ text: '회의 내용' }, {})).rejects.toMatchObject({
+      message: 'Anthropic API error (401): invalid x-api-key',
+      status: 401,
+      response: { status: 401, data: { error: { message: 'invalid x-api-key' } } }
+    });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('should require an API key', async () => {
+    const originalKey = process.env.ANTHROPIC_API_KEY;
+    delete process.env.ANTHROPIC_API_KEY;
+    try {
+      const keyless = new AnthropicSummarizationProvider({ provider: 'anthropic', model: 'claude-sonnet-4-5' });
+      await expect(keyless.summarize({ text: 'x' }, {})).rejects.toThrow('Anthropic API key is required');
+    } finally {
+      if (originalKey !== undefined) process.env.ANTHROPIC_API_KEY = originalKey;
+    }
+  });
+});
+
+describe('Local LLM Provider (Ollama)', () => {
+  // Simulates a fetch body that delivers the NDJSON stream in arbitrary byte chunks
+  const streamingResponse = (lines: object[], chunkSize = 7) => {
+    const bytes = Buffer.from(lines.map(line => JSON.stringify(line)).join('\n') + '\n');
+    const chunks: Uint8Array[] = [];
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+      chunks.push(new Uint8Array(bytes.subarray(i, i + chunkSize)));
+    }
+    return {
+      ok: true,
+      status: 200,
+      body: {
+        getReader: () => ({
+          read: async () => chunks.length > 0
+            ? { done: false, value: chunks.shift() }
+            : { done: true, value: undefined }
+        })
+      }
+    } as unknown as Response;
+  };
+
+  const createProvider = (overrides = {}) => new LocalLlmProvider({
+    provider: 'local-llm',
+    model: 'llama3.1',
+    ollamaEndpoint: 'http://localhost:11434',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should stream /api/chat tokens to onToken and return the full text', async () => {
+    mockFetch.mockResolvedValueOnce(streamingResponse([
+      { message: { role: 'assistant', content: '## 회의' }, done: false },
+      { message: { role: 'assistant', content: ' 요약' }, done: false },
+      { message: { role: 'assistant', content: '' }, done: true }
+    ]));
+    const onToken = jest.fn();
+
+    const result = await createProvider().summarize({ text: '회의 내용' }, { onToken });
+
+    expect(result).toBe('## 회의 요약');
+    expect(onToken).toHaveBeenNthCalledWith(1, '## 회의', '## 회의');
+    expect(onToken).toHaveBeenNthCalledWith(2, ' 요약', '## 회의 요약');
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/api/chat');
+    const body = JSON.parse((init as RequestInit).body as string);
+    expect(body.stream).toBe(true);
+    expect(body.options).toEqual({ temperature: 0.3 });
+  });
+
+  test('should pass num_ctx and temperature from settings', async () => {
+    mockFetch.mockResolvedValueOnce(streamingResponse([{ message: { content: 'ok' }, done: true }]));
+
+    await createProvider({ ollamaNumCtx: 32768, ollamaTemperature: 0.1 }).summarize({ text: 'x' }, {});
+
+    const body = JSON.parse((mockFetch.mock.calls[0][1] as RequestInit).body as string);
+    expect(body.options).toEqual({ temperature: 0.1, num_ctx: 32768 });
+  });
+
+  test('should send the configured system prompt as the system message', async () => {
+    mockFetch.mockResolvedValueOnce(streamingResponse([{ message: { content: 'ok' }, done: true }]));
+
+    await createProvider().summarize({ text: 'x' }, { systemPrompt: '결정사항만 정리하세요.' });
+
+    const body = JSON.parse((mockFetch.mock.calls[0][1] as RequestInit).body as string);
+    expect(body.messages[0]).toEqual({ role: 'system', content: '결정사항만 정리하세요.' });
+  });
+
+  test('should explain how to pull a missing model', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 404,
+      statusText: 'Not Found',
+      json: async () => ({ error: 'model "qwen2.5" not found, try pulling it first' })
+    } as Response);
+
+    await expect(createProvider().summarize({ text: 'x' }, { model: 'qwen2.5' }))
+      .rejects.toThrow('Model "qwen2.5" is not installed in Ollama. Run "ollama pull qwen2.5" and try again.');
+  });
+
+  test('should report errors sent inside the stream', async () => {
+    mockFetch.mockResolvedValueOnce(streamingResponse([
+      { message: { content: 'partial' }, done: false },
+      { error: 'out of memory' }
+    ]));
+
+    await expect(createProvider().summarize({ text: 'x' }, {}))
+      .rejects.toThrow('Local LLM summarization failed: out of memory');
+  });
+
+  test('should explain when Ollama is not running', async () => {
+    mockFetch.mockRejectedValueOnce(Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }));
+
+    await expect(createProvider().summarize({ text: 'x' }, {}))
+      .rejects.toThrow('Cannot reach Ollama at http://localhost:11434');
+  });
+
+  test('should surface cancellation instead of a connection error', async () => {
+    const abortError = Object.assign(new Error('This operation was aborted'), { name: 'AbortError' });
+    mockFetch.mockRejectedValueOnce(abortError);
+
+    await expect(createProvider().summarize({ text: 'x' }, { signal: new AbortController().signal }))
+      .rejects.toBe(abortError);
+  });
+});
+
+describe('Local Whisper Provider (server)', () => {
+  const okResponse = (body: any) => ({
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    json: async () => body,
+    text: async () => JSON.stringify(body)
+  } as Response);
+
+  const createProvider = (overrides: Partial<SttSettings> = {}) => new LocalWhisperProvider({
+    provider: 'local-whisper',
+    model: 'whisper-1',
+    language: 'ko',
+    whisperServerUrl: 'http://127.0.0.1:8080/',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should post multipart audio to whisper.cpp /inference and parse segments', async () => {
+    mockFetch
+      .mockResolvedValueOnce(okResponse({ status: 'ok' }))
+      .mockResolvedValueOnce(okResponse({
+        text: ' 안녕하세요 회의를 시작합니다',
+        segments: [
+          { id: 0, start: 0, end: 2.5, text: ' 안녕하세요' },
+          { id: 1, start: 2.5, end: 5, text: ' 회의를 시작합니다' }
+        ]
+      }));
+
+    const result = await createProvider().transcribe(new ArrayBuffer(8), { format: 'verbose_json', fileName: 'meeting.mp3' });
+
+    expect(mockFetch.mock.calls[0][0]).toBe('http://127.0.0.1:8080/health');
+    const [url, init] = mockFetch.mock.calls[1];
+    expect(url).toBe('http://127.0.0.1:8080/inference');
+    const form = (init as RequestInit).body as FormData;
+    expect(form.get('response_format')).toBe('verbose_json');
+    expect(form.get('language')).toBe('ko');
+    expect(File).toHaveBeenCalledWith(expect.any(Array), 'audio.mp3', { type: 'audio/mpeg' });
+
+    expect(result.text).toBe('안녕하세요 회의를 시작합니다');
+    expect(result.segments).toEqual([
+      { id: 0, start: 0, end: 2.5, text: '안녕하세요' },
+      { id: 1, start: 2.5, end: 5, text: '회의를 시작합니다' }
+    ]);
+    expect(result.duration).toBe(5);
+  });
+
+  test('should use the OpenAI route and model for faster-whisper-server', async () => {
+    mockFetch
+      .mockResolvedValueOnce(okResponse({}))
+      .mockResolvedValueOnce(okResponse({ text: 'hello', language: 'en', duration: 1, segments: [{ id: 0, start: 0, end: 1, text: 'hello' }] }));
+
+    await createProvider({ whisperServerType: 'faster-whisper-server', model: 'Systran/faster-whisper-large-v3' })
+      .transcribe(new ArrayBuffer(8), { format: 'verbose_json' });
+
+    const [url, init] = mockFetch.mock.calls[1];
+    expect(url).toBe('http://127.0.0.1:8080/v1/audio/transcriptions');
+    expect(((init as RequestInit).body as FormData).get('model')).toBe('Systran/faster-whisper-large-v3');
+  });
+
+  test('should convert whisper.cpp millisecond offsets into seconds', async () => {
+    mockFetch
+      .mockResolvedValueOnce(okResponse({ status: 'ok' }))
+      .mockResolvedValueOnce(okResponse({
+        transcription: [{ offsets: { from: 1500, to: 4000 }, text: ' first' }]
+      }));
+
+    const result = await createProvider().transcribe(new ArrayBuffer(8), { format: 'verbose_json' });
+
+    expect(result.segments).toEqual([{ id: 0, start: 1.5, end: 4, text: 'first' }]);
+    expect(result.text).toBe('first');
+  });
+
+  test('should fall back to GET / when the server has no /health route', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' } as Response)
+      .mockResolvedValueOnce({ ok: true, status: 200, text: async () => '<title>Whisper.cpp Server</title>' } as Response);
+
+    const health = await createProvider().checkServerHealth();
+
+    expect(health.ok).toBe(true);
+    expect(mockFetch.mock.calls[1][0]).toBe('http://127.0.0.1:8080/');
+  });
+
+  test('should not mistake another service on the port for a Whisper server', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' } as Response)
+      .mockResolvedValueOnce({ ok: true, status: 200, text: async () => 'Ollama is running' } as Response);
+
+    const health = await createProvider({ whisperServerUrl: 'http://localhost:11434' }).checkServerHealth();
+
+    expect(health).toEqual({ ok: false, message: 'The server at http://localhost:11434 is not a whisper.cpp server' });
+  });
+
+  test('should check faster-whisper-server through its model list', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' } as Response)
+      .mockResolvedValueOnce(okResponse({ data: [] }));
+
+    const health = await createProvider({ whisperServerType: 'faster-whisper-server' }).checkServerHealth();
+
+    expect(health.ok).toBe(true);
+    expect(mockFetch.mock.calls[1][0]).toBe('http://127.0.0.1:8080/v1/models');
+  });
+
+  test('should fail with an actionable message when the server is unreachable', async () => {
+    mockFetch.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+
+    await expect(createProvider().transcribe(new ArrayBuffer(8), { format: 'verbose_json' }))
+      .rejects.toThrow('Cannot reach whisper server at http://127.0.0.1:8080: connect ECONNREFUSED');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,67 @@
+// Mock UUID to prevent ES module issues
+let uuidCounter = 0;
+jest.mock('uuid', () => ({
+  v4: () => `job-${++uuidCounter}`
+}));
+
+import { JobContext, JobQueue, JobRunner } from '../src/jobQueue';
+import { JobStatusBar } from '../src/statusBar';
+import { ProcessingJob } from '../src/types';
+
+function createStatusBarEl() {
+  return {
+    addClass: jest.fn(),
+    addEventListener: jest.fn(),
+    setText: jest.fn(),
+    setAttr: jest.fn(),
+    toggle: jest.fn()
+  };
+}
+
+describe('JobStatusBar', () => {
+  let contexts: Map<string, JobContext>;
+  let queue: JobQueue;
+
+  beforeEach(() => {
+    uuidCounter = 0;
+    contexts = new Map();
+    const runner: JobRunner = jest.fn((job: ProcessingJob, context: JobContext) => {
+      contexts.set(job.filePath, context);
+      return new Promise<string>(() => {});
+    });
+    queue = new JobQueue({ concurrency: 1, runner, persist: jest.fn().mockResolvedValue(undefined) });
+  });
+
+  test('should stay hidden while the queue is idle', () => {
+    const el = createStatusBarEl();
+    new JobStatusBar(el as any, queue, jest.fn());
+
+    expect(el.toggle).toHaveBeenLastCalledWith(false);
+  });
+
+  test('should show the stage and percent of the running job', () => {
+    const el = createStatusBarEl();
+    new JobStatusBar(el as any, queue, jest.fn());
+
+    queue.enqueue('Recordings/standup.m4a');
+    queue.enqueue('Recordings/retro.m4a');
+    contexts.get('Recordings/standup.m4a')!.update({ state: 'transcribing', progress: 42.4 });
+
+    expect(el.setText).toHaveBeenLastCalledWith('ATTN 🎙️ 음성 인식 중 42% · standup.m4a (대기 1)');
+    expect(el.toggle).toHaveBeenLastCalledWith(true);
+  });
+
+  test('should open the queue when clicked and stop updating once destroyed', () => {
+    const el = createStatusBarEl();
+    const onClick = jest.fn();
+    const statusBar = new JobStatusBar(el as any, queue, onClick);
+
+    el.addEventListener.mock.calls[0][1]();
+    expect(onClick).toHaveBeenCalled();
+
+    statusBar.destroy();
+    el.setText.mockClear();
+    queue.enqueue('Recordings/standup.m4a');
+    expect(el.setText).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,66 @@
+import { buildSubtitleCues, sidecarPath, toSrt, toTranscriptJson, toVtt, wrapSubtitleText } from '../src/transcriptExport';
+import { VerboseTranscriptionResult } from '../src/types';
+
+const speaker = (id: string) => ({ id, label: `Speaker ${id}` });
+
+describe('transcriptExport', () => {
+  test('should wrap text on word boundaries and cut words longer than a line', () => {
+    expect(wrapSubtitleText('one two three four', 9)).toEqual(['one two', 'three', 'four']);
+    expect(wrapSubtitleText('가나다라마바사', 3)).toEqual(['가나다', '라마바', '사']);
+  });
+
+  test('should split long segments into readable cues and keep short ones on screen', () => {
+    const result: VerboseTranscriptionResult = {
+      text: '',
+      segments: [
+        { id: 0, start: 0, end: 20, text: 'a'.repeat(40) + ' ' + 'b'.repeat(40) + ' ' + 'c'.repeat(40) },
+        { id: 1, start: 20, end: 20.2, text: 'Yes' },
+        { id: 2, start: 25, end: 26, text: 'Next' }
+      ]
+    };
+
+    const cues = buildSubtitleCues(result);
+
+    // 20 seconds of text need three cues to stay under 7 seconds each
+    expect(cues.slice(0, 3).map(cue => cue.lines)).toEqual([['a'.repeat(40)], ['b'.repeat(40)], ['c'.repeat(40)]]);
+    cues.slice(0, 3).forEach(cue => expect(cue.end - cue.start).toBeLessThanOrEqual(7));
+    expect(cues[3]).toEqual(expect.objectContaining({ start: 20, end: 21, lines: ['Yes'] }));
+  });
+
+  test('should write SRT and WebVTT with speaker labels', () => {
+    const cues = buildSubtitleCues({
+      text: '',
+      segments: [
+        { id: 0, start: 1, end: 3.5, text: ' Hello <team>', speaker: speaker('1') },
+        { id: 1, start: 3.5, end: 5, text: 'Still me', speaker: speaker('1') },
+        { id: 2, start: 3661, end: 3663, text: 'Hi', speaker: speaker('2') }
+      ]
+    });
+
+    expect(toSrt(cues)).toBe(
+      '1\n00:00:01,000 --> 00:00:03,500\nSpeaker 1: Hello <team>\n\n' +
+      '2\n00:00:03,500 --> 00:00:05,000\nStill me\n\n' +
+      '3\n01:01:01,000 --> 01:01:03,000\nSpeaker 2: Hi\n'
+    );
+    expect(toVtt(cues)).toBe(
+      'WEBVTT\n\n' +
+      '00:00:01.000 --> 00:00:03.500\n<v Speaker 1>Hello &lt;team&gt;\n\n' +
+      '00:00:03.500 --> 00:00:05.000\n<v Speaker 1>Still me\n\n' +
+      '01:01:01.000 --> 01:01:03.000\n<v Speaker 2>Hi\n'
+    );
+  });
+
+  test('should map times back onto a sped-up recording', () => {
+    const result: VerboseTranscriptionResult = {
+      text: 'Hello',
+      duration: 5,
+      segments: [{ id: 0, start: 1, end: 2, text: 'Hello', words: [{ start: 1, end: 2, word: 'Hello' }] }]
+    };
+
+    expect(buildSubtitleCues(result, 2)[0]).toEqual(expect.objectContaining({ start: 2, end: 4 }));
+    const json = JSON.parse(toTranscriptJson(result, 2));
+    expect(json.duration).toBe(10);
+    expect(json.segments[0].words[0]).toEqual({ start: 2, end: 4, word: 'Hello' });
+    expect(sidecarPath('Notes/standup.md', 'srt')).toBe('Notes/standup.srt');
+  });
+});
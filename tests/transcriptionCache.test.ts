@@ -0,0 +1,128 @@
+import { DataAdapter } from 'obsidian';
+import { TranscriptionCache, TranscriptionCacheKey } from '../src/transcriptionCache';
+import { VerboseTranscriptionResult } from '../src/types';
+
+// In-memory stand-in for the vault adapter
+function createAdapter() {
+  const files = new Map<string, string | ArrayBuffer>();
+  const dirs = new Set<string>();
+  const adapter = {
+    exists: jest.fn(async (path: string) => files.has(path) || dirs.has(path)),
+    read: jest.fn(async (path: string) => {
+      if (!files.has(path)) {
+        throw new Error(`ENOENT: ${path}`);
+      }
+      return files.get(path) as string;
+    }),
+    write: jest.fn(async (path: string, data: string) => { files.set(path, data); }),
+    readBinary: jest.fn(async (path: string) => files.get(path) as ArrayBuffer),
+    writeBinary: jest.fn(async (path: string, data: ArrayBuffer) => { files.set(path, data); }),
+    remove: jest.fn(async (path: string) => { files.delete(path); }),
+    mkdir: jest.fn(async (path: string) => { dirs.add(path); }),
+    rmdir: jest.fn(async (path: string) => {
+      for (const key of [...files.keys(), ...dirs]) {
+        if (key === path || key.startsWith(`${path}/`)) {
+          files.delete(key);
+          dirs.delete(key);
+        }
+      }
+    })
+  };
+  return { adapter: adapter as unknown as DataAdapter, files };
+}
+
+const whisperKey: TranscriptionCacheKey = { provider: 'openai', model: 'whisper-1', language: 'ko' };
+
+function transcript(text: string): VerboseTranscriptionResult {
+  return { text, segments: [{ id: 0, start: 0, end: 1, text }] };
+}
+
+describe('TranscriptionCache', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should persist transcripts across instances', async () => {
+    const { adapter } = createAdapter();
+    await new TranscriptionCache(adapter, 'plugin/cache').setTranscription('hash1', whisperKey, transcript('hello'));
+
+    const reopened = new TranscriptionCache(adapter, 'plugin/cache');
+
+    expect(await reopened.getTranscription('hash1', whisperKey)).toEqual(transcript('hello'));
+    expect(await reopened.getTranscription('hash2', whisperKey)).toBeNull();
+  });
+
+  test('should keep transcripts of different providers, models and languages apart', async () => {
+    const { adapter } = createAdapter();
+    const cache = new TranscriptionCache(adapter, 'plugin/cache');
+    await cache.setTranscription('hash1', whisperKey, transcript('whisper'));
+
+    expect(await cache.getTranscription('hash1', { ...whisperKey, model: 'gpt-4o-transcribe' })).toBeNull();
+    expect(await cache.getTranscription('hash1', { ...whisperKey, provider: 'gemini' })).toBeNull();
+    expect(await cache.getTranscription('hash1', { ...whisperKey, language: 'en' })).toBeNull();
+    expect(await cache.getTranscription('hash1', { ...whisperKey, diarization: 'pyannote' })).toBeNull();
+  });
+
+  test('should keep transcripts made while recording apart from STT results', async () => {
+    const { adapter } = createAdapter();
+    await new TranscriptionCache(adapter, 'plugin/cache').setRecordingTranscript('hash1', transcript('live'));
+
+    const reopened = new TranscriptionCache(adapter, 'plugin/cache');
+
+    expect(await reopened.getRecordingTranscript('hash1')).toEqual(transcript('live'));
+    expect(await reopened.getTranscription('hash1', whisperKey)).toBeNull();
+  });
+
+  test('should round-trip segmentation results', async () => {
+    const { adapter } = createAdapter();
+    const cache = new TranscriptionCache(adapter, 'plugin/cache');
+    await cache.setSegments('seg-key', [
+      { bufferOrPath: Buffer.from('first'), startSec: 0, endSec: 10, sizeBytes: 5 },
+      { bufferOrPath: Buffer.from('second'), startSec: 10, endSec: 20, sizeBytes: 6 }
+    ]);
+
+    const segments = await new TranscriptionCache(adapter, 'plugin/cache').getSegments('seg-key');
+
+    expect(segments).toHaveLength(2);
+    expect((segments![1].bufferOrPath as Buffer).toString()).toBe('second');
+    expect(segments![1]).toMatchObject({ startSec: 10, endSec: 20, sizeBytes: 6 });
+  });
+
+  test('should evict least recently used entries past the size limit', async () => {
+    const { adapter } = createAdapter();
+    const entryBytes = JSON.stringify(transcript('a'.repeat(400))).length;
+    const cache = new TranscriptionCache(adapter, 'plugin/cache', (entryBytes * 2.5) / 1024 / 1024);
+
+    const now = jest.spyOn(Date, 'now');
+    now.mockReturnValue(1000);
+    await cache.setTranscription('old', whisperKey, transcript('a'.repeat(400)));
+    now.mockReturnValue(2000);
+    await cache.setTranscription('used', whisperKey, transcript('b'.repeat(400)));
+    now.mockReturnValue(3000);
+    await cache.getTranscription('old', whisperKey);
+    now.mockReturnValue(4000);
+    await cache.setTranscription('new', whisperKey, transcript('c'.repeat(400)));
+
+    expect(await cache.getTranscription('used', whisperKey)).toBeNull();
+    expect(await cache.getTranscription('old', whisperKey)).not.toBeNull();
+    expect(await cache.getTranscription('new', whisperKey)).not.toBeNull();
+    expect((await cache.getStats()).entryCount).toBe(2);
+  });
+
+  test('should delete everything on clear and report the freed size', async () => {
+    const { adapter, files } = createAdapter();
+    const cache = new TranscriptionCache(adapter, 'plugin/cache');
+    await cache.setTranscription('hash1', whisperKey, transcript('hello'));
+
+    const freed = await cache.clear();
+
+    expect(freed).toBeGreaterThan(0);
+    expect([...files.keys()].filter(path => path.startsWith('plugin/cache'))).toEqual([]);
+    expect(await cache.getTranscription('hash1', whisperKey)).toBeNull();
+  });
+});